@@ -0,0 +1,37 @@
+import { Form, useLocation } from "@remix-run/react";
+import { Languages } from "lucide-react";
+import { LOCALE_LABELS, LOCALES, useI18n } from "~/lib/i18n";
+
+/** 表示言語の切り替え。選んだ言語は Cookie に保存され、次回以降も使われる */
+export function LanguageSwitcher() {
+  const { locale, t } = useI18n();
+  const location = useLocation();
+
+  return (
+    <Form action="/locale" method="post" className="flex items-center gap-1 text-sm">
+      <Languages className="w-4 h-4 text-gray-500" aria-label={t.common.language} />
+      <input
+        type="hidden"
+        name="redirect_to"
+        value={`${location.pathname}${location.search}`}
+      />
+      {LOCALES.map((value) => (
+        <button
+          key={value}
+          type="submit"
+          name="locale"
+          value={value}
+          lang={value}
+          aria-pressed={value === locale}
+          className={
+            value === locale
+              ? "px-1 font-semibold text-gray-900"
+              : "px-1 text-gray-500 hover:text-blue-600"
+          }
+        >
+          {LOCALE_LABELS[value]}
+        </button>
+      ))}
+    </Form>
+  );
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { memoryDb } from "../../test/server";
+import { parseAuditFilter, recordAudit } from "./audit.server";
+import { createSupabaseRepository } from "./repository.server";
+import type { TypedSupabaseClient } from "./supabase.server";
+
+const ADMIN_ID = "00000000-0000-0000-0000-000000000001";
+const MEMBER_ID = "00000000-0000-0000-0000-000000000004";
+
+describe("parseAuditFilter", () => {
+  it("期間を timeZone の日付として、終了日を含めて検索する", () => {
+    const { filter } = parseAuditFilter(
+      new URLSearchParams({ from: "2026-12-01", to: "2026-12-31" }),
+      "Asia/Tokyo"
+    );
+
+    expect(filter).toMatchObject({
+      from: "2026-11-30T15:00:00.000Z",
+      to: "2026-12-31T15:00:00.000Z",
+    });
+  });
+
+  it("メンバーIDでない member は無視する", () => {
+    const { filter, values } = parseAuditFilter(
+      new URLSearchParams({ member: "x,entity_type.eq.member" }),
+      "Asia/Tokyo"
+    );
+
+    expect(filter.memberId).toBeUndefined();
+    expect(values.member).toBe("");
+  });
+});
+
+describe("auditLogs.list: メンバーでの絞り込み", () => {
+  it("メンバーが操作したログと、メンバーへの変更のログの両方を返す", async () => {
+    const db = memoryDb();
+    await recordAudit(db, MEMBER_ID, [
+      { action: "create", entityType: "schedule", entityId: crypto.randomUUID() },
+    ]);
+    await recordAudit(db, ADMIN_ID, [
+      { action: "update", entityType: "member", entityId: MEMBER_ID },
+      { action: "update", entityType: "member", entityId: ADMIN_ID },
+    ]);
+
+    const { filter } = parseAuditFilter(
+      new URLSearchParams({ member: MEMBER_ID }),
+      "Asia/Tokyo"
+    );
+    const { data } = await db.auditLogs.list(filter);
+
+    expect(data?.map((log) => [log.actor_id, log.entity_type, log.entity_id])).toEqual(
+      expect.arrayContaining([
+        [MEMBER_ID, "schedule", expect.any(String)],
+        [ADMIN_ID, "member", MEMBER_ID],
+      ])
+    );
+    expect(data).toHaveLength(2);
+  });
+});
+
+describe("recordAudit", () => {
+  it("service role の鍵が未設定でも、記録できなかったことをログに出すだけで操作を続ける", async () => {
+    vi.stubEnv("SUPABASE_URL", "http://localhost:54321");
+    vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "");
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const db = createSupabaseRepository({} as TypedSupabaseClient);
+
+    await expect(
+      recordAudit(db, ADMIN_ID, [
+        { action: "update", entityType: "member", entityId: MEMBER_ID },
+      ])
+    ).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith({
+      message: expect.stringContaining("SUPABASE_SERVICE_ROLE_KEY"),
+    });
+  });
+});
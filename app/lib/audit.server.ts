@@ -0,0 +1,98 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import {
+  AUDIT_ENTITY_TYPES,
+  AUDIT_FIELDS,
+  type AuditAction,
+  type AuditEntityType,
+} from "./audit";
+import type { Json } from "./database.types";
+import type { AuditLogFilter, Repository } from "./repository.server";
+import { fromZonedTime } from "./timezone";
+
+export type AuditEntry = {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  /** 変更前の値。行をそのまま渡してよい（AUDIT_FIELDS の項目だけを保存する） */
+  before?: object | null;
+  after?: object | null;
+};
+
+const pickAuditFields = (entityType: AuditEntityType, values?: object | null) =>
+  values
+    ? (Object.fromEntries(
+        AUDIT_FIELDS[entityType]
+          .filter((field) => field in values)
+          .map((field) => [field, (values as Record<string, unknown>)[field]])
+      ) as Json)
+    : null;
+
+/**
+ * 操作を監査ログに記録する。
+ * 記録に失敗しても操作自体は完了しているため、エラーはログに出すだけにする。
+ */
+export async function recordAudit(
+  db: Repository,
+  actorId: string,
+  entries: AuditEntry[]
+) {
+  if (entries.length === 0) return;
+
+  const { error } = await db.auditLogs.insert(
+    entries.map(({ action, entityType, entityId, before, after }) => ({
+      actor_id: actorId,
+      action,
+      entity_type: entityType,
+      entity_id: entityId,
+      before: pickAuditFields(entityType, before),
+      after: pickAuditFields(entityType, after),
+    }))
+  );
+
+  if (error) {
+    console.error(error);
+  }
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const parseDate = (value: string | null) => {
+  const date = value ? parseISO(value) : null;
+  return date && isValid(date) ? date : null;
+};
+
+/**
+ * 監査ログ画面・CSV 出力のクエリパラメータ (member, entity, from, to) を検索条件にする。
+ * member はそのメンバーが操作したログと、そのメンバーへの変更のログの両方に当てはまる。
+ * from / to は timeZone での日付 (yyyy-MM-dd) で、to の日も含める。
+ */
+export function parseAuditFilter(searchParams: URLSearchParams, timeZone: string) {
+  const from = parseDate(searchParams.get("from"));
+  const to = parseDate(searchParams.get("to"));
+  const entity = searchParams.get("entity");
+  const member = searchParams.get("member");
+  const memberId = member && UUID.test(member) ? member : undefined;
+  const entityType = AUDIT_ENTITY_TYPES.find((type) => type === entity);
+
+  const filter: AuditLogFilter = {
+    from: from
+      ? fromZonedTime(format(from, "yyyy-MM-dd"), timeZone).toISOString()
+      : undefined,
+    to: to
+      ? fromZonedTime(format(addDays(to, 1), "yyyy-MM-dd"), timeZone).toISOString()
+      : undefined,
+    memberId,
+    entityType,
+  };
+
+  return {
+    filter,
+    /** フォームの初期値 */
+    values: {
+      member: memberId ?? "",
+      entity: entityType ?? "",
+      from: from ? format(from, "yyyy-MM-dd") : "",
+      to: to ? format(to, "yyyy-MM-dd") : "",
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import type { I18n } from "./i18n";
+import type { EmploymentType } from "./members";
+import type { Role } from "./permissions";
+import { REPORT_FIELDS, type ReportStatus } from "./reports";
+
+export type AuditEntityType =
+  | "schedule"
+  | "schedule_series"
+  | "report"
+  | "member"
+  | "invitation";
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  "schedule",
+  "schedule_series",
+  "report",
+  "member",
+  "invitation",
+];
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "submit"
+  | "withdraw"
+  | "resubmit"
+  | "approve"
+  | "reject"
+  | "invite"
+  | "resend"
+  | "revoke"
+  | "deactivate"
+  | "reactivate";
+
+/** 監査ログに残す項目。エンティティごとに、ここに挙げた項目だけを before / after に保存する */
+export const AUDIT_FIELDS: Record<AuditEntityType, string[]> = {
+  schedule: ["start_time", "end_time", "location", "description", "series_id"],
+  schedule_series: [
+    "weekdays",
+    "start_time",
+    "end_time",
+    "location",
+    "description",
+    "starts_on",
+    "until",
+    "time_zone",
+  ],
+  report: [...REPORT_FIELDS, "status", "review_comment"],
+  member: [
+    "email",
+    "full_name",
+    "role",
+    "employment_type",
+    "team_id",
+    "time_zone",
+    "deactivated_at",
+  ],
+  invitation: ["email", "full_name", "expires_at", "send_count", "revoked_at"],
+};
+
+export type AuditLog = {
+  id: string;
+  actor_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+/**
+ * 監査ログの値を表示用の文字列にする。teamNames を渡すとチームIDをチーム名にする。
+ * 日時は i18n のタイムゾーンでの日時として表示する。
+ */
+export function formatAuditValue(
+  field: string,
+  value: unknown,
+  { t, formatDate }: I18n,
+  teamNames: Record<string, string> = {}
+) {
+  if (value === undefined || value === null || value === "") return t.audit.emptyValue;
+  if (Array.isArray(value)) {
+    return field === "weekdays"
+      ? value.map((day) => t.weekdays[Number(day)]).join(t.schedule.weekdaySeparator)
+      : value.join(t.common.listSeparator);
+  }
+  if (field.endsWith("_time") || field.endsWith("_at")) {
+    // 繰り返し予定の時刻は HH:mm のまま保存している
+    return /^\d{2}:\d{2}/.test(String(value))
+      ? String(value).slice(0, 5)
+      : formatDate(String(value), "dateTime");
+  }
+  if (field === "break_time") return t.minutes(String(value));
+  if (field === "role") return t.roles[value as Role] ?? String(value);
+  if (field === "employment_type") {
+    return t.employmentTypes[value as EmploymentType] ?? String(value);
+  }
+  if (field === "status") return t.reportStatuses[value as ReportStatus] ?? String(value);
+  if (field === "team_id") return teamNames[String(value)] ?? String(value);
+  return String(value);
+}
+
+/**
+ * 監査ログの変更内容を「項目: 前 → 後」の形で返す。
+ * 作成・削除のように片方しか無い場合は、その時点の値を「項目: 値」で返す。
+ */
+export function describeAuditChanges(
+  log: Pick<AuditLog, "entity_type" | "before" | "after">,
+  i18n: I18n,
+  teamNames: Record<string, string> = {}
+) {
+  const { before, after } = log;
+  const fields = AUDIT_FIELDS[log.entity_type] ?? [];
+  const label = (field: string) => i18n.t.auditFields[field] ?? field;
+  const value = (field: string, values: Record<string, unknown>) =>
+    formatAuditValue(field, values[field], i18n, teamNames);
+
+  if (before && after) {
+    return fields
+      // 日時は保存元によって書式が異なるため、表示用の値で比較する
+      .filter((field) => value(field, before) !== value(field, after))
+      .map(
+        (field) =>
+          `${label(field)}: ${value(field, before)} → ${value(field, after)}`
+      );
+  }
+
+  const values = after ?? before;
+  if (!values) return [];
+
+  return fields
+    .filter((field) => field in values)
+    .map((field) => `${label(field)}: ${value(field, values)}`);
+}
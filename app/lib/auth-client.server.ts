@@ -0,0 +1,214 @@
+import { createCookieSessionStorage } from "@remix-run/node";
+import type {
+  AuthError,
+  EmailOtpType,
+  Provider,
+  User,
+} from "@supabase/supabase-js";
+import type { TypedSupabaseClient } from "./supabase.server";
+
+export type AuthUser = {
+  id: string;
+  email?: string;
+  /** ログインに使った方法 (email やログインした外部サービス) */
+  provider?: string;
+  /** パスワードを設定済みか。招待メールから初めてログインした場合は false */
+  passwordSet?: boolean;
+};
+
+export type AuthClientError = Pick<AuthError, "code" | "status" | "message">;
+
+/**
+ * ログインセッションの操作。DATA_BACKEND 環境変数で実装を切り替える。
+ * セッションの Cookie は作成時に渡した response のヘッダーに書き込まれる。
+ */
+export interface AuthClient {
+  /** ログイン中のユーザーを返す。未ログインの場合は null */
+  getUser(): Promise<AuthUser | null>;
+  signInWithPassword(credentials: {
+    email: string;
+    password: string;
+  }): Promise<
+    { user: AuthUser; error: null } | { user: null; error: AuthClientError }
+  >;
+  signOut(): Promise<void>;
+  /** ログイン用のリンクをメールで送る。招待メールにも使う */
+  sendLoginLink(options: {
+    email: string;
+    redirectTo: string;
+    /** false の場合、未登録のメールアドレスにはアカウントを作らない */
+    shouldCreateUser?: boolean;
+    data?: Record<string, string>;
+  }): Promise<{ error: AuthClientError | null }>;
+  /**
+   * 外部サービスでのログインを始め、ログイン画面の URL を返す。
+   * PKCE の検証用の値は Cookie に保存するため、レスポンスには response のヘッダーを付けること
+   */
+  signInWithOAuth(options: {
+    provider: Provider;
+    redirectTo: string;
+  }): Promise<
+    { url: string; error: null } | { url: null; error: AuthClientError }
+  >;
+  /** パスワード再設定用のリンクをメールで送る */
+  sendPasswordReset(options: {
+    email: string;
+    redirectTo: string;
+  }): Promise<{ error: AuthClientError | null }>;
+  /** ログイン中のユーザーのパスワードを設定する */
+  updatePassword(password: string): Promise<{ error: AuthClientError | null }>;
+  /**
+   * 認証メールのリンクや外部サービスでのログインから戻ったときに、ログインセッションを作る。
+   * code は外部サービスと同じブラウザから送ったログインリンク (PKCE)、
+   * tokenHash と type は招待・パスワード再設定のメールで受け取る
+   */
+  verifyCallback(params: {
+    code: string | null;
+    tokenHash: string | null;
+    type: EmailOtpType | null;
+  }): Promise<
+    { user: AuthUser; error: null } | { user: null; error: AuthClientError | null }
+  >;
+}
+
+/** メールのリンクや外部サービスでのログインを使えない実装が返すエラー */
+const PROVIDER_DISABLED: AuthClientError = {
+  code: "provider_disabled",
+  status: 400,
+  message: "Email links are not available",
+};
+
+const toAuthUser = (user: User): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  provider: user.app_metadata?.provider,
+  passwordSet: Boolean(user.user_metadata?.password_set),
+});
+
+/** Supabase Auth を使う実装 */
+export function createSupabaseAuthClient(
+  supabase: TypedSupabaseClient
+): AuthClient {
+  return {
+    getUser: async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      return user && toAuthUser(user);
+    },
+    signInWithPassword: async (credentials) => {
+      const { data, error } = await supabase.auth.signInWithPassword(credentials);
+
+      if (error) {
+        return { user: null, error };
+      }
+
+      // パスワードでログインできたユーザーには、パスワードの初期設定を求めない
+      if (!data.user.user_metadata?.password_set) {
+        await supabase.auth.updateUser({ data: { password_set: true } });
+      }
+
+      return { user: toAuthUser(data.user), error: null };
+    },
+    signOut: async () => {
+      await supabase.auth.signOut();
+    },
+    sendLoginLink: async ({ email, redirectTo, shouldCreateUser, data }) =>
+      supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: redirectTo, shouldCreateUser, data },
+      }),
+    signInWithOAuth: async ({ provider, redirectTo }) => {
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: { redirectTo },
+      });
+
+      return error ? { url: null, error } : { url: data.url, error: null };
+    },
+    sendPasswordReset: async ({ email, redirectTo }) =>
+      supabase.auth.resetPasswordForEmail(email, { redirectTo }),
+    updatePassword: async (password) =>
+      supabase.auth.updateUser({ password, data: { password_set: true } }),
+    verifyCallback: async ({ code, tokenHash, type }) => {
+      const { data, error } = code
+        ? await supabase.auth.exchangeCodeForSession(code)
+        : tokenHash && type
+          ? await supabase.auth.verifyOtp({ token_hash: tokenHash, type })
+          : { data: { user: null }, error: null };
+
+      return data.user && !error
+        ? { user: toAuthUser(data.user), error: null }
+        : { user: null, error };
+    },
+  };
+}
+
+const localSessionStorage = createCookieSessionStorage<{ userId: string }>({
+  cookie: {
+    name: "local_session",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secrets: [process.env.SESSION_SECRET ?? "local-development-secret"],
+  },
+});
+
+/**
+ * 開発・オフライン用のログイン。Cookie セッションにユーザーIDを保存する。
+ * ユーザーの一覧は findUserByEmail で渡し、パスワードは全員 LOCAL_AUTH_PASSWORD（既定値 password）。
+ * メールは送らず、リンクをサーバーのログに出力する。メールのリンクでのログインと
+ * パスワードの変更には対応しないため、provider_disabled のエラーを返す。
+ */
+export function createLocalAuthClient(
+  request: Request,
+  response: Response,
+  findUserByEmail: (email: string) => Promise<AuthUser | null>
+): AuthClient {
+  const getSession = () =>
+    localSessionStorage.getSession(request.headers.get("Cookie"));
+
+  return {
+    getUser: async () => {
+      const userId = (await getSession()).get("userId");
+      return userId ? { id: userId, passwordSet: true } : null;
+    },
+    signInWithPassword: async ({ email, password }) => {
+      const user = await findUserByEmail(email);
+
+      if (!user || password !== (process.env.LOCAL_AUTH_PASSWORD ?? "password")) {
+        return {
+          user: null,
+          error: {
+            code: "invalid_credentials",
+            status: 400,
+            message: "Invalid login credentials",
+          },
+        };
+      }
+
+      const session = await getSession();
+      session.set("userId", user.id);
+      response.headers.append(
+        "Set-Cookie",
+        await localSessionStorage.commitSession(session)
+      );
+
+      return { user: { ...user, passwordSet: true }, error: null };
+    },
+    signOut: async () => {
+      response.headers.append(
+        "Set-Cookie",
+        await localSessionStorage.destroySession(await getSession())
+      );
+    },
+    sendLoginLink: async ({ email, redirectTo }) => {
+      console.info(`[local auth] ${email} へのログイン用リンク: ${redirectTo}`);
+      return { error: null };
+    },
+    signInWithOAuth: async () => ({ url: null, error: PROVIDER_DISABLED }),
+    sendPasswordReset: async () => ({ error: PROVIDER_DISABLED }),
+    updatePassword: async () => ({ error: PROVIDER_DISABLED }),
+    verifyCallback: async () => ({ user: null, error: PROVIDER_DISABLED }),
+  };
+}
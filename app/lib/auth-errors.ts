@@ -0,0 +1,25 @@
+import type { AuthError } from "@supabase/supabase-js";
+import { ja, type Messages } from "./locales/ja";
+
+/**
+ * Supabase の認証エラーを画面に表示するメッセージ (t.authErrors) に変換する。
+ * リダイレクトで受け取ったエラーコードのみの場合も扱えるよう、code だけのオブジェクトも受け付ける。
+ */
+export function authErrorMessage(
+  error: Pick<AuthError, "code" | "status"> | { code: string | null } | null | undefined,
+  t: Messages = ja
+) {
+  if (!error) {
+    return t.authFailed;
+  }
+
+  if (error.code && t.authErrors[error.code]) {
+    return t.authErrors[error.code];
+  }
+
+  if ("status" in error && error.status === 429) {
+    return t.authErrors.over_request_rate_limit;
+  }
+
+  return t.authFailedRetry;
+}
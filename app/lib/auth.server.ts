@@ -0,0 +1,116 @@
+import { json, redirect } from "@remix-run/node";
+import type { AuthUser } from "./auth-client.server";
+import type { ServerContext } from "./context.server";
+import { can, type Permission } from "./permissions";
+import type { Profile } from "./repository.server";
+
+export type CurrentProfile = Pick<
+  Profile,
+  "id" | "full_name" | "role" | "team_id" | "deactivated_at" | "time_zone"
+>;
+
+export type AuthContext = {
+  user: AuthUser;
+  profile: CurrentProfile;
+};
+
+/** 401 / 403 の理由。エラー画面で表示言語の説明 (t.errorPage.reasons) にする */
+export type AuthErrorReason = "login_required" | "deactivated" | "forbidden" | "no_team";
+
+const authError = (reason: AuthErrorReason, status: 401 | 403) =>
+  json({ reason }, { status });
+
+/**
+ * ログイン中のユーザーとプロフィールを返す。
+ * 未ログインの場合、画面の表示 (GET) はログイン画面にリダイレクトし、
+ * それ以外のリクエストには 401 を返す。無効化されたメンバーには 403 を返す。
+ */
+export async function requireUser({
+  request,
+  auth,
+  db,
+}: ServerContext): Promise<AuthContext> {
+  const user = await auth.getUser();
+  const { data: profile } = user
+    ? await db.profiles.get(user.id)
+    : { data: null };
+
+  if (!user || !profile) {
+    if (request.method === "GET") {
+      throw redirect("/login");
+    }
+    throw authError("login_required", 401);
+  }
+
+  if (profile.deactivated_at) {
+    throw authError("deactivated", 403);
+  }
+
+  return { user, profile };
+}
+
+/** 権限が無い場合は 403 を返す */
+export function assertPermission(
+  profile: CurrentProfile,
+  permission: Permission
+) {
+  if (!can(profile.role, permission)) {
+    throw authError("forbidden", 403);
+  }
+}
+
+/** ログイン中のユーザーが権限を持っていることを確認する。無い場合は 403 を返す */
+export async function requirePermission(
+  context: ServerContext,
+  permission: Permission
+) {
+  const auth = await requireUser(context);
+  assertPermission(auth.profile, permission);
+  return auth;
+}
+
+/**
+ * 実績を閲覧・承認できる範囲のチームIDを返す。
+ * チームリーダーは自チームのメンバーのみ、それ以外は全員（null）。
+ */
+export function reportTeamScope(profile: CurrentProfile) {
+  if (profile.role !== "team_lead") {
+    return null;
+  }
+
+  if (!profile.team_id) {
+    throw authError("no_team", 403);
+  }
+
+  return profile.team_id;
+}
+
+/**
+ * 認証メールや外部サービスからの戻り先 (/auth/callback) の URL を返す。
+ * next にはログイン後に表示する画面のパスを指定する。
+ */
+export function authCallbackUrl(request: Request, next = "/") {
+  const url = new URL("/auth/callback", process.env.SITE_URL ?? request.url);
+  url.searchParams.set("next", next);
+  return url.toString();
+}
+
+/**
+ * リダイレクト先として受け取った値のうち、アプリ内のパスだけを返す。それ以外は fallback。
+ * ブラウザは /\evil.com を //evil.com と解釈するため、先頭の文字ではなく
+ * URL として解釈したときに同じオリジンになるかで確かめる。
+ */
+export function safeRedirectPath(
+  value: FormDataEntryValue | null,
+  request: Request,
+  fallback = "/"
+) {
+  if (typeof value !== "string" || !value.startsWith("/")) {
+    return fallback;
+  }
+
+  const { origin } = new URL(request.url);
+  const url = new URL(value, origin);
+
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : fallback;
+}
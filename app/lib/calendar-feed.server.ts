@@ -0,0 +1,14 @@
+import { randomBytes } from "node:crypto";
+
+/** 購読 URL に含めるトークンを作る。推測できないよう十分な長さの乱数にする */
+export function createCalendarFeedToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+/** カレンダーアプリに登録する購読 URL */
+export function calendarFeedUrl(request: Request, token: string) {
+  return new URL(
+    `/calendar/${token}.ics`,
+    process.env.SITE_URL ?? request.url
+  ).toString();
+}
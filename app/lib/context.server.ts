@@ -0,0 +1,87 @@
+import {
+  createLocalAuthClient,
+  createSupabaseAuthClient,
+  type AuthClient,
+} from "./auth-client.server";
+import {
+  createMemoryRepository,
+  type MemoryStore,
+} from "./memory-repository.server";
+import { createSupabaseRepository, type Repository } from "./repository.server";
+import { createSeedStore } from "./seed.server";
+import {
+  createSupabaseServerClient,
+  createSupabaseServiceClient,
+} from "./supabase.server";
+
+export type DataBackend = "supabase" | "memory";
+
+/** loader / action で使う、リクエストごとのログインセッションとデータ操作 */
+export type ServerContext = {
+  request: Request;
+  /** Set-Cookie を含むため、loader / action のレスポンスヘッダーに必ず付けること */
+  response: Response;
+  auth: AuthClient;
+  db: Repository;
+};
+
+/**
+ * DATA_BACKEND 環境変数で選ぶデータの保存先。
+ * memory はシードデータ入りのメモリ上のデータとローカルのログインを使い、Supabase なしで動かせる。
+ */
+export function getDataBackend(): DataBackend {
+  const backend = process.env.DATA_BACKEND ?? "supabase";
+
+  if (backend !== "supabase" && backend !== "memory") {
+    throw new Error(
+      `DATA_BACKEND には supabase か memory を指定してください（${backend}）`
+    );
+  }
+
+  return backend;
+}
+
+declare global {
+  // 開発サーバーでモジュールが再読み込みされてもデータを保持する
+  // eslint-disable-next-line no-var
+  var __memoryStore: MemoryStore | undefined;
+}
+
+const memoryStore = () => (globalThis.__memoryStore ??= createSeedStore());
+
+export function createServerContext(request: Request): ServerContext {
+  if (getDataBackend() === "memory") {
+    const response = new Response();
+    const db = createMemoryRepository(memoryStore());
+
+    return {
+      request,
+      response,
+      auth: createLocalAuthClient(request, response, async (email) => {
+        const { data: profile } = await db.profiles.findByEmail(email);
+        return profile;
+      }),
+      db,
+    };
+  }
+
+  const { supabase, response } = createSupabaseServerClient(request);
+
+  return {
+    request,
+    response,
+    auth: createSupabaseAuthClient(supabase),
+    db: createSupabaseRepository(supabase),
+  };
+}
+
+/**
+ * 定期実行のジョブで使うデータ操作。ログインセッションは無く、全メンバーのデータを扱える。
+ */
+export function createJobContext(): Pick<ServerContext, "db"> {
+  if (getDataBackend() === "memory") {
+    return { db: createMemoryRepository(memoryStore()) };
+  }
+
+  return { db: createSupabaseRepository(createSupabaseServiceClient()) };
+}
@@ -0,0 +1,81 @@
+const BOM = "\uFEFF";
+
+/**
+ * Excel で数式として実行されないよう、= + - @ などで始まる文字列の先頭に ' を付ける。
+ * 業務内容や場所など、メンバーが入力した文字列をそのまま出力するため。
+ */
+const escapeFormula = (text: string) =>
+  /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+const escapeCell = (value: string | number | null | undefined) => {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "number"
+        ? String(value)
+        : escapeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 行の配列を CSV 文字列に変換する。
+ * Excel で日本語が文字化けしないよう、UTF-8 BOM を付けて CRLF で改行する。
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]) {
+  return BOM + rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** ダウンロード用の Content-Disposition ヘッダー値を返す（日本語のファイル名に対応） */
+export function contentDisposition(filename: string, fallback: string) {
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * CSV 文字列を行の配列に変換する。
+ * ダブルクォートで囲まれたセル（カンマ・改行・"" を含む）と BOM に対応し、空行は除く。
+ */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
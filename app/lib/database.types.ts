@@ -0,0 +1,527 @@
+// supabase/migrations のスキーマから生成した型。
+// スキーマを変更したら `supabase gen types typescript --local > app/lib/database.types.ts` で再生成すること。
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_logs: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          after: Json | null;
+          before: Json | null;
+          created_at: string;
+          entity_id: string | null;
+          entity_type: string;
+          id: string;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          created_at?: string;
+          entity_id?: string | null;
+          entity_type: string;
+          id?: string;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          created_at?: string;
+          entity_id?: string | null;
+          entity_type?: string;
+          id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      calendar_feeds: {
+        Row: {
+          created_at: string;
+          token: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          token: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          token?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      invitations: {
+        Row: {
+          accepted_at: string | null;
+          created_at: string;
+          email: string;
+          expires_at: string;
+          full_name: string;
+          id: string;
+          invited_by: string | null;
+          last_sent_at: string;
+          revoked_at: string | null;
+          send_count: number;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          created_at?: string;
+          email: string;
+          expires_at: string;
+          full_name: string;
+          id?: string;
+          invited_by?: string | null;
+          last_sent_at?: string;
+          revoked_at?: string | null;
+          send_count?: number;
+        };
+        Update: {
+          accepted_at?: string | null;
+          created_at?: string;
+          email?: string;
+          expires_at?: string;
+          full_name?: string;
+          id?: string;
+          invited_by?: string | null;
+          last_sent_at?: string;
+          revoked_at?: string | null;
+          send_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "invitations_invited_by_fkey";
+            columns: ["invited_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          created_at: string;
+          dedupe_key: string | null;
+          id: string;
+          kind: string;
+          link: string | null;
+          params: Json;
+          read_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          dedupe_key?: string | null;
+          id?: string;
+          kind: string;
+          link?: string | null;
+          params?: Json;
+          read_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          dedupe_key?: string | null;
+          id?: string;
+          kind?: string;
+          link?: string | null;
+          params?: Json;
+          read_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          created_at: string;
+          deactivated_at: string | null;
+          email: string;
+          employment_type: string;
+          full_name: string;
+          id: string;
+          is_admin: boolean;
+          role: string;
+          team_id: string | null;
+          time_zone: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          deactivated_at?: string | null;
+          email: string;
+          employment_type?: string;
+          full_name: string;
+          id: string;
+          is_admin?: boolean;
+          role?: string;
+          team_id?: string | null;
+          time_zone?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          deactivated_at?: string | null;
+          email?: string;
+          employment_type?: string;
+          full_name?: string;
+          id?: string;
+          is_admin?: boolean;
+          role?: string;
+          team_id?: string | null;
+          time_zone?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "profiles_team_id_fkey";
+            columns: ["team_id"];
+            isOneToOne: false;
+            referencedRelation: "teams";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      report_revisions: {
+        Row: {
+          action: string;
+          after: Json | null;
+          before: Json | null;
+          comment: string | null;
+          created_at: string;
+          id: string;
+          report_id: string;
+          revised_by: string | null;
+        };
+        Insert: {
+          action: string;
+          after?: Json | null;
+          before?: Json | null;
+          comment?: string | null;
+          created_at?: string;
+          id?: string;
+          report_id: string;
+          revised_by?: string | null;
+        };
+        Update: {
+          action?: string;
+          after?: Json | null;
+          before?: Json | null;
+          comment?: string | null;
+          created_at?: string;
+          id?: string;
+          report_id?: string;
+          revised_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "report_revisions_report_id_fkey";
+            columns: ["report_id"];
+            isOneToOne: false;
+            referencedRelation: "reports";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "report_revisions_revised_by_fkey";
+            columns: ["revised_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      reports: {
+        Row: {
+          actual_description: string;
+          actual_end_time: string;
+          actual_location: string | null;
+          actual_start_time: string;
+          break_time: number;
+          created_at: string;
+          id: string;
+          reflection: string;
+          review_comment: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          schedule_id: string;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          actual_description: string;
+          actual_end_time: string;
+          actual_location?: string | null;
+          actual_start_time: string;
+          break_time: number;
+          created_at?: string;
+          id?: string;
+          reflection: string;
+          review_comment?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          schedule_id: string;
+          status?: string;
+          updated_at?: string;
+        };
+        Update: {
+          actual_description?: string;
+          actual_end_time?: string;
+          actual_location?: string | null;
+          actual_start_time?: string;
+          break_time?: number;
+          created_at?: string;
+          id?: string;
+          reflection?: string;
+          review_comment?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          schedule_id?: string;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "reports_reviewed_by_fkey";
+            columns: ["reviewed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "reports_schedule_id_fkey";
+            columns: ["schedule_id"];
+            isOneToOne: false;
+            referencedRelation: "schedules";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      schedule_series: {
+        Row: {
+          created_at: string;
+          description: string;
+          end_time: string;
+          excluded_dates: string[];
+          id: string;
+          location: string;
+          start_time: string;
+          starts_on: string;
+          time_zone: string;
+          until: string;
+          user_id: string;
+          weekdays: number[];
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          end_time: string;
+          excluded_dates?: string[];
+          id?: string;
+          location: string;
+          start_time: string;
+          starts_on: string;
+          time_zone?: string;
+          until: string;
+          user_id: string;
+          weekdays: number[];
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          end_time?: string;
+          excluded_dates?: string[];
+          id?: string;
+          location?: string;
+          start_time?: string;
+          starts_on?: string;
+          time_zone?: string;
+          until?: string;
+          user_id?: string;
+          weekdays?: number[];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "schedule_series_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      schedules: {
+        Row: {
+          created_at: string;
+          description: string;
+          end_time: string;
+          id: string;
+          location: string;
+          sequence: number;
+          series_id: string | null;
+          start_time: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          end_time: string;
+          id?: string;
+          location: string;
+          sequence?: number;
+          series_id?: string | null;
+          start_time: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          end_time?: string;
+          id?: string;
+          location?: string;
+          sequence?: number;
+          series_id?: string | null;
+          start_time?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "schedules_series_id_fkey";
+            columns: ["series_id"];
+            isOneToOne: false;
+            referencedRelation: "schedule_series";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "schedules_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      teams: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      board_members: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          id: string;
+          full_name: string;
+          team_id: string | null;
+        }[];
+      };
+      board_schedules: {
+        Args: {
+          range_start: string;
+          range_end: string;
+          time_zone: string;
+        };
+        Returns: {
+          id: string;
+          user_id: string;
+          date: string;
+          location: string;
+          start_time: string | null;
+          end_time: string | null;
+        }[];
+      };
+      calendar_feed_owner: {
+        Args: {
+          feed_token: string;
+        };
+        Returns: {
+          id: string;
+          full_name: string;
+        }[];
+      };
+      calendar_feed_schedules: {
+        Args: {
+          feed_token: string;
+          range_start: string;
+        };
+        Returns: Database["public"]["Tables"]["schedules"]["Row"][];
+      };
+      current_role_name: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      current_team_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"];
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"];
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"];
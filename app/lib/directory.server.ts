@@ -0,0 +1,151 @@
+export type DirectoryMember = {
+  email: string;
+  name: string;
+};
+
+/**
+ * 招待できるメンバーの名簿（Slack ワークスペースなど）。
+ * MEMBER_DIRECTORY 環境変数で実装を切り替える。
+ */
+export type MemberDirectoryKind = "slack" | "local";
+
+export interface MemberDirectory {
+  /** 名簿の種類。画面やエラーメッセージには t.members.directories の名前で表示する */
+  readonly kind: MemberDirectoryKind;
+  /** メールアドレスで名簿のメンバーを探す。見つからなければ null */
+  findMemberByEmail(email: string): Promise<DirectoryMember | null>;
+  /** 名簿のメンバーを全員返す */
+  listMembers(): Promise<DirectoryMember[]>;
+}
+
+export class DirectoryError extends Error {}
+
+type SlackUser = {
+  deleted?: boolean;
+  is_bot?: boolean;
+  real_name?: string;
+  name: string;
+  profile: { email?: string; real_name?: string };
+};
+
+/** Slack API (users.lookupByEmail / users.list) でワークスペースのメンバーを確認する */
+export class SlackDirectory implements MemberDirectory {
+  readonly kind = "slack";
+
+  constructor(private readonly token: string) {}
+
+  private async call<T>(method: string, params: Record<string, string>) {
+    const response = await fetch(
+      `https://slack.com/api/${method}?${new URLSearchParams(params)}`,
+      { headers: { Authorization: `Bearer ${this.token}` } }
+    );
+    const body = await response.json();
+
+    if (!response.ok || !body.ok) {
+      // 見つからない場合も ok: false で返るので、呼び出し側で判定できるようにする
+      if (body?.error === "users_not_found") {
+        return null;
+      }
+      throw new DirectoryError(`Slack API ${method} failed: ${body?.error ?? response.status}`);
+    }
+
+    return body as T;
+  }
+
+  private toMember(user: SlackUser): DirectoryMember | null {
+    if (user.deleted || user.is_bot || !user.profile.email) {
+      return null;
+    }
+
+    return {
+      email: user.profile.email.toLowerCase(),
+      name: user.profile.real_name || user.real_name || user.name,
+    };
+  }
+
+  async findMemberByEmail(email: string) {
+    const body = await this.call<{ user: SlackUser }>("users.lookupByEmail", { email });
+    return body ? this.toMember(body.user) : null;
+  }
+
+  async listMembers() {
+    const members: DirectoryMember[] = [];
+    let cursor = "";
+
+    do {
+      const body = await this.call<{
+        members: SlackUser[];
+        response_metadata?: { next_cursor?: string };
+      }>("users.list", { limit: "200", ...(cursor && { cursor }) });
+
+      for (const user of body?.members ?? []) {
+        const member = this.toMember(user);
+        if (member) {
+          members.push(member);
+        }
+      }
+      cursor = body?.response_metadata?.next_cursor ?? "";
+    } while (cursor);
+
+    return members;
+  }
+}
+
+/**
+ * 開発・オフライン用の名簿。
+ * LOCAL_DIRECTORY_EMAILS（カンマ区切り）に含まれるメールアドレスのみをメンバーとして扱う。
+ */
+export class LocalDirectory implements MemberDirectory {
+  readonly kind = "local";
+
+  private readonly members: DirectoryMember[];
+
+  constructor(emails: string[]) {
+    this.members = emails.map((email) => ({
+      email: email.toLowerCase(),
+      name: email.split("@")[0],
+    }));
+  }
+
+  async findMemberByEmail(email: string) {
+    return (
+      this.members.find((member) => member.email === email.toLowerCase()) ?? null
+    );
+  }
+
+  async listMembers() {
+    return this.members;
+  }
+}
+
+/**
+ * MEMBER_DIRECTORY (slack / local) で選んだ名簿。
+ * 未指定の場合は SLACK_BOT_TOKEN があれば Slack を使う。どちらも無い場合は、
+ * 全員の招待を断ってしまわないよう、設定の誤りとしてエラーにする。
+ */
+export function getMemberDirectory(): MemberDirectory {
+  const kind =
+    process.env.MEMBER_DIRECTORY ?? (process.env.SLACK_BOT_TOKEN ? "slack" : undefined);
+
+  if (kind === "slack") {
+    if (!process.env.SLACK_BOT_TOKEN) {
+      throw new Error("SLACK_BOT_TOKEN が設定されていません");
+    }
+    return new SlackDirectory(process.env.SLACK_BOT_TOKEN);
+  }
+
+  if (kind === "local") {
+    return new LocalDirectory(
+      (process.env.LOCAL_DIRECTORY_EMAILS ?? "")
+        .split(",")
+        .map((email) => email.trim())
+        .filter(Boolean)
+    );
+  }
+
+  throw new Error(
+    kind
+      ? `MEMBER_DIRECTORY には slack か local を指定してください（${kind}）`
+      : "招待するメンバーの名簿が設定されていません。SLACK_BOT_TOKEN か MEMBER_DIRECTORY=local を設定してください"
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * 環境変数の正の数値を読み取る。未設定や数値でない値の場合は fallback を使う
+ * (Number() だけでは誤った値が NaN になり、比較が常に false になってしまうため)。
+ */
+export const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
@@ -0,0 +1,55 @@
+import { createCookie } from "@remix-run/node";
+import { createI18n, DEFAULT_LOCALE, isLocale, type Locale } from "./i18n";
+
+/** 画面の言語切り替えで選んだ表示言語。ログイン前の画面でも使うため Cookie に保存する */
+export const localeCookie = createCookie("locale", {
+  path: "/",
+  sameSite: "lax",
+  httpOnly: true,
+  maxAge: 60 * 60 * 24 * 365,
+});
+
+/**
+ * Accept-Language ヘッダーから対応している言語を優先度順に探す。
+ * 例: "en-US,en;q=0.9,ja;q=0.8" → en
+ */
+export function parseAcceptLanguage(header: string | null): Locale | null {
+  if (!header) return null;
+
+  const languages = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.trim().split("-")[0].toLowerCase(),
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ quality }) => Number.isFinite(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  return languages.map(({ language }) => language).find(isLocale) ?? null;
+}
+
+/**
+ * リクエストの表示言語を決める。
+ * 画面で選んだ言語（Cookie）、ブラウザの言語設定（Accept-Language）、既定の日本語の順に使う。
+ */
+export async function getLocale(request: Request): Promise<Locale> {
+  const preference = await localeCookie.parse(request.headers.get("Cookie"));
+
+  if (isLocale(preference)) {
+    return preference;
+  }
+
+  return parseAcceptLanguage(request.headers.get("Accept-Language")) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * loader / action で使う、リクエストの表示言語のメッセージと書式。
+ * 日時を扱う場合は resolveTimeZone(profile) で決めたタイムゾーンを渡すこと。
+ */
+export async function getI18n(request: Request, timeZone?: string) {
+  return createI18n(await getLocale(request), timeZone);
+}
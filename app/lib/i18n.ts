@@ -0,0 +1,77 @@
+import { useRouteLoaderData } from "@remix-run/react";
+import { format, parseISO } from "date-fns";
+import { enUS, ja as jaDateLocale } from "date-fns/locale";
+import type { loader as rootLoader } from "~/root";
+import type { loader as appLoader } from "~/routes/_app";
+import { en } from "./locales/en";
+import { ja, type Messages } from "./locales/ja";
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from "./timezone";
+import { formatWorkMinutes } from "./work-time";
+
+export type { Messages };
+
+export const LOCALES = ["ja", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "ja";
+
+/** 言語の切り替えに表示する名前（その言語での表記） */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  ja: "日本語",
+  en: "English",
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+const MESSAGES: Record<Locale, Messages> = { ja, en };
+
+const DATE_LOCALES = { ja: jaDateLocale, en: enUS };
+
+export type DateFormat = keyof Messages["formats"];
+
+export type I18n = {
+  locale: Locale;
+  t: Messages;
+  /** 日時を表示・入力するタイムゾーン */
+  timeZone: string;
+  /** 日時 (UTC の時点) を timeZone での日時として、表示言語の書式 (t.formats) で表示する */
+  formatDate: (date: Date | string, pattern: DateFormat) => string;
+  /**
+   * タイムゾーンを持たない日付・日時（予定表の各日や datetime-local の入力値）を
+   * 表示言語の書式でそのまま表示する
+   */
+  formatPlainDate: (date: Date | string, pattern: DateFormat) => string;
+  /** 分を「X時間Y分」(英語では「Xh Ym」) の形式で表示する */
+  formatDuration: (minutes: number) => string;
+};
+
+export function createI18n(
+  locale: Locale,
+  timeZone: string = DEFAULT_TIME_ZONE
+): I18n {
+  const t = MESSAGES[locale];
+  const options = { locale: DATE_LOCALES[locale] };
+
+  return {
+    locale,
+    t,
+    timeZone,
+    formatDate: (date, pattern) =>
+      formatInTimeZone(date, timeZone, t.formats[pattern], options),
+    formatPlainDate: (date, pattern) =>
+      format(typeof date === "string" ? parseISO(date) : date, t.formats[pattern], options),
+    formatDuration: (minutes) => formatWorkMinutes(minutes, t.duration),
+  };
+}
+
+/**
+ * 画面の表示言語のメッセージと書式。言語は root の loader、タイムゾーンは
+ * ログイン後の画面の loader (routes/_app) で決めるため、サーバーとブラウザで同じ表示になる。
+ */
+export function useI18n() {
+  const data = useRouteLoaderData<typeof rootLoader>("root");
+  const app = useRouteLoaderData<typeof appLoader>("routes/_app");
+  return createI18n(data?.locale ?? DEFAULT_LOCALE, app?.timeZone);
+}
@@ -0,0 +1,263 @@
+import type { Messages } from "./i18n";
+import { fromZonedTime, isTimeZone } from "./timezone";
+
+const PRODID = "-//office-schedule//schedules//JA";
+
+/** 1行の最大長（オクテット）。超える行は折り返す (RFC 5545 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+export type ICalSchedule = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  location: string;
+  description: string;
+  sequence: number;
+  created_at: string;
+  updated_at: string;
+};
+
+/** 取り込んだ VEVENT のうち、予定として登録できるもの */
+export type ICalEvent = {
+  start: Date;
+  end: Date;
+  location: string;
+  description: string;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+/** UTC の日時 (例: 20261019T010000Z) */
+const formatUtc = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const encoder = new TextEncoder();
+
+/** 75オクテットごとに CRLF + 空白で折り返す。マルチバイト文字の途中では切らない */
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 2行目以降は先頭の空白の分だけ短くする
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+/**
+ * 予定を iCalendar (.ics) 形式に変換する。
+ * UID は予定のIDで固定し、内容が変わるたびに増える sequence を SEQUENCE に入れて、
+ * 購読しているカレンダーアプリに更新として反映させる。
+ */
+export function toICalendar(
+  schedules: ICalSchedule[],
+  {
+    calendarName,
+    domain,
+    t,
+  }: { calendarName: string; domain: string; t: Messages }
+) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "X-PUBLISHED-TTL:PT1H",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+  ];
+
+  for (const schedule of schedules) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${schedule.id}@${domain}`,
+      `SEQUENCE:${schedule.sequence}`,
+      `DTSTAMP:${formatUtc(schedule.updated_at)}`,
+      `CREATED:${formatUtc(schedule.created_at)}`,
+      `LAST-MODIFIED:${formatUtc(schedule.updated_at)}`,
+      `DTSTART:${formatUtc(schedule.start_time)}`,
+      `DTEND:${formatUtc(schedule.end_time)}`,
+      `SUMMARY:${escapeText(t.calendarFeed.summary(schedule.location))}`,
+      `LOCATION:${escapeText(schedule.location)}`,
+      `DESCRIPTION:${escapeText(schedule.description)}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+type Property = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+/** `NAME;PARAM=VALUE:値` の行を分解する。パラメーター値の "..." 内のコロンは区切りにしない */
+const parseProperty = (line: string): Property | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params = Object.fromEntries(
+    rawParams.map((param) => {
+      const [key, value = ""] = param.split("=");
+      return [key.toUpperCase(), value.replace(/^"|"$/g, "")];
+    })
+  );
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * DTSTART / DTEND の値を日時にする。
+ * 末尾が Z なら UTC、TZID があればそのタイムゾーン、どちらも無ければ timeZone の時刻として扱う。
+ * 終日（日付のみ）の場合は null を返す。
+ */
+const parseDateTime = ({ params, value }: Property, timeZone: string) => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?(Z)?$/
+  );
+  if (!match || params.VALUE === "DATE") return null;
+
+  const [, year, month, day, hour, minute, second = "00", utc] = match;
+  const wallClock = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+
+  if (utc) {
+    return fromZonedTime(wallClock, "UTC");
+  }
+  // Intl が知らないタイムゾーン名（Outlook の "Tokyo Standard Time" など）は timeZone の時刻として扱う
+  return fromZonedTime(
+    wallClock,
+    params.TZID && isTimeZone(params.TZID) ? params.TZID : timeZone
+  );
+};
+
+/** DURATION (例: PT8H, P1DT2H30M) をミリ秒にする */
+const parseDuration = (value: string) => {
+  const match = value.match(
+    /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(Number);
+  return (
+    ((((weeks || 0) * 7 + (days || 0)) * 24 + (hours || 0)) * 60 + (minutes || 0)) *
+      60_000 +
+    (seconds || 0) * 1000
+  );
+};
+
+/**
+ * iCalendar (.ics) の文字列から VEVENT を取り出す。
+ * 終日の予定・取り消された予定・時刻が読めない予定は skipped に数えて除く。
+ * 繰り返し (RRULE) は展開せず、最初の回だけを取り出す。
+ * タイムゾーンの指定が無い時刻は timeZone の時刻として読む。
+ */
+export function parseICalendar(text: string, timeZone: string) {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/);
+
+  const events: ICalEvent[] = [];
+  let skipped = 0;
+  let current: Property[] | null = null;
+  // VEVENT の中の VALARM などは読み飛ばす
+  let nested = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    const component = property.value.toUpperCase();
+    if (current && nested > 0) {
+      if (property.name === "BEGIN") nested++;
+      if (property.name === "END") nested--;
+    } else if (property.name === "BEGIN" && component === "VEVENT") {
+      current = [];
+    } else if (current && property.name === "BEGIN") {
+      nested++;
+    } else if (property.name === "END" && component === "VEVENT") {
+      if (current) {
+        const event = toEvent(current, timeZone);
+        if (event) {
+          events.push(event);
+        } else {
+          skipped++;
+        }
+      }
+      current = null;
+    } else if (current) {
+      current.push(property);
+    }
+  }
+
+  return { events, skipped };
+}
+
+const toEvent = (properties: Property[], timeZone: string): ICalEvent | null => {
+  const find = (name: string) =>
+    properties.find((property) => property.name === name);
+  const text = (name: string) => {
+    const property = find(name);
+    return property ? unescapeText(property.value).trim() : "";
+  };
+
+  if (text("STATUS").toUpperCase() === "CANCELLED") return null;
+
+  const startProperty = find("DTSTART");
+  const start = startProperty && parseDateTime(startProperty, timeZone);
+  if (!start || Number.isNaN(start.getTime())) return null;
+
+  const endProperty = find("DTEND");
+  const duration = find("DURATION");
+  const durationMs = duration ? parseDuration(duration.value) : null;
+  const end = endProperty
+    ? parseDateTime(endProperty, timeZone)
+    : durationMs !== null
+      ? new Date(start.getTime() + durationMs)
+      : null;
+  if (!end || Number.isNaN(end.getTime())) return null;
+
+  return {
+    start,
+    end,
+    location: text("LOCATION"),
+    // 業務内容が無ければ件名を使う
+    description: text("DESCRIPTION") || text("SUMMARY"),
+  };
+};
@@ -0,0 +1,134 @@
+import { addDays } from "date-fns";
+import type { AuthClient, AuthClientError } from "./auth-client.server";
+import { authErrorMessage } from "./auth-errors";
+import type { ServerContext } from "./context.server";
+import type { MemberDirectory } from "./directory.server";
+import { readNumber } from "./env.server";
+import type { Messages } from "./i18n";
+import type { Invitation } from "./repository.server";
+
+/** 招待の有効期限（日） */
+const INVITATION_EXPIRY_DAYS = readNumber(process.env.INVITATION_EXPIRY_DAYS, 7);
+
+const sendErrorMessage = (error: AuthClientError, t: Messages) =>
+  t.members.errors.sendInvitation(authErrorMessage(error, t));
+
+const sendInvitationEmail = (
+  auth: AuthClient,
+  { email, full_name }: { email: string; full_name: string },
+  redirectTo: string
+) =>
+  auth.sendLoginLink({
+    email,
+    redirectTo,
+    data: {
+      full_name,
+    },
+  });
+
+/**
+ * メンバーを招待する。名簿に登録されていることと、未登録のメンバーであることを確認してから
+ * 招待メールを送り、招待を記録する。未参加の招待が既にある場合は再送として扱う。
+ * 成功した場合は記録した招待のIDを返す。エラーメッセージは t の言語で返す。
+ */
+export async function inviteMember(
+  { auth, db }: ServerContext,
+  directory: MemberDirectory,
+  {
+    email,
+    full_name,
+    invitedBy,
+    redirectTo,
+  }: { email: string; full_name: string; invitedBy: string; redirectTo: string },
+  t: Messages
+): Promise<{ error: string | null; field?: "email"; invitationId?: string }> {
+  try {
+    if (!(await directory.findMemberByEmail(email))) {
+      return {
+        error: t.members.errors.notInDirectory(t.members.directories[directory.kind]),
+        field: "email",
+      };
+    }
+  } catch (error) {
+    console.error(error);
+    return { error: t.members.errors.directoryCheck(t.members.directories[directory.kind]) };
+  }
+
+  const { data: existingProfile } = await db.profiles.findByEmail(email);
+
+  if (existingProfile) {
+    return { error: t.members.errors.alreadyMember, field: "email" };
+  }
+
+  const { error: sendError } = await sendInvitationEmail(
+    auth,
+    { email, full_name },
+    redirectTo
+  );
+
+  if (sendError) {
+    return { error: sendErrorMessage(sendError, t) };
+  }
+
+  const now = new Date();
+  const { data: openInvitation } = await db.invitations.findOpenByEmail(email);
+
+  const values = {
+    full_name,
+    invited_by: invitedBy,
+    last_sent_at: now.toISOString(),
+    expires_at: addDays(now, INVITATION_EXPIRY_DAYS).toISOString(),
+  };
+
+  if (openInvitation) {
+    const { error } = await db.invitations.update(openInvitation.id, {
+      ...values,
+      send_count: openInvitation.send_count + 1,
+    });
+
+    return error
+      ? { error: t.members.errors.recordInvitation }
+      : { error: null, invitationId: openInvitation.id };
+  }
+
+  const { data: created, error } = await db.invitations.insert({ ...values, email });
+
+  return error
+    ? { error: t.members.errors.recordInvitation }
+    : { error: null, invitationId: created.id };
+}
+
+/** 招待メールを再送し、有効期限を延長する。成功した場合は再送前の招待を返す */
+export async function resendInvitation(
+  { auth, db }: ServerContext,
+  invitationId: string,
+  redirectTo: string,
+  t: Messages
+): Promise<{ error: string | null; invitation?: Invitation }> {
+  const { data: invitation } = await db.invitations.getOpen(invitationId);
+
+  if (!invitation) {
+    return { error: t.members.errors.invitationNotFound };
+  }
+
+  const { error: sendError } = await sendInvitationEmail(
+    auth,
+    invitation,
+    redirectTo
+  );
+
+  if (sendError) {
+    return { error: sendErrorMessage(sendError, t) };
+  }
+
+  const now = new Date();
+  const { error } = await db.invitations.update(invitationId, {
+    last_sent_at: now.toISOString(),
+    send_count: invitation.send_count + 1,
+    expires_at: addDays(now, INVITATION_EXPIRY_DAYS).toISOString(),
+  });
+
+  return error
+    ? { error: t.members.errors.recordInvitation }
+    : { error: null, invitation };
+}
@@ -0,0 +1,35 @@
+export type Invitation = {
+  id: string;
+  email: string;
+  full_name: string;
+  created_at: string;
+  last_sent_at: string;
+  send_count: number;
+  expires_at: string;
+};
+
+export type InvitationStatus = "pending" | "expired";
+
+export const INVITATION_STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  expired: "bg-gray-200 text-gray-600",
+};
+
+/** 未参加の招待の状態を返す。有効期限を過ぎたものは期限切れ */
+export const invitationStatus = (
+  invitation: Pick<Invitation, "expires_at">,
+  now = new Date()
+): InvitationStatus =>
+  new Date(invitation.expires_at) <= now ? "expired" : "pending";
+
+/** 一括招待で一度に扱える最大件数 */
+export const MAX_BULK_INVITES = 200;
+
+export type BulkInviteResult = {
+  /** CSV の行番号（1始まり） */
+  row: number;
+  email: string;
+  full_name: string;
+  status: "invited" | "skipped" | "failed";
+  message: string;
+};
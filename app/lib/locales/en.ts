@@ -0,0 +1,603 @@
+import type { Messages } from "./ja";
+
+const monthName = (month: number | string) =>
+  new Date(2000, Number(month) - 1, 1).toLocaleString("en-US", { month: "long" });
+
+/** 英語のメッセージ。キーは ja.ts と同じにする */
+export const en: Messages = {
+  formats: {
+    time: "HH:mm",
+    date: "MMM d, yyyy",
+    dateTime: "MMM d, yyyy HH:mm",
+    monthDay: "MMM d",
+    monthDayTime: "MMM d HH:mm",
+    weekday: "EEE, MMM d",
+    weekdayTime: "EEE, MMM d HH:mm",
+    rangeStart: "MMM d, yyyy",
+    rangeEnd: "MMM d",
+    dateTimeSeconds: "MMM d, yyyy HH:mm:ss",
+    dateWeekday: "EEE, MMM d, yyyy",
+    dayWeekday: "EEE d",
+  },
+  weekdays: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+  duration: (hours, minutes) => `${hours}h ${minutes}m`,
+  minutes: (minutes) => `${minutes} min`,
+  count: (count) => `${count}`,
+  people: (count) => `${count}`,
+  year: (year) => `${year}`,
+  month: monthName,
+  yearMonth: (year, month) => `${monthName(month)} ${year}`,
+
+  common: {
+    cancel: "Cancel",
+    close: "Close",
+    update: "Update",
+    none: "None",
+    location: "Location",
+    description: "Work description",
+    reflection: "Reflection",
+    startTime: "Start",
+    endTime: "End",
+    breakMinutes: "Break (minutes)",
+    name: "Name",
+    email: "Email",
+    status: "Status",
+    date: "Date",
+    actions: "Actions",
+    language: "Language",
+    all: "All",
+    filter: "Filter",
+    listSeparator: ", ",
+    timeZoneNote: (timeZone) => `Times are shown in ${timeZone}`,
+  },
+
+  roles: {
+    member: "Member",
+    team_lead: "Team lead",
+    payroll: "Payroll",
+    admin: "Administrator",
+  },
+  employmentTypes: {
+    full_time: "Full-time",
+    part_time: "Part-time",
+    contract: "Contract",
+    intern: "Intern",
+  },
+  reportStatuses: {
+    submitted: "Pending approval",
+    approved: "Approved",
+    rejected: "Returned",
+    withdrawn: "Withdrawn",
+  },
+  reportFields: {
+    actual_start_time: "Start",
+    actual_end_time: "End",
+    break_time: "Break",
+    actual_location: "Location",
+    actual_description: "Work description",
+    reflection: "Reflection",
+  },
+  revisionActions: {
+    submit: "submitted",
+    update: "revised",
+    withdraw: "withdrew",
+    resubmit: "resubmitted",
+    approve: "approved",
+    reject: "returned",
+  },
+  invitationStatuses: {
+    pending: "Invited",
+    expired: "Expired",
+  },
+  auditEntities: {
+    schedule: "Schedule",
+    schedule_series: "Recurring schedule",
+    report: "Report",
+    member: "Member",
+    invitation: "Invitation",
+  },
+  auditActions: {
+    create: "Created",
+    update: "Changed",
+    delete: "Deleted",
+    submit: "Submitted",
+    withdraw: "Withdrew",
+    resubmit: "Resubmitted",
+    approve: "Approved",
+    reject: "Returned",
+    invite: "Invited",
+    resend: "Resent invitation",
+    revoke: "Revoked invitation",
+    deactivate: "Deactivated",
+    reactivate: "Reactivated",
+  },
+  auditFields: {
+    actual_start_time: "Start",
+    actual_end_time: "End",
+    break_time: "Break",
+    actual_location: "Location",
+    actual_description: "Work description",
+    reflection: "Reflection",
+    start_time: "Start",
+    end_time: "End",
+    location: "Location",
+    description: "Work description",
+    series_id: "Recurrence",
+    weekdays: "Days",
+    starts_on: "Start date",
+    until: "End date",
+    status: "Status",
+    review_comment: "Comment",
+    email: "Email",
+    full_name: "Name",
+    role: "Role",
+    employment_type: "Employment type",
+    team_id: "Team",
+    time_zone: "Time zone",
+    deactivated_at: "Deactivated",
+    expires_at: "Expires",
+    send_count: "Times sent",
+    revoked_at: "Revoked",
+  },
+  notificationKinds: {
+    report_missing: "Missing report",
+    report_overdue: "Overdue report",
+    report_approved: "Report approved",
+    report_rejected: "Report returned",
+    report_edited: "Report edited by an administrator",
+    schedule_edited: "Shift changed by an administrator",
+    schedule_deleted: "Shift removed by an administrator",
+    member_joined: "Member joined",
+  },
+
+  validation: {
+    email: "Enter a valid email address",
+    fullName: "Enter a name",
+    role: "Select a role",
+    employmentType: "Select an employment type",
+    location: "Enter a location",
+    description: "Enter a work description",
+    reflection: "Enter a reflection",
+    dateTime: "Enter a date and time",
+    dateTimeFormat: "The date and time format is invalid",
+    date: "Enter a date",
+    time: "Enter a time",
+    timeZone: "Enter a time zone name from the list (e.g. Asia/Tokyo)",
+    weekdays: "Select at least one day of the week",
+    untilBeforeStart: "The end date must be on or after the start date",
+    untilTooFar: (days) => `The end date must be within ${days} days of the start date`,
+    breakTime: "Enter the break time",
+    breakTimeInteger: "Enter the break time in whole minutes",
+    breakTimeMin: "The break time must be 0 minutes or more",
+    breakTimeTooLong: "The break time is as long as or longer than the shift",
+    endBeforeStart: "The end time must be after the start time",
+    shiftTooShort: (minutes) => `A shift must be at least ${minutes} minutes`,
+    shiftTooLong: (hours) => `A single shift must be ${hours} hours or less`,
+    overlap: (schedule) => `This overlaps with another shift (${schedule})`,
+    invalid: "The input is invalid",
+    commentTooLong: (max) => `The comment must be ${max} characters or less`,
+    rejectReason: "Enter the reason for returning the report",
+    passwordTooShort: (min) => `Use at least ${min} characters for the password`,
+    passwordMismatch: "The passwords do not match",
+  },
+
+  errorPage: {
+    unauthorized: "Please log in",
+    forbidden: "You don't have access to this page",
+    notFound: "Page not found",
+    unexpected: "Something went wrong",
+    toLogin: "Go to login",
+    toSchedule: "Back to schedule",
+    reasons: {
+      login_required: "Please log in",
+      deactivated: "This account has been deactivated",
+      forbidden: "You do not have permission to do this",
+      no_team: "You are not assigned to a team",
+    },
+  },
+
+  nav: {
+    schedule: "Schedule",
+    board: "Attendance board",
+    reports: "Reports",
+    members: "Members",
+    audit: "Audit log",
+    logout: "Log out",
+    notifications: "Notifications",
+    unreadNotifications: (count) => `Notifications (${count} unread)`,
+    profile: (name, role) => `${name} (${role})`,
+  },
+
+  login: {
+    title: "Shift Schedule Manager",
+    password: "Password",
+    submit: "Log in",
+    sendLink: "Email me a login link",
+    forgotPassword: "Forgot your password?",
+    withProvider: (provider) => `Log in with ${provider}`,
+    unavailable: "This login method is not available",
+    emailRequired: "Enter your email address",
+    linkSent: "We've emailed you a login link",
+    deactivated: "This account has been deactivated. Please contact an administrator",
+  },
+
+  authErrors: {
+    invalid_credentials: "The email address or password is incorrect",
+    email_not_confirmed:
+      "Your email address hasn't been confirmed yet. Open the link in the email we sent you",
+    user_not_found: "This email address isn't registered",
+    user_banned: "This account can't be used",
+    signup_disabled: "You can only log in with an invited email address",
+    otp_disabled: "You can only log in with an invited email address",
+    otp_expired: "The link has expired. Please send the email again",
+    flow_state_expired: "The link has expired. Please try again",
+    flow_state_not_found: "The login attempt could not be found. Please try again",
+    bad_code_verifier: "Open the link in the browser where you started logging in",
+    session_not_found: "Your login has expired. Please log in again",
+    session_expired: "Your login has expired. Please log in again",
+    weak_password: "The password is too short or too easy to guess",
+    same_password: "Enter a password different from your current one",
+    over_request_rate_limit: "Too many attempts. Please try again later",
+    over_email_send_rate_limit: "Too many emails have been sent. Please try again later",
+    email_address_not_authorized: "Emails can't be sent to this address",
+    provider_disabled: "This login method is not available",
+    oauth_provider_not_supported: "This login method is not available",
+    bad_oauth_callback: "Logging in with the external service failed",
+    bad_oauth_state: "Logging in with the external service failed. Please try again",
+    validation_failed: "The input is invalid",
+  },
+  authFailed: "Authentication failed",
+  authFailedRetry: "Authentication failed. Please try again later",
+
+  password: {
+    forgotTitle: "Reset your password",
+    forgotNote: "We will send a reset link to your registered email address",
+    send: "Send",
+    resetSent: "If the email address is registered, we have sent a password reset link",
+    backToLogin: "Back to login",
+    setTitle: "Set your password",
+    resetTitle: "Set a new password",
+    setNote: (email) => `From now on you can log in with ${email} and this password`,
+    resetNote: (email) => `Enter a new password for ${email}`,
+    password: (min) => `Password (at least ${min} characters)`,
+    confirmation: "Password (confirm)",
+    submit: "Save",
+  },
+
+  schedule: {
+    title: "Schedule",
+    weekTitle: "Weekly schedule",
+    memberTitle: (name, title) => `${name}'s ${title.toLowerCase()}`,
+    previous: "Previous period",
+    next: "Next period",
+    thisWeek: "This week",
+    backToBoard: "Back to attendance board",
+    calendarFeed: "Calendar sync",
+    importIcs: "Import .ics",
+    newSchedule: "New shift",
+    weekly: (weekdays, time) => `Every ${weekdays} ${time}`,
+    weekdaySeparator: ", ",
+    locked: "This shift has a report and can't be changed",
+    edit: "Edit shift",
+    delete: "Delete shift",
+    report: "Report",
+    resubmit: "Resubmit",
+    revise: "Revise",
+    withdraw: "Withdraw",
+    confirmWithdraw: "Are you sure you want to withdraw this report?",
+    rejectReason: (comment) => `Returned: ${comment}`,
+    editTitle: "Edit shift",
+    occurrenceNote: (recurrence) =>
+      `This shift repeats (${recurrence}). Changes here apply to this occurrence only.`,
+    editSeries: "Edit all occurrences",
+    deleteTitle: "Delete shift",
+    confirmDelete: (time, location) =>
+      `Are you sure you want to delete the shift on ${time} (${location})?`,
+    deleteFutureOccurrences: "Delete all future occurrences",
+    deleteOccurrence: "Delete this occurrence",
+    deleteSubmit: "Delete",
+    seriesTitle: "Edit repeating shift",
+    seriesNote: "Changes apply to future occurrences that haven't been reported.",
+    seriesTimeZone: (timeZone) => `Times in this series are in ${timeZone}.`,
+    weekdaysLabel: "Days",
+    seriesStartTime: "Start time",
+    seriesEndTime: "End time",
+    until: "End date",
+    reportTitle: "Report",
+    reviseReportTitle: "Revise report",
+    reportNote: (date) =>
+      `Shift on ${date}. An end time earlier than the start time is treated as the next day.`,
+    actualStartTime: "Actual start",
+    actualEndTime: "Actual end",
+    actualLocation: "Actual location",
+    actualDescription: "Actual work description",
+    resubmitSubmit: "Resubmit",
+    reportSubmit: "Submit report",
+    repeatWeekly: "Repeat weekly",
+    repeatUntil: "Repeat until",
+    createSubmit: "Add",
+    feedDescription:
+      "Subscribe to this URL in Google Calendar or Outlook to see your shifts there. Changes and deletions show up the next time the calendar refreshes.",
+    feedUrl: "Subscription URL",
+    openInCalendar: "Open in calendar app",
+    feedWarning:
+      "Anyone with the URL can see your shifts. If someone else learns it, issue a new one (the old URL will stop working).",
+    feedNotIssued: "No subscription URL has been issued yet.",
+    reissueFeed: "Issue a new URL",
+    issueFeed: "Issue subscription URL",
+    icsFile: ".ics file",
+    loadIcs: "Load",
+    importNote: (max) =>
+      `Review the loaded shifts before adding them (up to ${max}). All-day events can't be imported, and only the first occurrence of repeating events is imported.`,
+    importSkipped: (count) =>
+      `Skipped ${count} all-day, cancelled or otherwise unsupported events`,
+    importSelect: "Add",
+    importDateTime: "Date and time",
+    importSubmit: "Add selected shifts",
+    errors: {
+      create: "Failed to add the shift",
+      createSeries: "Failed to add the repeating shift",
+      noOccurrences: "None of the selected days fall within the period",
+      issueFeed: "Failed to issue the subscription URL",
+      icsFileRequired: "Select an .ics file",
+      noImportEvents: "There are no events that can be imported",
+      tooManyImportEvents: (max) => `You can import up to ${max} events at a time`,
+      importSelectionRequired: "Select the shifts to add",
+      forbidden: "You don't have permission to change this shift",
+      reported: "Shifts with a report can't be changed",
+      update: "Failed to update the shift",
+      delete: "Failed to delete the shift",
+      seriesForbidden: "You don't have permission to change this repeating shift",
+      updateSeries: "Failed to update the repeating shift",
+      deleteSeries: "Failed to delete the repeating shift",
+      reportForbidden: "You don't have permission to report on this shift",
+      reportExists: "A report has already been submitted for this shift",
+      createReport: "Failed to submit the report",
+      reportChangeForbidden: "You don't have permission to change this report",
+      reportLocked: "This report can't be changed right now",
+      withdrawReport: "Failed to withdraw the report",
+      updateReport: "Failed to update the report",
+      memberNotFound: "Member not found",
+    },
+  },
+
+  reports: {
+    title: "Work reports",
+    csvDetail: "CSV (details)",
+    csvSummary: "CSV (summary)",
+    timesheetAll: "Timesheets (everyone)",
+    timesheet: "Timesheet",
+    unreported: (count) => `Not reported (${count})`,
+    member: "Member",
+    schedule: "Planned",
+    time: "Time",
+    break: "Break",
+    variance: "Variance",
+    revisions: "History",
+    totalWorkTime: (duration) => `Total work time: ${duration}`,
+    planned: (duration) => `Planned ${duration}`,
+    punctuality: (rate) => `On time ${rate}`,
+    lateCount: (count) => `Late ${count}×`,
+    earlyLeaveCount: (count) => `Left early ${count}×`,
+    overtime: (duration) => `Overtime ${duration}`,
+    locationChangeCount: (count) => `Location changed ${count}×`,
+    summarySeparator: " / ",
+    confirmApproveMonth: (name, month) =>
+      `Approve all of ${name}'s pending reports for ${month}?`,
+    approveMonth: "Approve the whole month",
+    rejectMonth: "Return all",
+    rejectMonthTitle: (name, month) => `Return ${name}'s reports for ${month}`,
+    rejectReason: "Reason for returning",
+    rejectSubmit: "Return",
+    plannedTime: (time) => `Planned ${time}`,
+    late: (minutes) => `Late ${minutes} min`,
+    earlyLeave: (minutes) => `Left early ${minutes} min`,
+    overtimeMinutes: (minutes) => `Overtime ${minutes} min`,
+    locationChanged: (location) => `Location changed (planned: ${location})`,
+    approve: "Approve report",
+    reject: "Return report",
+    rejectTitle: "Return report",
+    edit: "Revise report",
+    editTitle: (name, date) => `Revise report (${name}, ${date})`,
+    emptyValue: "(none)",
+    errors: {
+      notFound: "Report not found",
+      update: "Failed to update the report",
+      approve: "Failed to approve the reports",
+      reject: "Failed to return the reports",
+    },
+  },
+
+  members: {
+    title: "Members",
+    syncDirectory: "Check against directory",
+    invite: "Invite member",
+    bulkInvite: "Invite from CSV",
+    syncTitle: (directory) => `Compared with ${directory}`,
+    notInvited: (count) => `Not invited yet (${count})`,
+    notInDirectory: (directory, count) => `Not in ${directory} (${count})`,
+    nobody: "None",
+    nameWithEmail: (name, email) => `${name} (${email})`,
+    role: "Role",
+    employmentType: "Employment type",
+    team: "Team",
+    noTeam: "Not set",
+    timeZone: "Time zone",
+    timeZoneDefault: (timeZone) => `Leave blank to use the organization default (${timeZone})`,
+    deactivated: "Deactivated",
+    edit: "Edit member",
+    reactivate: "Reactivate member",
+    deactivate: "Deactivate member",
+    confirmDeactivate:
+      "Are you sure you want to deactivate this member? Their shifts and reports are kept.",
+    editTitle: "Edit member",
+    invitations: "Pending invitations",
+    noInvitations: "There are no pending invitations",
+    invitedAt: "Invited",
+    invitedBy: "Invited by",
+    sentCount: (count, lastSentAt) => `Sent ${count} times, last ${lastSentAt}`,
+    expiresAt: (expiresAt) => `Expires ${expiresAt}`,
+    resend: "Resend",
+    revoke: "Revoke",
+    confirmRevoke: "Are you sure you want to revoke this invitation?",
+    inviteSubmit: "Invite",
+    csvFile: "CSV file",
+    csvNote: (max) =>
+      `Put email addresses in the first column and names in the second (a header row is optional, up to ${max} people)`,
+    row: "Row",
+    result: "Result",
+    invited: "Invited",
+    duplicateInCsv: "Duplicate in the CSV",
+    directories: {
+      slack: "Slack workspace",
+      local: "local directory",
+    },
+    errors: {
+      csvFileRequired: "Select a CSV file",
+      noInvitees: "There is no one to invite",
+      tooManyInvitees: (max) => `You can invite up to ${max} people at a time`,
+      invitationNotFound: "Invitation not found",
+      revoke: "Failed to revoke the invitation",
+      notFound: "Member not found",
+      update: "Failed to update the member",
+      deactivateSelf: "You can't deactivate yourself",
+      deactivate: "Failed to deactivate the member",
+      reactivate: "Failed to reactivate the member",
+      directoryCheck: (directory) => `Failed to check ${directory}`,
+      notInDirectory: (directory) => `This email address isn't in ${directory}`,
+      alreadyMember: "This person is already a member",
+      sendInvitation: (reason) => `Failed to send the invitation email (${reason})`,
+      recordInvitation: "Failed to record the invitation",
+      checkAdmins: "Failed to check the administrators",
+      lastAdmin: "This change would leave no administrators",
+    },
+  },
+
+  board: {
+    title: "Attendance board",
+    team: "Team",
+    member: "Member",
+    noMembers: "No matching members",
+    headcount: "Headcount",
+  },
+
+  timesheet: {
+    title: (yearMonth) => `Timesheet ${yearMonth}`,
+    summary: (yearMonth, count) => `Timesheets for ${yearMonth} (${count})`,
+    print: "Print / Save as PDF",
+    empty: "No schedules or reports this month",
+    name: (name) => `Name: ${name}`,
+    date: "Date",
+    schedule: "Schedule",
+    actual: "Actual",
+    break: "Break",
+    work: "Worked",
+    location: "Location",
+    total: (days) => `Total (${days} days worked)`,
+    stamps: ["Employee", "Approver", "Reviewer"],
+  },
+
+  reportExport: {
+    detailHeader: [
+      "Date",
+      "Member",
+      "Start",
+      "End",
+      "Break (min)",
+      "Worked (min)",
+      "Location",
+      "Work description",
+      "Status",
+    ],
+    summaryHeader: [
+      "Member",
+      "Days worked",
+      "Total break (min)",
+      "Total worked (min)",
+      "Total worked",
+    ],
+    detailSheet: "Details",
+    summarySheet: "Summary",
+    detailFileName: (period) => `timesheet_${period}`,
+    summaryFileName: (period) => `timesheet-summary_${period}`,
+  },
+
+  audit: {
+    title: "Audit log",
+    member: "Member",
+    entity: "Target",
+    period: "Period",
+    periodSeparator: "to",
+    periodEnd: "End of period",
+    dateTime: "Date and time",
+    actor: "Performed by",
+    actorId: "Performed by (ID)",
+    entityId: "Target ID",
+    action: "Action",
+    changes: "Details",
+    before: "Before",
+    after: "After",
+    deletedMember: "(deleted member)",
+    empty: "No matching records",
+    limitNote: (limit) =>
+      `Showing the latest ${limit} records. Download the CSV to see all records.`,
+    emptyValue: "(none)",
+    fileName: (date) => `audit-log_${date}`,
+  },
+
+  notifications: {
+    title: "Notifications",
+    readAll: "Mark all as read",
+    unread: "Unread",
+    open: "Open",
+    markRead: "Mark as read",
+    empty: "No notifications",
+    limitNote: (limit) => `Showing the latest ${limit} notifications.`,
+    recipient: (name) => name,
+    comment: (comment) => `Comment: ${comment}`,
+    messages: {
+      report_missing: ({ shift }) => ({
+        title: "Your report has not been submitted",
+        body: `Please submit your report for ${shift}.`,
+      }),
+      report_overdue: ({ shift, memberName, days }) => ({
+        title: `${memberName}'s report has been missing for ${days} days`,
+        body: `${memberName} has not submitted the report for ${shift}.`,
+      }),
+      report_approved: ({ shift }) => ({
+        title: "Your report was approved",
+        body: `Your report for ${shift} was approved.`,
+      }),
+      report_rejected: ({ shift }) => ({
+        title: "Your report was returned",
+        body: `Your report for ${shift} was returned. Please revise and resubmit it.`,
+      }),
+      report_edited: ({ shift, editorName }) => ({
+        title: "Your report was edited",
+        body: `${editorName} edited your report for ${shift}.`,
+      }),
+      schedule_edited: ({ shift, editorName }) => ({
+        title: "Your shift was changed",
+        body: `${editorName} changed your shift on ${shift}. Check the schedule for the new details.`,
+      }),
+      schedule_deleted: ({ shift, editorName }) => ({
+        title: "Your shift was removed",
+        body: `${editorName} removed your shift on ${shift}.`,
+      }),
+      member_joined: ({ memberName, email }) => ({
+        title: `${memberName} joined`,
+        body: `${email} logged in and joined as a member.`,
+      }),
+    },
+    errors: {
+      notFound: "Notification not found",
+      markRead: "Could not mark as read",
+      sendReminders: "Failed to send the reminders",
+    },
+  },
+
+  calendarFeed: {
+    name: (memberName: string) => `${memberName}'s shifts`,
+    summary: (location: string) => `Shift (${location})`,
+  },
+};
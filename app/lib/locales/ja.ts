@@ -0,0 +1,623 @@
+import type { AuditAction, AuditEntityType } from "../audit";
+import type { InvitationStatus } from "../invitations";
+import type { EmploymentType } from "../members";
+import type { NotificationKind, NotificationValues } from "../notifications";
+import type { Role } from "../permissions";
+import type { ReportField, ReportRevisionAction, ReportStatus } from "../reports";
+
+/**
+ * 日本語のメッセージ。各画面の文言はここに追加し、en.ts にも同じキーで英訳を追加すること。
+ * 引数を取る文言は関数にする。
+ */
+export const ja = {
+  /** date-fns の書式 */
+  formats: {
+    time: "HH:mm",
+    date: "yyyy/MM/dd",
+    dateTime: "yyyy/MM/dd HH:mm",
+    monthDay: "M/d",
+    monthDayTime: "M/d HH:mm",
+    weekday: "M/d (E)",
+    weekdayTime: "M/d (E) HH:mm",
+    rangeStart: "yyyy/M/d",
+    rangeEnd: "M/d",
+    dateTimeSeconds: "yyyy/MM/dd HH:mm:ss",
+    dateWeekday: "yyyy/MM/dd (E)",
+    dayWeekday: "d (E)",
+  },
+  /** 曜日 (0 = 日曜 ... 6 = 土曜) */
+  weekdays: ["日", "月", "火", "水", "木", "金", "土"],
+  duration: (hours: number, minutes: number) => `${hours}時間${minutes}分`,
+  minutes: (minutes: number | string) => `${minutes}分`,
+  count: (count: number) => `${count}件`,
+  people: (count: number) => `${count}名`,
+  year: (year: number | string) => `${year}年`,
+  month: (month: number | string) => `${month}月`,
+  yearMonth: (year: number | string, month: number | string) => `${year}年${month}月`,
+
+  common: {
+    cancel: "キャンセル",
+    close: "閉じる",
+    update: "更新する",
+    none: "なし",
+    location: "場所",
+    description: "業務内容",
+    reflection: "振り返り",
+    startTime: "開始時間",
+    endTime: "終了時間",
+    breakMinutes: "休憩時間（分）",
+    name: "名前",
+    email: "メールアドレス",
+    status: "状態",
+    date: "日付",
+    actions: "操作",
+    language: "表示言語",
+    all: "すべて",
+    filter: "絞り込み",
+    listSeparator: "、",
+    timeZoneNote: (timeZone: string) => `時刻は ${timeZone} で表示しています`,
+  },
+
+  roles: {
+    member: "一般",
+    team_lead: "チームリーダー",
+    payroll: "給与担当",
+    admin: "管理者",
+  } satisfies Record<Role, string>,
+  employmentTypes: {
+    full_time: "正社員",
+    part_time: "アルバイト",
+    contract: "契約社員",
+    intern: "インターン",
+  } satisfies Record<EmploymentType, string>,
+  reportStatuses: {
+    submitted: "承認待ち",
+    approved: "承認済み",
+    rejected: "差し戻し",
+    withdrawn: "取り下げ済み",
+  } satisfies Record<ReportStatus, string>,
+  reportFields: {
+    actual_start_time: "開始",
+    actual_end_time: "終了",
+    break_time: "休憩",
+    actual_location: "場所",
+    actual_description: "業務内容",
+    reflection: "振り返り",
+  } satisfies Record<ReportField, string>,
+  revisionActions: {
+    submit: "提出",
+    update: "修正",
+    withdraw: "取り下げ",
+    resubmit: "再提出",
+    approve: "承認",
+    reject: "差し戻し",
+  } satisfies Record<ReportRevisionAction, string>,
+  invitationStatuses: {
+    pending: "招待中",
+    expired: "期限切れ",
+  } satisfies Record<InvitationStatus, string>,
+  auditEntities: {
+    schedule: "予定",
+    schedule_series: "繰り返し予定",
+    report: "実績",
+    member: "メンバー",
+    invitation: "招待",
+  } satisfies Record<AuditEntityType, string>,
+  auditActions: {
+    create: "作成",
+    update: "変更",
+    delete: "削除",
+    submit: "提出",
+    withdraw: "取り下げ",
+    resubmit: "再提出",
+    approve: "承認",
+    reject: "差し戻し",
+    invite: "招待",
+    resend: "招待の再送",
+    revoke: "招待の取り消し",
+    deactivate: "無効化",
+    reactivate: "再有効化",
+  } satisfies Record<AuditAction, string>,
+  /** 監査ログの項目 (AUDIT_FIELDS) の名前 */
+  auditFields: {
+    actual_start_time: "開始",
+    actual_end_time: "終了",
+    break_time: "休憩",
+    actual_location: "場所",
+    actual_description: "業務内容",
+    reflection: "振り返り",
+    start_time: "開始",
+    end_time: "終了",
+    location: "場所",
+    description: "業務内容",
+    series_id: "繰り返し",
+    weekdays: "曜日",
+    starts_on: "開始日",
+    until: "終了日",
+    status: "状態",
+    review_comment: "コメント",
+    email: "メールアドレス",
+    full_name: "名前",
+    role: "権限",
+    employment_type: "雇用形態",
+    team_id: "チーム",
+    time_zone: "タイムゾーン",
+    deactivated_at: "無効化",
+    expires_at: "有効期限",
+    send_count: "送信回数",
+    revoked_at: "取り消し",
+  } as Record<string, string>,
+  notificationKinds: {
+    report_missing: "実績の未提出",
+    report_overdue: "実績の未提出（督促）",
+    report_approved: "実績の承認",
+    report_rejected: "実績の差し戻し",
+    report_edited: "管理者による実績の修正",
+    schedule_edited: "管理者による予定の変更",
+    schedule_deleted: "管理者による予定の削除",
+    member_joined: "メンバーの参加",
+  } satisfies Record<NotificationKind, string>,
+
+  validation: {
+    email: "有効なメールアドレスを入力してください",
+    fullName: "名前を入力してください",
+    role: "権限を選択してください",
+    employmentType: "雇用形態を選択してください",
+    location: "場所を入力してください",
+    description: "業務内容を入力してください",
+    reflection: "振り返りを入力してください",
+    dateTime: "日時を入力してください",
+    dateTimeFormat: "日時の形式が正しくありません",
+    date: "日付を入力してください",
+    time: "時刻を入力してください",
+    timeZone: "タイムゾーンは一覧にある名前 (例: Asia/Tokyo) で入力してください",
+    weekdays: "曜日を1つ以上選択してください",
+    untilBeforeStart: "終了日は開始日以降にしてください",
+    untilTooFar: (days: number) => `終了日は開始日から${days}日以内にしてください`,
+    breakTime: "休憩時間を入力してください",
+    breakTimeInteger: "休憩時間は分単位で入力してください",
+    breakTimeMin: "休憩時間は0分以上にしてください",
+    breakTimeTooLong: "休憩時間が勤務時間以上になっています",
+    endBeforeStart: "終了時間は開始時間より後にしてください",
+    shiftTooShort: (minutes: number) => `予定は${minutes}分以上にしてください`,
+    shiftTooLong: (hours: number) => `1回の予定は${hours}時間以内にしてください`,
+    overlap: (schedule: string) => `他の予定（${schedule}）と時間が重複しています`,
+    invalid: "入力内容が正しくありません",
+    commentTooLong: (max: number) => `コメントは${max}文字以内で入力してください`,
+    rejectReason: "差し戻しの理由を入力してください",
+    passwordTooShort: (min: number) => `パスワードは${min}文字以上にしてください`,
+    passwordMismatch: "パスワードが一致しません",
+  },
+
+  errorPage: {
+    unauthorized: "ログインが必要です",
+    forbidden: "アクセス権限がありません",
+    notFound: "ページが見つかりません",
+    unexpected: "エラーが発生しました",
+    toLogin: "ログイン画面へ",
+    toSchedule: "予定表に戻る",
+    /** requireUser などが返すエラーの理由 (AuthErrorReason) ごとの説明 */
+    reasons: {
+      login_required: "ログインしてください",
+      deactivated: "このアカウントは無効化されています",
+      forbidden: "この操作を行う権限がありません",
+      no_team: "チームが設定されていません",
+    } as Record<string, string>,
+  },
+
+  nav: {
+    schedule: "予定表",
+    board: "出勤ボード",
+    reports: "実績管理",
+    members: "メンバー管理",
+    audit: "監査ログ",
+    logout: "ログアウト",
+    notifications: "通知",
+    unreadNotifications: (count: number) => `通知（未読${count}件）`,
+    profile: (name: string, role: string) => `${name}（${role}）`,
+  },
+
+  login: {
+    title: "出勤予定管理システム",
+    password: "パスワード",
+    submit: "ログイン",
+    sendLink: "ログイン用のリンクをメールで受け取る",
+    forgotPassword: "パスワードをお忘れの方",
+    withProvider: (provider: string) => `${provider}でログイン`,
+    unavailable: "このログイン方法は利用できません",
+    emailRequired: "メールアドレスを入力してください",
+    linkSent: "ログイン用のリンクをメールで送信しました",
+    deactivated: "このアカウントは無効化されています。管理者に連絡してください",
+  },
+
+  /** Supabase の認証エラーのコードごとのメッセージ */
+  authErrors: {
+    invalid_credentials: "メールアドレスまたはパスワードが正しくありません",
+    email_not_confirmed:
+      "メールアドレスの確認が完了していません。届いたメールのリンクを開いてください",
+    user_not_found: "登録されていないメールアドレスです",
+    user_banned: "このアカウントは利用できません",
+    signup_disabled: "招待されていないメールアドレスではログインできません",
+    otp_disabled: "招待されていないメールアドレスではログインできません",
+    otp_expired: "リンクの有効期限が切れています。もう一度メールを送信してください",
+    flow_state_expired: "リンクの有効期限が切れています。もう一度お試しください",
+    flow_state_not_found: "ログイン処理が見つかりません。もう一度お試しください",
+    bad_code_verifier: "ログインを開始したブラウザでリンクを開いてください",
+    session_not_found: "ログインの有効期限が切れています。もう一度ログインしてください",
+    session_expired: "ログインの有効期限が切れています。もう一度ログインしてください",
+    weak_password: "パスワードが短すぎるか、推測されやすいものです",
+    same_password: "現在と異なるパスワードを入力してください",
+    over_request_rate_limit:
+      "試行回数が上限に達しました。しばらくしてから再度お試しください",
+    over_email_send_rate_limit:
+      "メールの送信回数が上限に達しました。しばらくしてから再度お試しください",
+    email_address_not_authorized: "このメールアドレスにはメールを送信できません",
+    provider_disabled: "このログイン方法は利用できません",
+    oauth_provider_not_supported: "このログイン方法は利用できません",
+    bad_oauth_callback: "外部サービスでのログインに失敗しました",
+    bad_oauth_state: "外部サービスでのログインに失敗しました。もう一度お試しください",
+    validation_failed: "入力内容が正しくありません",
+  } as Record<string, string>,
+  authFailed: "認証に失敗しました",
+  authFailedRetry: "認証に失敗しました。時間をおいて再度お試しください",
+
+  password: {
+    forgotTitle: "パスワードの再設定",
+    forgotNote: "登録したメールアドレスに再設定用のリンクを送信します",
+    send: "送信する",
+    resetSent: "登録されているメールアドレスの場合、パスワード再設定用のリンクを送信しました",
+    backToLogin: "ログイン画面に戻る",
+    setTitle: "パスワードの設定",
+    resetTitle: "新しいパスワードの設定",
+    setNote: (email: string) => `次回から ${email} とこのパスワードでログインできます`,
+    resetNote: (email: string) => `${email} の新しいパスワードを入力してください`,
+    password: (min: number) => `パスワード（${min}文字以上）`,
+    confirmation: "パスワード（確認）",
+    submit: "設定する",
+  },
+
+  schedule: {
+    title: "予定表",
+    weekTitle: "週間予定表",
+    memberTitle: (name: string, title: string) => `${name}さんの${title}`,
+    previous: "前の期間",
+    next: "次の期間",
+    thisWeek: "今週",
+    backToBoard: "出勤ボードに戻る",
+    calendarFeed: "カレンダー連携",
+    importIcs: ".icsから取り込み",
+    newSchedule: "新規予定登録",
+    weekly: (weekdays: string, time: string) => `毎週 ${weekdays} ${time}`,
+    weekdaySeparator: "・",
+    locked: "実績報告済みのため変更できません",
+    edit: "予定を編集",
+    delete: "予定を削除",
+    report: "実績報告",
+    resubmit: "再提出",
+    revise: "修正",
+    withdraw: "取り下げ",
+    confirmWithdraw: "この実績報告を取り下げてもよろしいですか？",
+    rejectReason: (comment: string) => `差し戻し理由: ${comment}`,
+    editTitle: "予定の編集",
+    occurrenceNote: (recurrence: string) =>
+      `${recurrence}の予定です。ここでの変更はこの回だけに適用されます。`,
+    editSeries: "繰り返し全体を編集する",
+    deleteTitle: "予定の削除",
+    confirmDelete: (time: string, location: string) =>
+      `${time} の予定（${location}）を削除してもよろしいですか？`,
+    deleteFutureOccurrences: "今後の繰り返しをすべて削除",
+    deleteOccurrence: "この回だけ削除",
+    deleteSubmit: "削除する",
+    seriesTitle: "繰り返し予定の編集",
+    seriesNote: "変更は今後の未報告の回に適用されます。",
+    seriesTimeZone: (timeZone: string) =>
+      `この繰り返しの時刻は ${timeZone} の時刻です。`,
+    weekdaysLabel: "曜日",
+    seriesStartTime: "開始時刻",
+    seriesEndTime: "終了時刻",
+    until: "終了日",
+    reportTitle: "実績報告",
+    reviseReportTitle: "実績報告の修正",
+    reportNote: (date: string) =>
+      `${date} の勤務。終了時刻が開始時刻より前の場合は翌日の時刻として扱います。`,
+    actualStartTime: "実際の開始時間",
+    actualEndTime: "実際の終了時間",
+    actualLocation: "実際の場所",
+    actualDescription: "実際の業務内容",
+    resubmitSubmit: "再提出する",
+    reportSubmit: "報告する",
+    repeatWeekly: "毎週繰り返す",
+    repeatUntil: "繰り返しの終了日",
+    createSubmit: "登録する",
+    feedDescription:
+      "購読URLを Google カレンダーや Outlook に登録すると、自分の予定が自動で反映されます。予定の変更・削除も次回の更新時に反映されます。",
+    feedUrl: "購読URL",
+    openInCalendar: "カレンダーアプリで開く",
+    feedWarning:
+      "URLを知っている人は誰でも予定を閲覧できます。他の人に知られた場合は再発行してください（以前のURLは使えなくなります）。",
+    feedNotIssued: "購読URLはまだ発行されていません。",
+    reissueFeed: "URLを再発行",
+    issueFeed: "購読URLを発行",
+    icsFile: ".icsファイル",
+    loadIcs: "読み込む",
+    importNote: (max: number) =>
+      `読み込んだ予定を確認してから登録します（最大${max}件）。終日の予定は取り込めず、繰り返しの予定は最初の回だけを取り込みます。`,
+    importSkipped: (count: number) =>
+      `終日・取り消し済みなどの${count}件は読み飛ばしました`,
+    importSelect: "登録",
+    importDateTime: "日時",
+    importSubmit: "選択した予定を登録",
+    errors: {
+      create: "予定の登録に失敗しました",
+      createSeries: "繰り返し予定の登録に失敗しました",
+      noOccurrences: "指定した期間に該当する曜日がありません",
+      issueFeed: "購読URLの発行に失敗しました",
+      icsFileRequired: ".icsファイルを選択してください",
+      noImportEvents: "取り込める予定がありません",
+      tooManyImportEvents: (max: number) => `一度に取り込めるのは${max}件までです`,
+      importSelectionRequired: "登録する予定を選択してください",
+      forbidden: "この予定を変更する権限がありません",
+      reported: "実績報告済みの予定は変更できません",
+      update: "予定の更新に失敗しました",
+      delete: "予定の削除に失敗しました",
+      seriesForbidden: "この繰り返し予定を変更する権限がありません",
+      updateSeries: "繰り返し予定の更新に失敗しました",
+      deleteSeries: "繰り返し予定の削除に失敗しました",
+      reportForbidden: "この予定の実績を報告する権限がありません",
+      reportExists: "この予定の実績は報告済みです",
+      createReport: "実績の登録に失敗しました",
+      reportChangeForbidden: "この実績を変更する権限がありません",
+      reportLocked: "この実績は現在変更できません",
+      withdrawReport: "実績の取り下げに失敗しました",
+      updateReport: "実績の更新に失敗しました",
+      memberNotFound: "メンバーが見つかりません",
+    },
+  },
+
+  reports: {
+    title: "勤務実績管理",
+    csvDetail: "CSV（明細）",
+    csvSummary: "CSV（集計）",
+    timesheetAll: "勤務表（全員）",
+    timesheet: "勤務表",
+    unreported: (count: number) => `未報告（${count}件）`,
+    member: "メンバー",
+    schedule: "予定",
+    time: "時間",
+    break: "休憩",
+    variance: "差異",
+    revisions: "修正履歴",
+    totalWorkTime: (duration: string) => `総労働時間: ${duration}`,
+    planned: (duration: string) => `予定 ${duration}`,
+    punctuality: (rate: string) => `時間厳守率 ${rate}`,
+    lateCount: (count: number) => `遅刻 ${count}回`,
+    earlyLeaveCount: (count: number) => `早退 ${count}回`,
+    overtime: (duration: string) => `残業 ${duration}`,
+    locationChangeCount: (count: number) => `場所変更 ${count}回`,
+    summarySeparator: " / ",
+    confirmApproveMonth: (name: string, month: string) =>
+      `${name}さんの${month}の承認待ちの実績をすべて承認してもよろしいですか？`,
+    approveMonth: "この月をまとめて承認",
+    rejectMonth: "まとめて差し戻し",
+    rejectMonthTitle: (name: string, month: string) =>
+      `${name}さんの${month}の実績を差し戻し`,
+    rejectReason: "差し戻しの理由",
+    rejectSubmit: "差し戻す",
+    plannedTime: (time: string) => `予定 ${time}`,
+    late: (minutes: number) => `遅刻 ${minutes}分`,
+    earlyLeave: (minutes: number) => `早退 ${minutes}分`,
+    overtimeMinutes: (minutes: number) => `残業 ${minutes}分`,
+    locationChanged: (location: string) => `場所変更（予定: ${location}）`,
+    approve: "実績を承認",
+    reject: "実績を差し戻し",
+    rejectTitle: "実績の差し戻し",
+    edit: "実績を修正",
+    editTitle: (name: string, date: string) => `実績の修正（${name}・${date}）`,
+    emptyValue: "（なし）",
+    errors: {
+      notFound: "実績が見つかりません",
+      update: "実績の更新に失敗しました",
+      approve: "実績の承認に失敗しました",
+      reject: "実績の差し戻しに失敗しました",
+    },
+  },
+
+  members: {
+    title: "メンバー管理",
+    syncDirectory: "名簿と照合",
+    invite: "メンバーを招待",
+    bulkInvite: "CSVで一括招待",
+    syncTitle: (directory: string) => `${directory}との照合結果`,
+    notInvited: (count: number) => `未招待のメンバー（${count}名）`,
+    notInDirectory: (directory: string, count: number) =>
+      `${directory}にいないメンバー（${count}名）`,
+    nobody: "ありません",
+    nameWithEmail: (name: string, email: string) => `${name}（${email}）`,
+    role: "権限",
+    employmentType: "雇用形態",
+    team: "チーム",
+    noTeam: "未設定",
+    timeZone: "タイムゾーン",
+    timeZoneDefault: (timeZone: string) => `空欄の場合は組織の既定 (${timeZone})`,
+    deactivated: "無効",
+    edit: "メンバーを編集",
+    reactivate: "メンバーを再有効化",
+    deactivate: "メンバーを無効化",
+    confirmDeactivate:
+      "このメンバーを無効化してもよろしいですか？予定と実績の履歴は残ります。",
+    editTitle: "メンバーの編集",
+    invitations: "招待中のメンバー",
+    noInvitations: "招待中のメンバーはいません",
+    invitedAt: "招待日時",
+    invitedBy: "招待者",
+    sentCount: (count: number, lastSentAt: string) =>
+      `${count}回送信・最終 ${lastSentAt}`,
+    expiresAt: (expiresAt: string) => `期限 ${expiresAt}`,
+    resend: "再送",
+    revoke: "取り消し",
+    confirmRevoke: "この招待を取り消してもよろしいですか？",
+    inviteSubmit: "招待する",
+    csvFile: "CSVファイル",
+    csvNote: (max: number) =>
+      `1列目にメールアドレス、2列目に名前を記入してください（1行目の見出しは省略可、最大${max}名）`,
+    row: "行",
+    result: "結果",
+    invited: "招待しました",
+    duplicateInCsv: "CSV内で重複しています",
+    /** 招待できるメンバーの名簿 (MemberDirectory) の名前 */
+    directories: {
+      slack: "Slackワークスペース",
+      local: "ローカル名簿",
+    },
+    errors: {
+      csvFileRequired: "CSVファイルを選択してください",
+      noInvitees: "招待するメンバーがいません",
+      tooManyInvitees: (max: number) => `一度に招待できるのは${max}名までです`,
+      invitationNotFound: "招待が見つかりません",
+      revoke: "招待の取り消しに失敗しました",
+      notFound: "メンバーが見つかりません",
+      update: "メンバー情報の更新に失敗しました",
+      deactivateSelf: "自分自身を無効化することはできません",
+      deactivate: "メンバーの無効化に失敗しました",
+      reactivate: "メンバーの再有効化に失敗しました",
+      directoryCheck: (directory: string) => `${directory}の確認に失敗しました`,
+      notInDirectory: (directory: string) =>
+        `${directory}に登録されていないメールアドレスです`,
+      alreadyMember: "既に登録されているメンバーです",
+      sendInvitation: (reason: string) => `招待メールの送信に失敗しました（${reason}）`,
+      recordInvitation: "招待の記録に失敗しました",
+      checkAdmins: "管理者の確認に失敗しました",
+      lastAdmin: "管理者が1人もいなくなるため変更できません",
+    },
+  },
+
+  board: {
+    title: "出勤ボード",
+    team: "チーム",
+    member: "メンバー",
+    noMembers: "該当するメンバーはいません",
+    headcount: "出勤人数",
+  },
+
+  timesheet: {
+    title: (yearMonth: string) => `勤務表 ${yearMonth}`,
+    summary: (yearMonth: string, count: number) => `${yearMonth}の勤務表（${count}名）`,
+    print: "印刷 / PDF保存",
+    empty: "この月の予定・実績はありません",
+    name: (name: string) => `氏名: ${name}`,
+    date: "日付",
+    schedule: "予定",
+    actual: "実績",
+    break: "休憩",
+    work: "実働",
+    location: "場所",
+    total: (days: number) => `合計（勤務日数 ${days}日）`,
+    stamps: ["本人", "承認者", "確認者"],
+  },
+
+  /** 勤務実績のダウンロード (CSV / Excel) */
+  reportExport: {
+    detailHeader: [
+      "日付",
+      "メンバー",
+      "開始",
+      "終了",
+      "休憩（分）",
+      "実働（分）",
+      "場所",
+      "業務内容",
+      "状態",
+    ],
+    summaryHeader: ["メンバー", "勤務日数", "休憩合計（分）", "実働合計（分）", "実働合計"],
+    detailSheet: "明細",
+    summarySheet: "集計",
+    detailFileName: (period: string) => `勤務実績_${period}`,
+    summaryFileName: (period: string) => `勤務実績集計_${period}`,
+  },
+
+  audit: {
+    title: "監査ログ",
+    member: "メンバー",
+    entity: "対象",
+    period: "期間",
+    periodSeparator: "〜",
+    periodEnd: "期間の終了日",
+    dateTime: "日時",
+    actor: "操作したメンバー",
+    actorId: "操作したメンバーID",
+    entityId: "対象ID",
+    action: "操作",
+    changes: "内容",
+    before: "変更前",
+    after: "変更後",
+    deletedMember: "（削除されたメンバー）",
+    empty: "該当する記録はありません",
+    limitNote: (limit: number) =>
+      `新しい順に${limit}件まで表示しています。すべての記録は CSV で確認してください。`,
+    emptyValue: "（なし）",
+    fileName: (date: string) => `監査ログ_${date}`,
+  },
+
+  notifications: {
+    title: "通知",
+    readAll: "すべて既読にする",
+    unread: "未読",
+    open: "開く",
+    markRead: "既読にする",
+    empty: "通知はありません",
+    limitNote: (limit: number) => `新しい順に${limit}件まで表示しています。`,
+    /** Slack に投稿するときの宛先 */
+    recipient: (name: string) => `${name}さん`,
+    comment: (comment: string) => `コメント: ${comment}`,
+    /** 種類ごとの件名と本文 */
+    messages: {
+      report_missing: ({ shift }: NotificationValues) => ({
+        title: "実績報告が提出されていません",
+        body: `${shift} の実績を報告してください。`,
+      }),
+      report_overdue: ({ shift, memberName, days }: NotificationValues) => ({
+        title: `${memberName}さんの実績報告が${days}日間未提出です`,
+        body: `${memberName}さんの ${shift} の実績が提出されていません。`,
+      }),
+      report_approved: ({ shift }: NotificationValues) => ({
+        title: "実績が承認されました",
+        body: `${shift} の実績が承認されました。`,
+      }),
+      report_rejected: ({ shift }: NotificationValues) => ({
+        title: "実績が差し戻されました",
+        body: `${shift} の実績が差し戻されました。修正して再提出してください。`,
+      }),
+      report_edited: ({ shift, editorName }: NotificationValues) => ({
+        title: "実績が修正されました",
+        body: `${editorName}さんが ${shift} の実績を修正しました。`,
+      }),
+      schedule_edited: ({ shift, editorName }: NotificationValues) => ({
+        title: "予定が変更されました",
+        body: `${editorName}さんが ${shift} の予定を変更しました。予定表で変更後の内容を確認してください。`,
+      }),
+      schedule_deleted: ({ shift, editorName }: NotificationValues) => ({
+        title: "予定が削除されました",
+        body: `${editorName}さんが ${shift} の予定を削除しました。`,
+      }),
+      member_joined: ({ memberName, email }: NotificationValues) => ({
+        title: `${memberName}さんが参加しました`,
+        body: `${email} がログインして、メンバーに加わりました。`,
+      }),
+    } satisfies Record<
+      NotificationKind,
+      (values: NotificationValues) => { title: string; body: string }
+    >,
+    errors: {
+      notFound: "通知が見つかりません",
+      markRead: "既読にできませんでした",
+      sendReminders: "督促の送信に失敗しました",
+    },
+  },
+
+  calendarFeed: {
+    name: (memberName: string) => `${memberName}の勤務予定`,
+    summary: (location: string) => `勤務（${location}）`,
+  },
+};
+
+export type Messages = typeof ja;
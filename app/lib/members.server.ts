@@ -0,0 +1,28 @@
+import type { Messages } from "./i18n";
+import type { Repository } from "./repository.server";
+
+/**
+ * メンバーを管理者以外にする（降格・無効化する）と、
+ * 有効な管理者が1人もいなくなる場合にエラーメッセージを返す。
+ */
+export async function checkLastAdmin(
+  db: Repository,
+  memberId: string,
+  t: Messages
+) {
+  const { data: admins, error } = await db.profiles.list({
+    role: "admin",
+    activeOnly: true,
+  });
+
+  if (error) {
+    return t.members.errors.checkAdmins;
+  }
+
+  const isAdmin = admins.some((admin) => admin.id === memberId);
+  if (isAdmin && admins.length <= 1) {
+    return t.members.errors.lastAdmin;
+  }
+
+  return null;
+}
@@ -0,0 +1,8 @@
+export type EmploymentType = "full_time" | "part_time" | "contract" | "intern";
+
+export const EMPLOYMENT_TYPES: EmploymentType[] = [
+  "full_time",
+  "part_time",
+  "contract",
+  "intern",
+];
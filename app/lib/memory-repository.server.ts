@@ -0,0 +1,583 @@
+import type { AuditLog } from "./audit";
+import type { Tables } from "./database.types";
+import type { Notification } from "./notifications";
+import { REVIEWABLE_STATUSES, type ReportRevision } from "./reports";
+import type {
+  DbResult,
+  Invitation,
+  Profile,
+  Report,
+  Repository,
+  Schedule,
+  Team,
+} from "./repository.server";
+import { DEFAULT_TIME_ZONE, toDateKey } from "./timezone";
+
+/** メモリ上に保持するテーブルの行 */
+export type MemoryStore = {
+  profiles: Profile[];
+  teams: Team[];
+  schedules: Schedule[];
+  schedule_series: Tables<"schedule_series">[];
+  reports: Report[];
+  report_revisions: (ReportRevision & {
+    report_id: string;
+    revised_by: string | null;
+  })[];
+  invitations: Invitation[];
+  calendar_feeds: Tables<"calendar_feeds">[];
+  notifications: Notification[];
+  audit_logs: AuditLog[];
+};
+
+const ok = <T>(data: T): DbResult<T> => ({
+  data: structuredClone(data),
+  error: null,
+});
+
+const notFound = (table: string): DbResult<null> => ({
+  data: null,
+  error: { message: `${table} not found` },
+});
+
+const time = (value: string) => new Date(value).getTime();
+
+const byTime =
+  <T>(key: (row: T) => string) =>
+  (a: T, b: T) =>
+    time(key(a)) - time(key(b));
+
+/** 時刻の書式を Supabase (timestamptz) が返すものに揃える */
+const normalizeTimes = <T extends Record<string, unknown>>(
+  values: T,
+  fields: string[]
+): T => {
+  const normalized: Record<string, unknown> = { ...values };
+  for (const field of fields) {
+    if (typeof normalized[field] === "string") {
+      normalized[field] = new Date(normalized[field] as string).toISOString();
+    }
+  }
+  return normalized as T;
+};
+
+const SCHEDULE_TIMES = ["start_time", "end_time"];
+const SCHEDULE_CONTENT = [
+  "start_time",
+  "end_time",
+  "location",
+  "description",
+] as const;
+const REPORT_TIMES = ["actual_start_time", "actual_end_time"];
+
+const isOpenInvitation = (invitation: Invitation) =>
+  !invitation.accepted_at && !invitation.revoked_at;
+
+const sameEmail = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * メモリ上のデータを使う実装。開発・オフライン用で、プロセスを再起動すると元に戻る。
+ * Supabase の RLS やトリガーのうち、アプリの動作に必要なもの（is_admin の同期など）だけを再現する。
+ */
+export function createMemoryRepository(store: MemoryStore): Repository {
+  const now = () => new Date().toISOString();
+
+  const profileName = (id: string | null) => {
+    const profile = store.profiles.find((row) => row.id === id);
+    return profile ? { full_name: profile.full_name } : null;
+  };
+
+  const scheduleOwner = (schedule: Schedule) => {
+    const profile = store.profiles.find((row) => row.id === schedule.user_id);
+    return {
+      full_name: profile?.full_name ?? "",
+      team_id: profile?.team_id ?? null,
+    };
+  };
+
+  const feedOwner = (token: string) => {
+    const feed = store.calendar_feeds.find((row) => row.token === token);
+    return store.profiles.find(
+      (row) => row.id === feed?.user_id && !row.deactivated_at
+    );
+  };
+
+  const withReports = (schedule: Schedule) => ({
+    ...schedule,
+    reports: store.reports.filter((report) => report.schedule_id === schedule.id),
+  });
+
+  const reportDetails = (report: Report) => {
+    const schedule = store.schedules.find((row) => row.id === report.schedule_id)!;
+
+    return {
+      ...report,
+      schedules: { ...schedule, profiles: scheduleOwner(schedule) },
+      report_revisions: store.report_revisions
+        .filter((revision) => revision.report_id === report.id)
+        .sort(byTime((revision) => revision.created_at))
+        .map((revision) => ({
+          ...revision,
+          profiles: profileName(revision.revised_by),
+        })),
+    };
+  };
+
+  const updateRow = <T extends { id: string }>(
+    table: string,
+    rows: T[],
+    id: string,
+    values: Partial<T>
+  ): DbResult<null> => {
+    const row = rows.find((row) => row.id === id);
+    if (!row) {
+      return notFound(table);
+    }
+    Object.assign(row, values);
+    return ok(null);
+  };
+
+  return {
+    profiles: {
+      get: async (id) => ok(store.profiles.find((row) => row.id === id) ?? null),
+      findByEmail: async (email) =>
+        ok(store.profiles.find((row) => sameEmail(row.email, email)) ?? null),
+      list: async ({ ids, role, activeOnly } = {}) =>
+        ok(
+          store.profiles
+            .filter(
+              (row) =>
+                (!ids || ids.includes(row.id)) &&
+                (!role || row.role === role) &&
+                (!activeOnly || !row.deactivated_at)
+            )
+            .sort(
+              (a, b) =>
+                Number(Boolean(a.deactivated_at)) - Number(Boolean(b.deactivated_at)) ||
+                time(a.deactivated_at ?? a.created_at) -
+                  time(b.deactivated_at ?? b.created_at) ||
+                time(a.created_at) - time(b.created_at)
+            )
+        ),
+      update: async (id, values) =>
+        updateRow("profiles", store.profiles, id, {
+          ...(values as Partial<Profile>),
+          ...(values.role && { is_admin: values.role === "admin" }),
+        }),
+    },
+
+    teams: {
+      list: async () =>
+        ok([...store.teams].sort((a, b) => a.name.localeCompare(b.name))),
+    },
+
+    schedules: {
+      get: async (id) => {
+        const schedule = store.schedules.find((row) => row.id === id);
+        return ok(schedule ? withReports(schedule) : null);
+      },
+      list: async ({ from, to, userId }) =>
+        ok(
+          store.schedules
+            .filter(
+              (row) =>
+                time(row.start_time) >= time(from) &&
+                time(row.start_time) < time(to) &&
+                (!userId || row.user_id === userId)
+            )
+            .sort(byTime((row) => row.start_time))
+        ),
+      listForUser: async ({ userId, from, to }) =>
+        ok(
+          store.schedules
+            .filter(
+              (row) =>
+                row.user_id === userId &&
+                time(row.start_time) >= time(from) &&
+                time(row.start_time) < time(to)
+            )
+            .sort(byTime((row) => row.start_time))
+            .map((row) => ({
+              ...withReports(row),
+              schedule_series:
+                store.schedule_series.find((series) => series.id === row.series_id) ??
+                null,
+            }))
+        ),
+      listOverlapping: async ({ userId, start, end }) =>
+        ok(
+          store.schedules
+            .filter(
+              (row) =>
+                row.user_id === userId &&
+                time(row.start_time) < time(end) &&
+                time(row.end_time) > time(start)
+            )
+            .sort(byTime((row) => row.start_time))
+        ),
+      listEnded: async ({ from, to, endedBefore, teamId }) =>
+        ok(
+          store.schedules
+            .filter(
+              (row) =>
+                time(row.start_time) >= time(from) &&
+                time(row.start_time) < time(to) &&
+                time(row.end_time) < time(endedBefore)
+            )
+            .map((row) => ({
+              ...row,
+              profiles: scheduleOwner(row),
+              reports: store.reports
+                .filter((report) => report.schedule_id === row.id)
+                .map(({ status }) => ({ status })),
+            }))
+            .filter((row) => !teamId || row.profiles.team_id === teamId)
+            .sort(byTime((row) => row.start_time))
+        ),
+      listBySeries: async (seriesId, startsFrom) =>
+        ok(
+          store.schedules
+            .filter(
+              (row) =>
+                row.series_id === seriesId &&
+                time(row.start_time) >= time(startsFrom)
+            )
+            .map(withReports)
+        ),
+      insert: async (values) => {
+        const schedules = values.map((value) => ({
+          id: crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+          sequence: 0,
+          series_id: null,
+          ...normalizeTimes(value, SCHEDULE_TIMES),
+        }));
+        store.schedules.push(...schedules);
+        return ok(schedules.map(({ id }) => ({ id })));
+      },
+      update: async (id, values) => {
+        const schedule = store.schedules.find((row) => row.id === id);
+        const normalized = normalizeTimes(values, SCHEDULE_TIMES);
+        // 内容が変わったら sequence を増やす（schedules_bump_sequence トリガー）
+        const changed =
+          schedule &&
+          SCHEDULE_CONTENT.some(
+            (field) => field in normalized && normalized[field] !== schedule[field]
+          );
+
+        return updateRow(
+          "schedules",
+          store.schedules,
+          id,
+          changed
+            ? { ...normalized, sequence: schedule.sequence + 1, updated_at: now() }
+            : normalized
+        );
+      },
+      delete: async (ids) => {
+        store.schedules = store.schedules.filter((row) => !ids.includes(row.id));
+        return ok(null);
+      },
+    },
+
+    scheduleSeries: {
+      get: async (id) =>
+        ok(store.schedule_series.find((row) => row.id === id) ?? null),
+      insert: async (values) => {
+        const series = {
+          id: crypto.randomUUID(),
+          created_at: now(),
+          excluded_dates: [],
+          time_zone: DEFAULT_TIME_ZONE,
+          ...values,
+        };
+        store.schedule_series.push(series);
+        return ok(series);
+      },
+      update: async (id, values) =>
+        updateRow("schedule_series", store.schedule_series, id, values),
+      delete: async (id) => {
+        store.schedule_series = store.schedule_series.filter((row) => row.id !== id);
+        // schedules.series_id は on delete set null
+        for (const schedule of store.schedules) {
+          if (schedule.series_id === id) {
+            schedule.series_id = null;
+          }
+        }
+        return ok(null);
+      },
+    },
+
+    reports: {
+      get: async (id) => {
+        const report = store.reports.find((row) => row.id === id);
+        return ok(report ? reportDetails(report) : null);
+      },
+      getBySchedule: async (scheduleId) => {
+        const report = store.reports.find((row) => row.schedule_id === scheduleId);
+        return ok(report ? reportDetails(report) : null);
+      },
+      list: async ({ from, to, ids, userId, teamId, statuses }) =>
+        ok(
+          store.reports
+            .filter(
+              (row) =>
+                (statuses ? statuses.includes(row.status) : row.status !== "withdrawn") &&
+                (!from || time(row.actual_start_time) >= time(from)) &&
+                (!to || time(row.actual_start_time) < time(to)) &&
+                (!ids || ids.includes(row.id))
+            )
+            .map(reportDetails)
+            .filter(
+              (row) =>
+                (!userId || row.schedules.user_id === userId) &&
+                (!teamId || row.schedules.profiles.team_id === teamId)
+            )
+            .sort(byTime((row) => row.actual_start_time))
+        ),
+      insert: async (values) => {
+        // reports_schedule_id_key (予定ごとに1件の一意インデックス) に合わせる
+        if (store.reports.some((row) => row.schedule_id === values.schedule_id)) {
+          return {
+            data: null,
+            error: { message: "duplicate key value violates unique constraint" },
+          };
+        }
+
+        const report = {
+          id: crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+          actual_location: null,
+          review_comment: null,
+          reviewed_at: null,
+          reviewed_by: null,
+          ...normalizeTimes(values, REPORT_TIMES),
+          status: (values.status ?? "submitted") as Report["status"],
+        };
+        store.reports.push(report);
+        return ok({ id: report.id });
+      },
+      update: async (id, values) =>
+        updateRow(
+          "reports",
+          store.reports,
+          id,
+          normalizeTimes(values as Partial<Report>, REPORT_TIMES)
+        ),
+      updateReviewable: async (ids, values) => {
+        const updated = store.reports.filter(
+          (row) => ids.includes(row.id) && REVIEWABLE_STATUSES.includes(row.status)
+        );
+        for (const report of updated) {
+          Object.assign(report, values);
+        }
+        return ok(updated.map(({ id }) => ({ id })));
+      },
+    },
+
+    reportRevisions: {
+      insert: async (values) => {
+        store.report_revisions.push(
+          ...values.map((value) => ({
+            id: crypto.randomUUID(),
+            created_at: now(),
+            report_id: value.report_id,
+            action: value.action as ReportRevision["action"],
+            before: (value.before ?? null) as ReportRevision["before"],
+            after: (value.after ?? null) as ReportRevision["after"],
+            comment: value.comment ?? null,
+            revised_by: value.revised_by ?? null,
+          }))
+        );
+        return ok(null);
+      },
+    },
+
+    invitations: {
+      listOpen: async () =>
+        ok(
+          store.invitations
+            .filter(isOpenInvitation)
+            .sort((a, b) => time(b.created_at) - time(a.created_at))
+            .map((row) => ({ ...row, inviter: profileName(row.invited_by) }))
+        ),
+      getOpen: async (id) =>
+        ok(
+          store.invitations.find((row) => row.id === id && isOpenInvitation(row)) ??
+            null
+        ),
+      findOpenByEmail: async (email) =>
+        ok(
+          store.invitations.find(
+            (row) => sameEmail(row.email, email) && isOpenInvitation(row)
+          ) ?? null
+        ),
+      insert: async (values) => {
+        const invitation = {
+          id: crypto.randomUUID(),
+          created_at: now(),
+          last_sent_at: now(),
+          send_count: 1,
+          accepted_at: null,
+          revoked_at: null,
+          invited_by: null,
+          ...values,
+        };
+        store.invitations.push(invitation);
+        return ok({ id: invitation.id });
+      },
+      update: async (id, values) =>
+        updateRow("invitations", store.invitations, id, values),
+    },
+
+    board: {
+      members: async () =>
+        ok(
+          store.profiles
+            .filter((row) => !row.deactivated_at)
+            .sort((a, b) => a.full_name.localeCompare(b.full_name))
+            .map(({ id, full_name, team_id }) => ({ id, full_name, team_id }))
+        ),
+      schedules: async ({ from, to, timeZone }) =>
+        ok(
+          store.schedules
+            .map((row) => ({ ...row, date: toDateKey(row.start_time, timeZone) }))
+            .filter(
+              (row) =>
+                row.date >= from &&
+                row.date < to &&
+                !store.profiles.find((profile) => profile.id === row.user_id)
+                  ?.deactivated_at
+            )
+            .sort(byTime((row) => row.start_time))
+            .map(({ id, user_id, date, location, start_time, end_time }) => ({
+              id,
+              user_id,
+              date,
+              location,
+              start_time,
+              end_time,
+            }))
+        ),
+    },
+
+    calendarFeeds: {
+      get: async (userId) => {
+        const feed = store.calendar_feeds.find((row) => row.user_id === userId);
+        return ok(feed ? { token: feed.token } : null);
+      },
+      save: async (userId, token) => {
+        store.calendar_feeds = [
+          ...store.calendar_feeds.filter((row) => row.user_id !== userId),
+          { user_id: userId, token, created_at: now() },
+        ];
+        return ok(null);
+      },
+      owner: async (token) => {
+        const profile = feedOwner(token);
+        return ok(profile ? { id: profile.id, full_name: profile.full_name } : null);
+      },
+      schedules: async (token, from) => {
+        const profile = feedOwner(token);
+        return ok(
+          store.schedules
+            .filter(
+              (row) =>
+                row.user_id === profile?.id && time(row.start_time) >= time(from)
+            )
+            .sort(byTime((row) => row.start_time))
+        );
+      },
+    },
+
+    notifications: {
+      insert: async (values) => {
+        for (const value of values) {
+          const sent = store.notifications.some(
+            (row) =>
+              value.dedupe_key &&
+              row.user_id === value.user_id &&
+              row.dedupe_key === value.dedupe_key
+          );
+          if (sent) continue;
+
+          store.notifications.push({
+            id: crypto.randomUUID(),
+            created_at: now(),
+            user_id: value.user_id,
+            kind: value.kind,
+            params: value.params ?? {},
+            link: value.link ?? null,
+            dedupe_key: value.dedupe_key ?? null,
+            read_at: value.read_at ?? null,
+          });
+        }
+        return ok(null);
+      },
+      listSentKeys: async (dedupeKeys) =>
+        ok(
+          store.notifications
+            .filter((row) => row.dedupe_key && dedupeKeys.includes(row.dedupe_key))
+            .map(({ user_id, dedupe_key }) => ({ user_id, dedupe_key }))
+        ),
+      listForUser: async (userId, limit) =>
+        ok(
+          store.notifications
+            .filter((row) => row.user_id === userId)
+            .sort((a, b) => time(b.created_at) - time(a.created_at))
+            .slice(0, limit)
+        ),
+      countUnread: async (userId) =>
+        ok(
+          store.notifications.filter(
+            (row) => row.user_id === userId && !row.read_at
+          ).length
+        ),
+      markRead: async (userId, ids) => {
+        const readAt = now();
+        for (const row of store.notifications) {
+          if (row.user_id === userId && !row.read_at && (!ids || ids.includes(row.id))) {
+            row.read_at = readAt;
+          }
+        }
+        return ok(null);
+      },
+    },
+
+    auditLogs: {
+      insert: async (values) => {
+        store.audit_logs.push(
+          ...values.map((value) => ({
+            id: crypto.randomUUID(),
+            created_at: now(),
+            actor_id: value.actor_id ?? null,
+            action: value.action as AuditLog["action"],
+            entity_type: value.entity_type as AuditLog["entity_type"],
+            entity_id: value.entity_id ?? null,
+            before: (value.before ?? null) as AuditLog["before"],
+            after: (value.after ?? null) as AuditLog["after"],
+          }))
+        );
+        return ok(null);
+      },
+      list: async ({ from, to, memberId, entityType, limit }) =>
+        ok(
+          store.audit_logs
+            .filter(
+              (row) =>
+                (!from || time(row.created_at) >= time(from)) &&
+                (!to || time(row.created_at) < time(to)) &&
+                (!memberId ||
+                  row.actor_id === memberId ||
+                  (row.entity_type === "member" && row.entity_id === memberId)) &&
+                (!entityType || row.entity_type === entityType)
+            )
+            .sort((a, b) => time(b.created_at) - time(a.created_at))
+            .slice(0, limit)
+            .map((row) => ({ ...row, actor: profileName(row.actor_id) }))
+        ),
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { monthRange, parseYearMonth, readYearMonth } from "./month";
+import { toDateKey, toZonedRange } from "./timezone";
+
+describe.each(["UTC", "America/Los_Angeles", "Pacific/Kiritimati"])(
+  "実行環境のタイムゾーンが %s の場合",
+  (hostTimeZone) => {
+    beforeEach(() => {
+      vi.stubEnv("TZ", hostTimeZone);
+    });
+
+    describe("monthRange + toZonedRange", () => {
+      it("12月と1月を timeZone の 1/1 0:00 で区切る", () => {
+        const december = toZonedRange(monthRange("2026", "12"), "Asia/Tokyo");
+        const january = toZonedRange(monthRange("2027", "1"), "Asia/Tokyo");
+
+        expect(december).toEqual({
+          from: "2026-11-30T15:00:00.000Z",
+          to: "2026-12-31T15:00:00.000Z",
+        });
+        expect(january.from).toBe(december.to);
+        expect(january.to).toBe("2027-01-31T15:00:00.000Z");
+      });
+
+      it("月の範囲 (from 以上 to 未満) と日ごとの振り分けが一致する", () => {
+        const { from, to } = toZonedRange(monthRange("2026", "12"), "Asia/Tokyo");
+        const lastMoment = new Date(new Date(to).getTime() - 1);
+
+        expect(toDateKey(from, "Asia/Tokyo")).toBe("2026-12-01");
+        expect(toDateKey(lastMoment, "Asia/Tokyo")).toBe("2026-12-31");
+        expect(toDateKey(to, "Asia/Tokyo")).toBe("2027-01-01");
+      });
+
+      it("タイムゾーンごとの 0時で区切る", () => {
+        expect(toZonedRange(monthRange(2026, 12), "America/New_York")).toEqual({
+          from: "2026-12-01T05:00:00.000Z",
+          to: "2027-01-01T05:00:00.000Z",
+        });
+      });
+    });
+  }
+);
+
+describe("parseYearMonth / readYearMonth", () => {
+  it("正しい年月だけを受け付ける", () => {
+    expect(parseYearMonth("2026", "12")).toEqual({ year: "2026", month: "12" });
+    expect(parseYearMonth("2026", "13")).toBeNull();
+    expect(parseYearMonth("abc", "1")).toBeNull();
+  });
+
+  it("指定が無い・正しくない場合は today の年月にする", () => {
+    const today = new Date(2026, 11, 31);
+
+    expect(readYearMonth(new URLSearchParams(), today)).toEqual({
+      year: "2026",
+      month: "12",
+    });
+    expect(readYearMonth(new URLSearchParams({ month: "1" }), today)).toEqual({
+      year: "2026",
+      month: "1",
+    });
+    expect(
+      readYearMonth(new URLSearchParams({ year: "2027", month: "0" }), today)
+    ).toEqual({ year: "2026", month: "12" });
+  });
+});
@@ -0,0 +1,51 @@
+import { addMonths, format } from "date-fns";
+import { z } from "zod";
+
+const yearMonthSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+});
+
+/** 指定された年月 (文字列) を読み取る。年月として正しくない場合は null */
+export function parseYearMonth(year: unknown, month: unknown) {
+  const result = yearMonthSchema.safeParse({ year, month });
+  if (!result.success) return null;
+
+  return {
+    year: result.data.year.toString(),
+    month: result.data.month.toString(),
+  };
+}
+
+/**
+ * URL の year・month パラメータで指定された年月。
+ * 指定が無い項目は today の年月を使い、正しくない指定の場合は today の月にする。
+ */
+export function readYearMonth(searchParams: URLSearchParams, today: Date) {
+  const current = {
+    year: today.getFullYear().toString(),
+    month: (today.getMonth() + 1).toString(),
+  };
+
+  return (
+    parseYearMonth(
+      searchParams.get("year") || current.year,
+      searchParams.get("month") || current.month
+    ) ?? current
+  );
+}
+
+/**
+ * 指定した年月の初日と翌月の初日 (yyyy-MM-dd) を返す。
+ * 年月は parseYearMonth / readYearMonth で確かめたものを渡すこと。
+ * 日時の列を検索する場合は toZonedRange でタイムゾーンの 0時を境にした日時にしてから、
+ * from 以上 to 未満で検索すること。
+ */
+export function monthRange(year: string | number, month: string | number) {
+  const start = new Date(Number(year), Number(month) - 1, 1);
+
+  return {
+    from: format(start, "yyyy-MM-dd"),
+    to: format(addMonths(start, 1), "yyyy-MM-dd"),
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { renderNotification } from "./notification-messages";
+
+const shift = {
+  start_time: "2026-10-19T01:00:00.000Z",
+  end_time: "2026-10-19T09:00:00.000Z",
+  location: "本社",
+  time_zone: "Asia/Tokyo",
+};
+
+describe("renderNotification", () => {
+  it("種類と値から表示言語の文面を組み立て、予定はメンバーのタイムゾーンで表示する", () => {
+    const notification = {
+      kind: "report_rejected" as const,
+      params: { shift, comment: "休憩時間を確認してください" },
+    };
+
+    expect(renderNotification(notification, "ja")).toEqual({
+      title: "実績が差し戻されました",
+      body: "10/19 (月) 10:00-18:00 本社 の実績が差し戻されました。修正して再提出してください。\nコメント: 休憩時間を確認してください",
+    });
+    expect(renderNotification(notification, "en")).toEqual({
+      title: "Your report was returned",
+      body: "Your report for Mon, Oct 19 10:00-18:00 本社 was returned. Please revise and resubmit it.\nComment: 休憩時間を確認してください",
+    });
+  });
+
+  it("メンバーの参加は名前とメールアドレスを埋め込む", () => {
+    expect(
+      renderNotification(
+        {
+          kind: "member_joined",
+          params: { member_name: "新人 三郎", email: "new.member@example.com" },
+        },
+        "en"
+      )
+    ).toEqual({
+      title: "新人 三郎 joined",
+      body: "new.member@example.com logged in and joined as a member.",
+    });
+  });
+});
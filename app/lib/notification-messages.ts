@@ -0,0 +1,35 @@
+import { createI18n, type Locale } from "./i18n";
+import type { Notification } from "./notifications";
+
+/**
+ * 通知の件名と本文を、種類と文面に埋め込む値 (params) から locale の言語で組み立てる。
+ * 予定の日時は予定を持つメンバーのタイムゾーンで表示する。
+ */
+export function renderNotification(
+  notification: Pick<Notification, "kind" | "params">,
+  locale: Locale
+) {
+  const { params } = notification;
+  const { t, formatDate } = createI18n(locale, params.shift?.time_zone);
+  const shift = params.shift
+    ? `${formatDate(params.shift.start_time, "weekdayTime")}-${formatDate(
+        params.shift.end_time,
+        "time"
+      )} ${params.shift.location}`
+    : "";
+
+  const { title, body } = t.notifications.messages[notification.kind]({
+    shift,
+    memberName: params.member_name ?? "",
+    editorName: params.editor_name ?? "",
+    email: params.email ?? "",
+    days: params.days ?? 0,
+  });
+
+  return {
+    title,
+    body: params.comment
+      ? [body, t.notifications.comment(params.comment)].join("\n")
+      : body,
+  };
+}
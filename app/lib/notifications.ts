@@ -0,0 +1,70 @@
+export type NotificationKind =
+  | "report_missing"
+  | "report_overdue"
+  | "report_approved"
+  | "report_rejected"
+  | "report_edited"
+  | "schedule_edited"
+  | "schedule_deleted"
+  | "member_joined";
+
+export const NOTIFICATION_KIND_STYLES: Record<NotificationKind, string> = {
+  report_missing: "bg-yellow-100 text-yellow-800",
+  report_overdue: "bg-red-100 text-red-800",
+  report_approved: "bg-green-100 text-green-800",
+  report_rejected: "bg-red-100 text-red-800",
+  report_edited: "bg-blue-100 text-blue-800",
+  schedule_edited: "bg-blue-100 text-blue-800",
+  schedule_deleted: "bg-gray-100 text-gray-700",
+  member_joined: "bg-gray-100 text-gray-700",
+};
+
+/** 受信箱に表示する件数。それより古い通知は表示しない */
+export const NOTIFICATION_LIST_LIMIT = 100;
+
+/** 未読件数を取り直す間隔（ミリ秒） */
+export const UNREAD_POLL_INTERVAL = 60_000;
+
+/**
+ * 通知の文面に埋め込む値。文面は保存せず、表示・送信するときに
+ * 種類 (kind) とこの値から表示言語で組み立てる (renderNotification)
+ */
+export type NotificationParams = {
+  /** 対象の予定。日時は time_zone (予定を持つメンバーのタイムゾーン) で表示する */
+  shift?: {
+    start_time: string;
+    end_time: string;
+    location: string;
+    time_zone: string;
+  };
+  member_name?: string;
+  email?: string;
+  editor_name?: string;
+  /** 実績が未提出の日数 */
+  days?: number;
+  /** 承認・差し戻しのコメント */
+  comment?: string | null;
+};
+
+/** 通知の文面 (t.notifications.messages) に渡す値 */
+export type NotificationValues = {
+  /** 予定の日時と場所（例: 10/19 (月) 10:00-18:00 本社） */
+  shift: string;
+  memberName: string;
+  editorName: string;
+  email: string;
+  days: number;
+};
+
+export type Notification = {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  /** 文面に埋め込む値。件名と本文は表示するときに表示言語で組み立てる */
+  params: NotificationParams;
+  /** 通知から開く画面のパス（例: /schedule?week=2026-W43） */
+  link: string | null;
+  dedupe_key: string | null;
+  read_at: string | null;
+  created_at: string;
+};
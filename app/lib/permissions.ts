@@ -0,0 +1,46 @@
+export type Role = "member" | "team_lead" | "payroll" | "admin";
+
+export type Permission =
+  /** 自分の予定・実績の登録と修正 */
+  | "schedules:own"
+  /** 他のメンバーの予定の閲覧（出勤ボードの時刻表示と予定表の参照） */
+  | "schedules:view_all"
+  /** 他のメンバーの予定の変更・削除（1回ずつ。繰り返しの設定は本人だけが変更できる） */
+  | "schedules:edit_all"
+  /** 実績管理画面の閲覧（チームリーダーは自チームのみ） */
+  | "reports:view"
+  /** 実績の承認・差し戻し */
+  | "reports:review"
+  /** 管理者による実績の修正 */
+  | "reports:edit"
+  /** CSV・Excel・勤務表の出力 */
+  | "reports:export"
+  /** メンバーの招待・編集 */
+  | "members:manage"
+  /** 監査ログの閲覧・出力 */
+  | "audit:view";
+
+export const ROLES: Role[] = ["member", "team_lead", "payroll", "admin"];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  member: ["schedules:own"],
+  team_lead: ["schedules:own", "reports:view", "reports:review"],
+  payroll: ["schedules:own", "reports:view", "reports:export"],
+  admin: [
+    "schedules:own",
+    "schedules:view_all",
+    "schedules:edit_all",
+    "reports:view",
+    "reports:review",
+    "reports:edit",
+    "reports:export",
+    "members:manage",
+    "audit:view",
+  ],
+};
+
+export const permissionsFor = (role: Role | null | undefined): Permission[] =>
+  ROLE_PERMISSIONS[role ?? "member"] ?? [];
+
+export const can = (role: Role | null | undefined, permission: Permission) =>
+  permissionsFor(role).includes(permission);
@@ -0,0 +1,140 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  getDay,
+  isAfter,
+  parse,
+  parseISO,
+} from "date-fns";
+import type { Messages } from "./i18n";
+import { fromZonedTime } from "./timezone";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+/** 繰り返しの終了日は開始日からこの日数以内に制限する */
+export const MAX_RECURRENCE_DAYS = 366;
+
+export type WeeklyRecurrence = {
+  /** 曜日 (0 = 日曜 ... 6 = 土曜) */
+  weekdays: number[];
+  /** 開始時刻 (HH:mm) */
+  startTime: string;
+  /** 終了時刻 (HH:mm)。開始時刻以前なら翌日の時刻として扱う */
+  endTime: string;
+  /** 繰り返しの開始日 (yyyy-MM-dd) */
+  startsOn: string;
+  /** 繰り返しの終了日 (yyyy-MM-dd, この日を含む) */
+  until: string;
+  /** スキップ・個別編集された日付 (yyyy-MM-dd) */
+  excludedDates?: string[];
+  /** 日付・時刻をどのタイムゾーンのものとして扱うか */
+  timeZone: string;
+};
+
+export type Occurrence = {
+  /** timeZone での日付 (yyyy-MM-dd) */
+  date: string;
+  /** 開始・終了日時 (UTC の ISO 8601) */
+  start_time: string;
+  end_time: string;
+};
+
+export type ScheduleSeries = {
+  id: string;
+  user_id: string;
+  weekdays: number[];
+  start_time: string;
+  end_time: string;
+  location: string;
+  description: string;
+  starts_on: string;
+  until: string;
+  excluded_dates: string[];
+  time_zone: string;
+};
+
+/** DB のシリーズ行を展開用の繰り返しパターンに変換する */
+export const toRecurrence = (series: ScheduleSeries): WeeklyRecurrence => ({
+  weekdays: series.weekdays,
+  startTime: series.start_time.slice(0, 5),
+  endTime: series.end_time.slice(0, 5),
+  startsOn: series.starts_on,
+  until: series.until,
+  excludedDates: series.excluded_dates,
+  timeZone: series.time_zone,
+});
+
+/**
+ * timeZone での日付と開始・終了時刻から予定の開始・終了日時を組み立てる。
+ * 終了時刻が開始時刻以前の場合は日付を跨ぐシフトとみなす。
+ */
+export function toShiftTimes(
+  date: string,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): Omit<Occurrence, "date"> {
+  const endDate =
+    endTime <= startTime
+      ? format(addDays(parse(date, DATE_FORMAT, new Date()), 1), DATE_FORMAT)
+      : date;
+
+  return {
+    start_time: fromZonedTime(`${date}T${startTime}`, timeZone).toISOString(),
+    end_time: fromZonedTime(`${endDate}T${endTime}`, timeZone).toISOString(),
+  };
+}
+
+/**
+ * 週次の繰り返しパターンを個々の予定に展開する。
+ * after を指定した場合はそれより後に始まる回だけを返す。
+ */
+export function expandWeeklyRecurrence(
+  recurrence: WeeklyRecurrence,
+  { after }: { after?: Date } = {}
+): Occurrence[] {
+  const start = parse(recurrence.startsOn, DATE_FORMAT, new Date());
+  const days = Math.min(
+    differenceInCalendarDays(
+      parse(recurrence.until, DATE_FORMAT, new Date()),
+      start
+    ) + 1,
+    MAX_RECURRENCE_DAYS
+  );
+  const excluded = new Set(recurrence.excludedDates ?? []);
+
+  return [...Array(Math.max(days, 0))]
+    .map((_, i) => addDays(start, i))
+    .filter((day) => recurrence.weekdays.includes(getDay(day)))
+    .map((day) => format(day, DATE_FORMAT))
+    .filter((date) => !excluded.has(date))
+    .map((date) => ({
+      date,
+      ...toShiftTimes(
+        date,
+        recurrence.startTime,
+        recurrence.endTime,
+        recurrence.timeZone
+      ),
+    }))
+    .filter(
+      (occurrence) => !after || isAfter(parseISO(occurrence.start_time), after)
+    );
+}
+
+/** 「毎週 月・水・金 10:00-15:00」のような説明文を t の言語で返す */
+export function describeWeeklyRecurrence(
+  recurrence: Pick<WeeklyRecurrence, "weekdays" | "startTime" | "endTime">,
+  t: Messages
+) {
+  const weekdays = [...recurrence.weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((weekday) => t.weekdays[weekday])
+    .join(t.schedule.weekdaySeparator);
+
+  return t.schedule.weekly(
+    weekdays,
+    `${recurrence.startTime.slice(0, 5)}-${recurrence.endTime.slice(0, 5)}`
+  );
+}
@@ -0,0 +1,245 @@
+import { differenceInCalendarDays, format, subDays } from "date-fns";
+import { readNumber } from "./env.server";
+import {
+  loadNotificationChannels,
+  notify,
+  type NotificationChannel,
+} from "./notifications.server";
+import type {
+  Profile,
+  ReportWithDetails,
+  Repository,
+  Schedule,
+} from "./repository.server";
+import { toZonedTime } from "./timezone";
+import { resolveTimeZone } from "./timezone.server";
+import { toWeekSearch } from "./week";
+
+/** 終了してからこの日数が経っても未提出なら管理者にも知らせる */
+const REPORT_ESCALATION_DAYS = readNumber(process.env.REPORT_ESCALATION_DAYS, 3);
+
+/** これより前に終了した予定は督促しない */
+const REPORT_REMINDER_LOOKBACK_DAYS = 30;
+
+/** 通知に載せる予定。日時は timeZone (予定を持つメンバーのタイムゾーン) で表示する */
+const shiftParams = (
+  schedule: {
+    start_time: string;
+    end_time: string;
+    location: string;
+  },
+  timeZone: string
+) => ({
+  start_time: schedule.start_time,
+  end_time: schedule.end_time,
+  location: schedule.location,
+  time_zone: timeZone,
+});
+
+/** 予定を含む週 (timeZone の暦) の予定表 */
+const scheduleLink = (schedule: { start_time: string }, timeZone: string) =>
+  `/schedule${toWeekSearch(toZonedTime(schedule.start_time, timeZone))}`;
+
+/**
+ * 終了したのに実績が提出されていない予定を探し、本人に通知する。
+ * 終了から REPORT_ESCALATION_DAYS 日以上経ったものは管理者にも通知する。
+ * 同じ予定について同じ相手に通知するのは1回だけなので、何度実行してもよい。
+ */
+export async function sendReportReminders(
+  db: Repository,
+  {
+    now = new Date(),
+    channels = loadNotificationChannels(),
+  }: { now?: Date; channels?: NotificationChannel[] } = {}
+) {
+  const [{ data: schedules, error }, { data: members }] = await Promise.all([
+    db.schedules.listEnded({
+      from: subDays(now, REPORT_REMINDER_LOOKBACK_DAYS).toISOString(),
+      to: now.toISOString(),
+      endedBefore: now.toISOString(),
+    }),
+    db.profiles.list({ activeOnly: true }),
+  ]);
+
+  if (error) {
+    return { reminded: 0, escalated: 0, error };
+  }
+
+  const admins = (members ?? []).filter((member) => member.role === "admin");
+  let reminded = 0;
+  let escalated = 0;
+
+  // 取り下げた実績しか無い予定も未提出として扱う（実績管理画面と同じ）
+  const unreported = schedules.filter(
+    (schedule) => !schedule.reports.some((report) => report.status !== "withdrawn")
+  );
+
+  for (const schedule of unreported) {
+    // 無効化されたメンバーの予定は対象外
+    const member = members?.find((row) => row.id === schedule.user_id);
+    if (!member) continue;
+
+    // 日時は予定を持つメンバーのタイムゾーンで書く
+    const timeZone = resolveTimeZone(member);
+    const start = toZonedTime(schedule.start_time, timeZone);
+    const shift = shiftParams(schedule, timeZone);
+
+    reminded += await notify(
+      db,
+      [member],
+      {
+        kind: "report_missing",
+        params: { shift },
+        link: scheduleLink(schedule, timeZone),
+        dedupeKey: `report_missing:${schedule.id}`,
+      },
+      channels
+    );
+
+    const days = differenceInCalendarDays(
+      toZonedTime(now, timeZone),
+      toZonedTime(schedule.end_time, timeZone)
+    );
+    if (days >= REPORT_ESCALATION_DAYS) {
+      escalated += await notify(
+        db,
+        admins,
+        {
+          kind: "report_overdue",
+          params: { shift, member_name: member.full_name, days },
+          link: `/reports?${new URLSearchParams({
+            year: format(start, "yyyy"),
+            month: format(start, "M"),
+          })}`,
+          dedupeKey: `report_overdue:${schedule.id}`,
+        },
+        channels
+      );
+    }
+  }
+
+  return { reminded, escalated, error: null };
+}
+
+/**
+ * 承認・差し戻しした実績の提出者に通知する。コメントがあれば本文に含める。
+ */
+export async function notifyReportsReviewed(
+  db: Repository,
+  {
+    reportIds,
+    decision,
+    comment,
+    channels = loadNotificationChannels(),
+  }: {
+    reportIds: string[];
+    decision: "approved" | "rejected";
+    comment: string | null;
+    channels?: NotificationChannel[];
+  }
+) {
+  const { data: reports } = await db.reports.list({
+    ids: reportIds,
+    statuses: [decision],
+  });
+  const { data: members } = await db.profiles.list({
+    ids: [...new Set((reports ?? []).map((report) => report.schedules.user_id))],
+  });
+
+  for (const report of reports ?? []) {
+    const member = members?.find((row) => row.id === report.schedules.user_id);
+    if (!member) continue;
+
+    const timeZone = resolveTimeZone(member);
+
+    await notify(
+      db,
+      [member],
+      {
+        kind: decision === "approved" ? "report_approved" : "report_rejected",
+        params: { shift: shiftParams(report.schedules, timeZone), comment },
+        link: scheduleLink(report.schedules, timeZone),
+      },
+      channels
+    );
+  }
+}
+
+/**
+ * 管理者が他のメンバーの実績を修正したことを、提出者に通知する。
+ */
+export async function notifyReportEdited(
+  db: Repository,
+  {
+    report,
+    editor,
+    channels = loadNotificationChannels(),
+  }: {
+    report: ReportWithDetails;
+    editor: Pick<Profile, "id" | "full_name">;
+    channels?: NotificationChannel[];
+  }
+) {
+  if (report.schedules.user_id === editor.id) return;
+
+  const { data: member } = await db.profiles.get(report.schedules.user_id);
+  if (!member || member.deactivated_at) return;
+
+  const timeZone = resolveTimeZone(member);
+
+  await notify(
+    db,
+    [member],
+    {
+      kind: "report_edited",
+      params: {
+        shift: shiftParams(report.schedules, timeZone),
+        editor_name: editor.full_name,
+      },
+      link: scheduleLink(report.schedules, timeZone),
+    },
+    channels
+  );
+}
+
+/**
+ * 管理者が他のメンバーの予定を変更・削除したことを、予定を持つメンバーに知らせる。
+ * 通知には変更前の予定を載せ、変更後の予定 (after) があればその週の予定表を開く。
+ * 本人が変更した場合は通知しない。
+ */
+export async function notifyScheduleEdited(
+  db: Repository,
+  {
+    before,
+    after,
+    editor,
+    channels = loadNotificationChannels(),
+  }: {
+    before: Schedule;
+    /** 削除した場合は null */
+    after: Pick<Schedule, "start_time"> | null;
+    editor: Pick<Profile, "id" | "full_name">;
+    channels?: NotificationChannel[];
+  }
+) {
+  if (before.user_id === editor.id) return;
+
+  const { data: member } = await db.profiles.get(before.user_id);
+  if (!member || member.deactivated_at) return;
+
+  const timeZone = resolveTimeZone(member);
+
+  await notify(
+    db,
+    [member],
+    {
+      kind: after ? "schedule_edited" : "schedule_deleted",
+      params: {
+        shift: shiftParams(before, timeZone),
+        editor_name: editor.full_name,
+      },
+      link: scheduleLink(after ?? before, timeZone),
+    },
+    channels
+  );
+}
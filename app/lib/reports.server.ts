@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { recordAudit } from "./audit.server";
+import type { I18n, Messages } from "./i18n";
+import { notifyReportsReviewed } from "./report-notifications.server";
+import {
+  REPORT_FIELDS,
+  type ReportRevisionAction,
+  type ReportValues,
+} from "./reports";
+import type { Repository } from "./repository.server";
+import { buildReportTimes, calculateWorkMinutes } from "./work-time";
+
+const timeField = (t: Messages) =>
+  z
+    .string({ required_error: t.validation.time })
+    .regex(/^\d{2}:\d{2}$/, t.validation.time);
+
+/** 実績報告フォームの入力。エラーメッセージは t の言語で返す */
+export const reportSchema = (t: Messages) =>
+  z.object({
+    actual_start_time: timeField(t),
+    actual_end_time: timeField(t),
+    break_time: z.coerce
+      .number({ invalid_type_error: t.validation.breakTime })
+      .int(t.validation.breakTimeInteger)
+      .min(0, t.validation.breakTimeMin),
+    actual_location: z.string().min(1, t.validation.location),
+    actual_description: z.string().min(1, t.validation.description),
+    reflection: z.string().min(1, t.validation.reflection),
+  });
+
+/**
+ * 実績報告フォームの入力を検証し、予定の日付と組み合わせた保存用の値を返す。
+ * 入力は timeZone での時刻のみなので、日時は親の予定の timeZone での開始日を基準に組み立てる。
+ */
+export function parseReportForm(
+  formData: FormData,
+  scheduleStartTime: string,
+  { t, timeZone }: I18n
+):
+  | { report: ReportValues; errors?: undefined }
+  | { report?: undefined; errors: Record<string, string[] | undefined> } {
+  const result = reportSchema(t).safeParse({
+    actual_start_time: formData.get("actual_start_time"),
+    actual_end_time: formData.get("actual_end_time"),
+    break_time: formData.get("break_time"),
+    actual_location: formData.get("actual_location"),
+    actual_description: formData.get("actual_description"),
+    reflection: formData.get("reflection"),
+  });
+
+  if (!result.success) {
+    return { errors: result.error.flatten().fieldErrors };
+  }
+
+  const report = {
+    ...result.data,
+    ...buildReportTimes(
+      scheduleStartTime,
+      result.data.actual_start_time,
+      result.data.actual_end_time,
+      timeZone
+    ),
+  };
+
+  if (calculateWorkMinutes(report) <= 0) {
+    return { errors: { break_time: [t.validation.breakTimeTooLong] } };
+  }
+
+  return { report };
+}
+
+/** 修正履歴に記録する実績の値。実績行をそのまま渡せるよう null も受け付ける */
+type ReportSnapshot = { [K in keyof ReportValues]?: ReportValues[K] | null };
+
+const pickReportFields = (report: ReportSnapshot | null) =>
+  report
+    ? Object.fromEntries(REPORT_FIELDS.map((field) => [field, report[field]]))
+    : null;
+
+/** 実績の提出・修正・取り下げを修正履歴に記録する */
+export async function recordReportRevision(
+  db: Repository,
+  {
+    reportId,
+    revisedBy,
+    action,
+    before,
+    after,
+    comment = null,
+  }: {
+    reportId: string;
+    revisedBy: string;
+    action: ReportRevisionAction;
+    before: ReportSnapshot | null;
+    after: ReportSnapshot | null;
+    comment?: string | null;
+  }
+) {
+  return db.reportRevisions.insert([
+    {
+      report_id: reportId,
+      revised_by: revisedBy,
+      action,
+      before: pickReportFields(before),
+      after: pickReportFields(after),
+      comment,
+    },
+  ]);
+}
+
+/**
+ * 実績をまとめて承認・差し戻しし、それぞれ修正履歴と監査ログに記録する。
+ * 承認・差し戻しした実績は提出者に通知する。
+ * 承認待ち以外の実績は対象外として無視する。
+ */
+export async function reviewReports(
+  db: Repository,
+  {
+    reportIds,
+    reviewedBy,
+    decision,
+    comment = null,
+  }: {
+    reportIds: string[];
+    reviewedBy: string;
+    decision: "approved" | "rejected";
+    comment?: string | null;
+  }
+) {
+  const { data: reviewed, error } = await db.reports.updateReviewable(reportIds, {
+    status: decision,
+    review_comment: comment,
+    reviewed_by: reviewedBy,
+    reviewed_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    return { count: 0, error };
+  }
+
+  const action = decision === "approved" ? "approve" : "reject";
+
+  if (reviewed.length > 0) {
+    await db.reportRevisions.insert(
+      reviewed.map(({ id }) => ({
+        report_id: id,
+        revised_by: reviewedBy,
+        action,
+        comment,
+      }))
+    );
+    await recordAudit(
+      db,
+      reviewedBy,
+      reviewed.map(({ id }) => ({
+        action,
+        entityType: "report",
+        entityId: id,
+        before: { status: "submitted" },
+        after: { status: decision, review_comment: comment },
+      }))
+    );
+
+    await notifyReportsReviewed(db, {
+      reportIds: reviewed.map(({ id }) => id),
+      decision,
+      comment,
+    });
+  }
+
+  return { count: reviewed.length, error: null };
+}
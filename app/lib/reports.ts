@@ -0,0 +1,121 @@
+import type { I18n } from "./i18n";
+import { formatInTimeZone } from "./timezone";
+import { calculateWorkMinutes, type WorkTimeReport } from "./work-time";
+
+export type ReportStatus = "submitted" | "approved" | "rejected" | "withdrawn";
+
+export const REPORT_STATUS_STYLES: Record<ReportStatus, string> = {
+  submitted: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-600",
+};
+
+/** メンバー本人が修正・取り下げできる状態。承認されると変更できない */
+export const MEMBER_EDITABLE_STATUSES: ReportStatus[] = ["submitted", "rejected"];
+
+/** 管理者が承認・差し戻しできる状態 */
+export const REVIEWABLE_STATUSES: ReportStatus[] = ["submitted"];
+
+/** 修正履歴に残す実績の項目 */
+export const REPORT_FIELDS = [
+  "actual_start_time",
+  "actual_end_time",
+  "break_time",
+  "actual_location",
+  "actual_description",
+  "reflection",
+] as const;
+
+export type ReportField = (typeof REPORT_FIELDS)[number];
+
+export type ReportValues = {
+  actual_start_time: string;
+  actual_end_time: string;
+  break_time: number;
+  actual_location: string;
+  actual_description: string;
+  reflection: string;
+};
+
+export type ReportRevisionAction =
+  | "submit"
+  | "update"
+  | "withdraw"
+  | "resubmit"
+  | "approve"
+  | "reject";
+
+export type ReportRevision = {
+  id: string;
+  action: ReportRevisionAction;
+  before: Partial<ReportValues> | null;
+  after: Partial<ReportValues> | null;
+  comment: string | null;
+  created_at: string;
+};
+
+const formatFieldValue = (
+  field: ReportField,
+  value: unknown,
+  { t, formatDate }: I18n
+) => {
+  if (value === undefined || value === null || value === "") return t.reports.emptyValue;
+  if (field === "actual_start_time" || field === "actual_end_time") {
+    return formatDate(String(value), "monthDayTime");
+  }
+  if (field === "break_time") return t.minutes(String(value));
+  return String(value);
+};
+
+/** 修正履歴の変更前後から、変更された項目だけを「項目: 前 → 後」の形で返す */
+export function describeRevisionChanges(revision: ReportRevision, i18n: I18n) {
+  if (!revision.before || !revision.after) return [];
+
+  return REPORT_FIELDS.filter(
+    (field) => String(revision.before?.[field]) !== String(revision.after?.[field])
+  ).map(
+    (field) =>
+      `${i18n.t.reportFields[field]}: ${formatFieldValue(
+        field,
+        revision.before?.[field],
+        i18n
+      )} → ${formatFieldValue(field, revision.after?.[field], i18n)}`
+  );
+}
+
+/** 時刻入力 (type="time") の初期値として使う、timeZone での HH:mm を返す */
+export const toTimeInputValue = (value: string, timeZone: string) =>
+  formatInTimeZone(value, timeZone, "HH:mm");
+
+type GroupableReport = WorkTimeReport & {
+  schedules: { user_id: string; profiles: { full_name: string } };
+};
+
+/**
+ * 実績をメンバーごとにまとめ、月の合計実働時間（分）を集計する。
+ * 実績管理画面とエクスポートで同じ集計を使うこと。
+ */
+export function groupReportsByUser<T extends GroupableReport>(reports: T[]) {
+  return reports.reduce(
+    (acc, report) => {
+      const userId = report.schedules.user_id;
+      if (!acc[userId]) {
+        acc[userId] = {
+          userName: report.schedules.profiles.full_name,
+          reports: [],
+          totalWorkMinutes: 0,
+        };
+      }
+
+      acc[userId].reports.push(report);
+      acc[userId].totalWorkMinutes += calculateWorkMinutes(report);
+
+      return acc;
+    },
+    {} as Record<
+      string,
+      { userName: string; reports: T[]; totalWorkMinutes: number }
+    >
+  );
+}
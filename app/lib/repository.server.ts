@@ -0,0 +1,603 @@
+import type { AuditEntityType, AuditLog } from "./audit";
+import type { Tables, TablesInsert, TablesUpdate } from "./database.types";
+import type { EmploymentType } from "./members";
+import type {
+  Notification,
+  NotificationKind,
+  NotificationParams,
+} from "./notifications";
+import type { Role } from "./permissions";
+import type { ScheduleSeries } from "./recurrence";
+import {
+  REVIEWABLE_STATUSES,
+  type ReportRevision,
+  type ReportStatus,
+} from "./reports";
+import {
+  createSupabaseServiceClient,
+  type TypedSupabaseClient,
+} from "./supabase.server";
+
+export type Profile = Omit<Tables<"profiles">, "role" | "employment_type"> & {
+  role: Role;
+  employment_type: EmploymentType;
+};
+export type Team = Tables<"teams">;
+export type Schedule = Tables<"schedules">;
+export type Report = Omit<Tables<"reports">, "status"> & { status: ReportStatus };
+export type Invitation = Tables<"invitations">;
+
+export type ScheduleWithReports = Schedule & { reports: Report[] };
+
+export type ScheduleWithDetails = ScheduleWithReports & {
+  schedule_series: ScheduleSeries | null;
+};
+
+/** 終了した予定と、その予定に提出された実績の状態 */
+export type EndedSchedule = Schedule & {
+  profiles: Pick<Profile, "full_name" | "team_id">;
+  reports: Pick<Report, "status">[];
+};
+
+export type ReportWithDetails = Report & {
+  schedules: Schedule & { profiles: Pick<Profile, "full_name" | "team_id"> };
+  report_revisions: (ReportRevision & {
+    profiles: Pick<Profile, "full_name"> | null;
+  })[];
+};
+
+export type InvitationWithInviter = Invitation & {
+  inviter: Pick<Profile, "full_name"> | null;
+};
+
+/** 出勤ボードに表示するメンバーと予定。一般のメンバーにも見せる項目だけを持つ */
+export type BoardMember = Pick<Profile, "id" | "full_name" | "team_id">;
+export type BoardSchedule = Pick<Schedule, "id" | "user_id" | "location"> & {
+  /** 予定の日付 (yyyy-MM-dd)。検索条件の timeZone での日付 */
+  date: string;
+  /** 日時は他のメンバーの予定を閲覧できる場合だけ。それ以外は null */
+  start_time: string | null;
+  end_time: string | null;
+};
+
+export type AuditLogWithActor = AuditLog & {
+  actor: Pick<Profile, "full_name"> | null;
+};
+
+export type DbError = { message: string };
+
+export type DbResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: DbError };
+
+export type ReportFilter = {
+  /** actual_start_time がこの日時以降 */
+  from?: string;
+  /** actual_start_time がこの日時より前 */
+  to?: string;
+  ids?: string[];
+  userId?: string;
+  teamId?: string;
+  /** 省略すると取り下げ済み以外のすべて */
+  statuses?: ReportStatus[];
+};
+
+export type AuditLogFilter = {
+  /** created_at がこの日時以降 */
+  from?: string;
+  /** created_at がこの日時より前 */
+  to?: string;
+  /** 操作したメンバー、または変更されたメンバー (entity_type = member) のID */
+  memberId?: string;
+  entityType?: AuditEntityType;
+  /** 新しい順にこの件数まで */
+  limit?: number;
+};
+
+/**
+ * アプリが使うデータ操作の一覧。ルートや lib からはテーブルを直接触らず、これを経由する。
+ */
+export interface Repository {
+  profiles: {
+    get(id: string): Promise<DbResult<Profile | null>>;
+    findByEmail(email: string): Promise<DbResult<Profile | null>>;
+    /** 無効化されたメンバーは後ろに並べる */
+    list(filter?: {
+      ids?: string[];
+      role?: Role;
+      activeOnly?: boolean;
+    }): Promise<DbResult<Profile[]>>;
+    update(id: string, values: TablesUpdate<"profiles">): Promise<DbResult<null>>;
+  };
+  teams: {
+    list(): Promise<DbResult<Team[]>>;
+  };
+  schedules: {
+    get(id: string): Promise<DbResult<ScheduleWithReports | null>>;
+    /** 開始日時が [from, to) の予定 */
+    list(filter: {
+      from: string;
+      to: string;
+      userId?: string;
+    }): Promise<DbResult<Schedule[]>>;
+    /** 予定表に表示する自分の予定（実績・シリーズ付き） */
+    listForUser(filter: {
+      userId: string;
+      from: string;
+      to: string;
+    }): Promise<DbResult<ScheduleWithDetails[]>>;
+    /** [start, end) と時間が重なる予定 */
+    listOverlapping(filter: {
+      userId: string;
+      start: string;
+      end: string;
+    }): Promise<DbResult<Schedule[]>>;
+    /** 開始日時が [from, to) で endedBefore までに終了した予定 */
+    listEnded(filter: {
+      from: string;
+      to: string;
+      endedBefore: string;
+      teamId?: string | null;
+    }): Promise<DbResult<EndedSchedule[]>>;
+    /** シリーズのうち startsFrom 以降に始まる回 */
+    listBySeries(
+      seriesId: string,
+      startsFrom: string
+    ): Promise<DbResult<ScheduleWithReports[]>>;
+    /** 登録した予定のIDを返す */
+    insert(values: TablesInsert<"schedules">[]): Promise<DbResult<{ id: string }[]>>;
+    update(id: string, values: TablesUpdate<"schedules">): Promise<DbResult<null>>;
+    delete(ids: string[]): Promise<DbResult<null>>;
+  };
+  scheduleSeries: {
+    get(id: string): Promise<DbResult<ScheduleSeries | null>>;
+    insert(values: TablesInsert<"schedule_series">): Promise<DbResult<ScheduleSeries>>;
+    update(
+      id: string,
+      values: TablesUpdate<"schedule_series">
+    ): Promise<DbResult<null>>;
+    delete(id: string): Promise<DbResult<null>>;
+  };
+  reports: {
+    get(id: string): Promise<DbResult<ReportWithDetails | null>>;
+    getBySchedule(scheduleId: string): Promise<DbResult<ReportWithDetails | null>>;
+    /** actual_start_time の順に返す */
+    list(filter: ReportFilter): Promise<DbResult<ReportWithDetails[]>>;
+    insert(values: TablesInsert<"reports">): Promise<DbResult<{ id: string }>>;
+    update(id: string, values: TablesUpdate<"reports">): Promise<DbResult<null>>;
+    /** 承認待ちの実績だけを更新し、更新した実績のIDを返す */
+    updateReviewable(
+      ids: string[],
+      values: TablesUpdate<"reports">
+    ): Promise<DbResult<{ id: string }[]>>;
+  };
+  reportRevisions: {
+    insert(
+      values: TablesInsert<"report_revisions">[]
+    ): Promise<DbResult<null>>;
+  };
+  invitations: {
+    /** 参加済み・取り消し済みを除いた招待 */
+    listOpen(): Promise<DbResult<InvitationWithInviter[]>>;
+    getOpen(id: string): Promise<DbResult<Invitation | null>>;
+    findOpenByEmail(email: string): Promise<DbResult<Invitation | null>>;
+    insert(values: TablesInsert<"invitations">): Promise<DbResult<{ id: string }>>;
+    update(id: string, values: TablesUpdate<"invitations">): Promise<DbResult<null>>;
+  };
+  /** 出勤ボード。無効化されたメンバーは含めない */
+  board: {
+    members(): Promise<DbResult<BoardMember[]>>;
+    /** timeZone での開始日 (yyyy-MM-dd) が [from, to) の予定 */
+    schedules(filter: {
+      from: string;
+      to: string;
+      timeZone: string;
+    }): Promise<DbResult<BoardSchedule[]>>;
+  };
+  /** カレンダーアプリから購読するための iCalendar フィード */
+  calendarFeeds: {
+    get(userId: string): Promise<DbResult<{ token: string } | null>>;
+    /** トークンを発行し直す。以前のトークンは使えなくなる */
+    save(userId: string, token: string): Promise<DbResult<null>>;
+    /** トークンの持ち主。トークンが無効、または無効化されたメンバーの場合は null */
+    owner(token: string): Promise<DbResult<Pick<Profile, "id" | "full_name"> | null>>;
+    /** トークンの持ち主の、開始日時が from 以降の予定 */
+    schedules(token: string, from: string): Promise<DbResult<Schedule[]>>;
+  };
+  notifications: {
+    /** user_id と dedupe_key が同じ通知が既にあるものは登録しない */
+    insert(
+      values: (Omit<TablesInsert<"notifications">, "params"> & {
+        kind: NotificationKind;
+        params?: NotificationParams;
+      })[]
+    ): Promise<DbResult<null>>;
+    /** 既に通知済みの dedupe_key */
+    listSentKeys(dedupeKeys: string[]): Promise<
+      DbResult<{ user_id: string; dedupe_key: string | null }[]>
+    >;
+    /** 新しい順に limit 件まで */
+    listForUser(userId: string, limit: number): Promise<DbResult<Notification[]>>;
+    countUnread(userId: string): Promise<DbResult<number>>;
+    /** ids を省略するとすべての未読を既読にする */
+    markRead(userId: string, ids?: string[]): Promise<DbResult<null>>;
+  };
+  /** 追記のみで、更新・削除はできない */
+  auditLogs: {
+    insert(values: TablesInsert<"audit_logs">[]): Promise<DbResult<null>>;
+    /** 新しい順に返す */
+    list(filter: AuditLogFilter): Promise<DbResult<AuditLogWithActor[]>>;
+  };
+}
+
+const REPORT_DETAILS = `
+  *,
+  schedules!inner (
+    *,
+    profiles!inner (
+      full_name,
+      team_id
+    )
+  ),
+  report_revisions (
+    *,
+    profiles (
+      full_name
+    )
+  )
+`;
+
+/** 更新系のクエリの結果から data を除き、エラーの有無だけを返す */
+const withoutData = async (
+  query: PromiseLike<{ error: DbError | null }>
+): Promise<DbResult<null>> => {
+  const { error } = await query;
+  return error ? { data: null, error } : { data: null, error: null };
+};
+
+/** Supabase (PostgREST) を使う実装 */
+export function createSupabaseRepository(
+  supabase: TypedSupabaseClient
+): Repository {
+  return {
+    profiles: {
+      get: async (id) =>
+        supabase
+          .from("profiles")
+          .select("*")
+          .eq("id", id)
+          .returns<Profile[]>()
+          .maybeSingle(),
+      findByEmail: async (email) =>
+        supabase
+          .from("profiles")
+          .select("*")
+          .ilike("email", email)
+          .returns<Profile[]>()
+          .maybeSingle(),
+      list: async ({ ids, role, activeOnly } = {}) => {
+        let query = supabase
+          .from("profiles")
+          .select("*")
+          .order("deactivated_at", { nullsFirst: true })
+          .order("created_at");
+
+        if (ids) {
+          query = query.in("id", ids);
+        }
+        if (role) {
+          query = query.eq("role", role);
+        }
+        if (activeOnly) {
+          query = query.is("deactivated_at", null);
+        }
+
+        return query.returns<Profile[]>();
+      },
+      update: (id, values) =>
+        withoutData(supabase.from("profiles").update(values).eq("id", id)),
+    },
+
+    teams: {
+      list: async () => supabase.from("teams").select("*").order("name"),
+    },
+
+    schedules: {
+      get: async (id) =>
+        supabase
+          .from("schedules")
+          .select("*, reports(*)")
+          .eq("id", id)
+          .returns<ScheduleWithReports[]>()
+          .maybeSingle(),
+      list: async ({ from, to, userId }) => {
+        let query = supabase
+          .from("schedules")
+          .select("*")
+          .gte("start_time", from)
+          .lt("start_time", to)
+          .order("start_time");
+
+        if (userId) {
+          query = query.eq("user_id", userId);
+        }
+
+        return query;
+      },
+      listForUser: async ({ userId, from, to }) =>
+        supabase
+          .from("schedules")
+          .select("*, reports(*), schedule_series(*)")
+          .eq("user_id", userId)
+          .gte("start_time", from)
+          .lt("start_time", to)
+          .order("start_time")
+          .returns<ScheduleWithDetails[]>(),
+      listOverlapping: async ({ userId, start, end }) =>
+        supabase
+          .from("schedules")
+          .select("*")
+          .eq("user_id", userId)
+          .lt("start_time", end)
+          .gt("end_time", start)
+          .order("start_time"),
+      listEnded: async ({ from, to, endedBefore, teamId }) => {
+        let query = supabase
+          .from("schedules")
+          .select("*, profiles!inner(full_name, team_id), reports(status)")
+          .gte("start_time", from)
+          .lt("start_time", to)
+          .lt("end_time", endedBefore)
+          .order("start_time");
+
+        if (teamId) {
+          query = query.eq("profiles.team_id", teamId);
+        }
+
+        return query.returns<EndedSchedule[]>();
+      },
+      listBySeries: async (seriesId, startsFrom) =>
+        supabase
+          .from("schedules")
+          .select("*, reports(*)")
+          .eq("series_id", seriesId)
+          .gte("start_time", startsFrom)
+          .returns<ScheduleWithReports[]>(),
+      insert: async (values) =>
+        supabase.from("schedules").insert(values).select("id"),
+      update: (id, values) =>
+        withoutData(supabase.from("schedules").update(values).eq("id", id)),
+      delete: (ids) =>
+        withoutData(supabase.from("schedules").delete().in("id", ids)),
+    },
+
+    scheduleSeries: {
+      get: async (id) =>
+        supabase.from("schedule_series").select("*").eq("id", id).maybeSingle(),
+      insert: async (values) =>
+        supabase
+          .from("schedule_series")
+          .insert(values)
+          .select()
+          .single<ScheduleSeries>(),
+      update: (id, values) =>
+        withoutData(supabase.from("schedule_series").update(values).eq("id", id)),
+      delete: (id) =>
+        withoutData(supabase.from("schedule_series").delete().eq("id", id)),
+    },
+
+    reports: {
+      get: async (id) =>
+        supabase
+          .from("reports")
+          .select(REPORT_DETAILS)
+          .eq("id", id)
+          .returns<ReportWithDetails[]>()
+          .maybeSingle(),
+      getBySchedule: async (scheduleId) =>
+        supabase
+          .from("reports")
+          .select(REPORT_DETAILS)
+          .eq("schedule_id", scheduleId)
+          .returns<ReportWithDetails[]>()
+          .maybeSingle(),
+      list: async ({ from, to, ids, userId, teamId, statuses }) => {
+        let query = supabase
+          .from("reports")
+          .select(REPORT_DETAILS)
+          .order("actual_start_time");
+
+        query = statuses
+          ? query.in("status", statuses)
+          : query.neq("status", "withdrawn");
+
+        if (from) {
+          query = query.gte("actual_start_time", from);
+        }
+        if (to) {
+          query = query.lt("actual_start_time", to);
+        }
+        if (ids) {
+          query = query.in("id", ids);
+        }
+        if (userId) {
+          query = query.eq("schedules.user_id", userId);
+        }
+        if (teamId) {
+          query = query.eq("schedules.profiles.team_id", teamId);
+        }
+
+        return query.returns<ReportWithDetails[]>();
+      },
+      insert: async (values) =>
+        supabase
+          .from("reports")
+          .insert(values)
+          .select("id")
+          .single<{ id: string }>(),
+      update: (id, values) =>
+        withoutData(supabase.from("reports").update(values).eq("id", id)),
+      updateReviewable: async (ids, values) =>
+        supabase
+          .from("reports")
+          .update(values)
+          .in("id", ids)
+          .in("status", REVIEWABLE_STATUSES)
+          .select("id"),
+    },
+
+    reportRevisions: {
+      insert: (values) =>
+        withoutData(supabase.from("report_revisions").insert(values)),
+    },
+
+    invitations: {
+      listOpen: async () =>
+        supabase
+          .from("invitations")
+          .select("*, inviter:profiles!invited_by (full_name)")
+          .is("accepted_at", null)
+          .is("revoked_at", null)
+          .order("created_at", { ascending: false })
+          .returns<InvitationWithInviter[]>(),
+      getOpen: async (id) =>
+        supabase
+          .from("invitations")
+          .select("*")
+          .eq("id", id)
+          .is("accepted_at", null)
+          .is("revoked_at", null)
+          .maybeSingle(),
+      findOpenByEmail: async (email) =>
+        supabase
+          .from("invitations")
+          .select("*")
+          .ilike("email", email)
+          .is("accepted_at", null)
+          .is("revoked_at", null)
+          .maybeSingle(),
+      insert: async (values) =>
+        supabase
+          .from("invitations")
+          .insert(values)
+          .select("id")
+          .single<{ id: string }>(),
+      update: (id, values) =>
+        withoutData(supabase.from("invitations").update(values).eq("id", id)),
+    },
+
+    board: {
+      members: async () => supabase.rpc("board_members"),
+      schedules: async ({ from, to, timeZone }) =>
+        supabase.rpc("board_schedules", {
+          range_start: from,
+          range_end: to,
+          time_zone: timeZone,
+        }),
+    },
+
+    calendarFeeds: {
+      get: async (userId) =>
+        supabase
+          .from("calendar_feeds")
+          .select("token")
+          .eq("user_id", userId)
+          .maybeSingle(),
+      save: (userId, token) =>
+        withoutData(
+          supabase.from("calendar_feeds").upsert({ user_id: userId, token })
+        ),
+      owner: async (token) =>
+        supabase.rpc("calendar_feed_owner", { feed_token: token }).maybeSingle(),
+      schedules: async (token, from) =>
+        supabase.rpc("calendar_feed_schedules", {
+          feed_token: token,
+          range_start: from,
+        }),
+    },
+
+    notifications: {
+      insert: (values) =>
+        withoutData(
+          supabase.from("notifications").upsert(values, {
+            onConflict: "user_id,dedupe_key",
+            ignoreDuplicates: true,
+          })
+        ),
+      listSentKeys: async (dedupeKeys) =>
+        supabase
+          .from("notifications")
+          .select("user_id, dedupe_key")
+          .in("dedupe_key", dedupeKeys),
+      listForUser: async (userId, limit) =>
+        supabase
+          .from("notifications")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(limit)
+          .returns<Notification[]>(),
+      countUnread: async (userId) => {
+        const { count, error } = await supabase
+          .from("notifications")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .is("read_at", null);
+        return error ? { data: null, error } : { data: count ?? 0, error: null };
+      },
+      markRead: (userId, ids) => {
+        let query = supabase
+          .from("notifications")
+          .update({ read_at: new Date().toISOString() })
+          .eq("user_id", userId)
+          .is("read_at", null);
+
+        if (ids) {
+          query = query.in("id", ids);
+        }
+
+        return withoutData(query);
+      },
+    },
+
+    auditLogs: {
+      // 利用者が監査ログを書き換えられないよう、audit_logs への追加はサーバーの service role だけに許可している
+      insert: async (values) => {
+        // service role の鍵が未設定でも操作自体は失敗させず、記録できなかったことをエラーで返す
+        let service: TypedSupabaseClient;
+        try {
+          service = createSupabaseServiceClient();
+        } catch (error) {
+          return { data: null, error: { message: (error as Error).message } };
+        }
+        return withoutData(service.from("audit_logs").insert(values));
+      },
+      list: async ({ from, to, memberId, entityType, limit }) => {
+        let query = supabase
+          .from("audit_logs")
+          .select("*, actor:profiles!actor_id (full_name)")
+          .order("created_at", { ascending: false });
+
+        if (from) {
+          query = query.gte("created_at", from);
+        }
+        if (to) {
+          query = query.lt("created_at", to);
+        }
+        if (memberId) {
+          query = query.or(
+            `actor_id.eq.${memberId},and(entity_type.eq.member,entity_id.eq.${memberId})`
+          );
+        }
+        if (entityType) {
+          query = query.eq("entity_type", entityType);
+        }
+        if (limit) {
+          query = query.limit(limit);
+        }
+
+        return query.returns<AuditLogWithActor[]>();
+      },
+    },
+  };
+}
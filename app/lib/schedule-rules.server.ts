@@ -0,0 +1,170 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+import { readNumber } from "./env.server";
+import type { I18n, Messages } from "./i18n";
+import type { Repository } from "./repository.server";
+
+export type ScheduleRules = {
+  /** 1回の予定の最短時間（分） */
+  minShiftMinutes: number;
+  /** 1回の予定の最長時間（分） */
+  maxShiftMinutes: number;
+};
+
+/**
+ * 予定登録時の制限値。環境変数で上書きできる。
+ * - SCHEDULE_MIN_SHIFT_MINUTES (既定: 15分)
+ * - SCHEDULE_MAX_SHIFT_HOURS (既定: 12時間)
+ */
+export const scheduleRules: ScheduleRules = {
+  minShiftMinutes: readNumber(process.env.SCHEDULE_MIN_SHIFT_MINUTES, 15),
+  maxShiftMinutes: readNumber(process.env.SCHEDULE_MAX_SHIFT_HOURS, 12) * 60,
+};
+
+/**
+ * 開始・終了時間が制限に収まっているかを確認し、違反していればエラーメッセージを返す
+ */
+export function checkShiftLength(
+  start: Date,
+  end: Date,
+  t: Messages,
+  rules: ScheduleRules = scheduleRules
+) {
+  const minutes = differenceInMinutes(end, start);
+
+  if (minutes <= 0) {
+    return t.validation.endBeforeStart;
+  }
+  if (minutes < rules.minShiftMinutes) {
+    return t.validation.shiftTooShort(rules.minShiftMinutes);
+  }
+  if (minutes > rules.maxShiftMinutes) {
+    return t.validation.shiftTooLong(rules.maxShiftMinutes / 60);
+  }
+  return null;
+}
+
+/**
+ * 同じユーザーの既存の予定と時間が重複していればエラーメッセージを返す。
+ * 更新時は excludeId に自分自身の予定IDを渡す。
+ */
+export async function findOverlapError(
+  db: Repository,
+  {
+    userId,
+    start,
+    end,
+    excludeId,
+  }: { userId: string; start: string; end: string; excludeId?: string },
+  i18n: I18n
+) {
+  const { data: overlaps } = await db.schedules.listOverlapping({
+    userId,
+    start,
+    end,
+  });
+  const overlap = overlaps?.find((schedule) => schedule.id !== excludeId);
+
+  return overlap ? overlapMessage(overlap, i18n) : null;
+}
+
+/**
+ * 繰り返し予定のように複数の枠をまとめて登録する場合の重複チェック。
+ * シリーズを再展開する場合は excludeSeriesId に作り直すシリーズのIDを渡す。
+ */
+export async function findOverlapErrorForSlots(
+  db: Repository,
+  {
+    userId,
+    slots,
+    excludeSeriesId,
+  }: {
+    userId: string;
+    slots: { start_time: string; end_time: string }[];
+    excludeSeriesId?: string;
+  },
+  i18n: I18n
+) {
+  if (slots.length === 0) {
+    return null;
+  }
+
+  const { data: existing } = await db.schedules.listOverlapping({
+    userId,
+    start: slots[0].start_time,
+    end: slots[slots.length - 1].end_time,
+  });
+
+  for (const slot of slots) {
+    const start = parseISO(slot.start_time);
+    const end = parseISO(slot.end_time);
+    const overlap = existing?.find(
+      (schedule) =>
+        (!excludeSeriesId || schedule.series_id !== excludeSeriesId) &&
+        parseISO(schedule.start_time) < end &&
+        parseISO(schedule.end_time) > start
+    );
+
+    if (overlap) {
+      return overlapMessage(overlap, i18n);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 取り込みのように互いに独立した複数の枠について、重複をそれぞれ確認する。
+ * 既存の予定に加えて枠どうしの重複も確認し、後ろの枠をエラーにする。
+ * 返り値は slots と同じ順で、重複が無い枠は null。
+ */
+export async function findOverlapErrorsBySlot(
+  db: Repository,
+  {
+    userId,
+    slots,
+  }: {
+    userId: string;
+    slots: { start_time: string; end_time: string; location: string }[];
+  },
+  i18n: I18n
+) {
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const times = slots.map((slot) => ({
+    start: parseISO(slot.start_time),
+    end: parseISO(slot.end_time),
+  }));
+  const { data: existing } = await db.schedules.listOverlapping({
+    userId,
+    start: new Date(Math.min(...times.map(({ start }) => start.getTime()))).toISOString(),
+    end: new Date(Math.max(...times.map(({ end }) => end.getTime()))).toISOString(),
+  });
+
+  return slots.map((_, index) => {
+    const { start, end } = times[index];
+    const overlaps = (other: { start_time: string; end_time: string }) =>
+      parseISO(other.start_time) < end && parseISO(other.end_time) > start;
+
+    const overlap =
+      existing?.find(overlaps) ?? slots.slice(0, index).find(overlaps);
+
+    return overlap ? overlapMessage(overlap, i18n) : null;
+  });
+}
+
+const overlapMessage = (
+  overlap: {
+    start_time: string;
+    end_time: string;
+    location: string;
+  },
+  { t, formatDate }: I18n
+) =>
+  t.validation.overlap(
+    `${formatDate(overlap.start_time, "weekdayTime")} - ${formatDate(
+      overlap.end_time,
+      "time"
+    )} ${overlap.location}`
+  );
@@ -0,0 +1,73 @@
+import type { Occurrence, ScheduleSeries } from "./recurrence";
+import type { Repository } from "./repository.server";
+import { toDateKey } from "./timezone";
+
+/**
+ * シリーズの回をスキップ・個別編集したときに、その日付を除外日に追加する。
+ * シリーズ全体を編集して再展開した際に、同じ日が作り直されないようにするため。
+ */
+export async function excludeSeriesDate(
+  db: Repository,
+  seriesId: string,
+  startTime: string
+) {
+  const { data: series } = await db.scheduleSeries.get(seriesId);
+
+  if (!series) return;
+
+  // 除外日はシリーズのタイムゾーンでの日付で持つ
+  const date = toDateKey(startTime, series.time_zone);
+  if (series.excluded_dates.includes(date)) return;
+
+  await db.scheduleSeries.update(seriesId, {
+    excluded_dates: [...series.excluded_dates, date],
+  });
+}
+
+/**
+ * シリーズのうち now 以降に始まる未報告の回を削除する。
+ * 実績報告済みの回と過去の回は履歴として残す。
+ */
+export async function deleteFutureOccurrences(
+  db: Repository,
+  seriesId: string,
+  now = new Date()
+) {
+  const { data: occurrences } = await db.schedules.listBySeries(
+    seriesId,
+    now.toISOString()
+  );
+
+  const ids =
+    occurrences
+      ?.filter((occurrence) => !occurrence.reports?.length)
+      .map((occurrence) => occurrence.id) ?? [];
+
+  if (ids.length === 0) {
+    return { error: null };
+  }
+
+  return db.schedules.delete(ids);
+}
+
+/** 展開した回を schedules に登録する */
+export async function insertOccurrences(
+  db: Repository,
+  series: Pick<ScheduleSeries, "id" | "user_id" | "location" | "description">,
+  occurrences: Occurrence[]
+) {
+  if (occurrences.length === 0) {
+    return { error: null };
+  }
+
+  return db.schedules.insert(
+    occurrences.map(({ start_time, end_time }) => ({
+      user_id: series.user_id,
+      series_id: series.id,
+      start_time,
+      end_time,
+      location: series.location,
+      description: series.description,
+    }))
+  );
+}
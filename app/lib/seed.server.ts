@@ -0,0 +1,139 @@
+import { addDays, format, startOfWeek, subDays } from "date-fns";
+import type { MemoryStore } from "./memory-repository.server";
+import type { Profile } from "./repository.server";
+import { fromZonedTime, toZonedTime } from "./timezone";
+import { organizationTimeZone } from "./timezone.server";
+
+const TEAMS = [
+  { id: "00000000-0000-0000-0000-000000000101", name: "開発チーム" },
+  { id: "00000000-0000-0000-0000-000000000102", name: "営業チーム" },
+];
+
+const PROFILES: Pick<
+  Profile,
+  "id" | "email" | "full_name" | "role" | "employment_type" | "team_id"
+>[] = [
+  {
+    id: "00000000-0000-0000-0000-000000000001",
+    email: "admin@example.com",
+    full_name: "管理 太郎",
+    role: "admin",
+    employment_type: "full_time",
+    team_id: null,
+  },
+  {
+    id: "00000000-0000-0000-0000-000000000002",
+    email: "lead@example.com",
+    full_name: "開発 花子",
+    role: "team_lead",
+    employment_type: "full_time",
+    team_id: TEAMS[0].id,
+  },
+  {
+    id: "00000000-0000-0000-0000-000000000003",
+    email: "payroll@example.com",
+    full_name: "給与 次郎",
+    role: "payroll",
+    employment_type: "contract",
+    team_id: null,
+  },
+  {
+    id: "00000000-0000-0000-0000-000000000004",
+    email: "member@example.com",
+    full_name: "山田 一郎",
+    role: "member",
+    employment_type: "part_time",
+    team_id: TEAMS[0].id,
+  },
+  {
+    id: "00000000-0000-0000-0000-000000000005",
+    email: "intern@example.com",
+    full_name: "佐藤 美咲",
+    role: "member",
+    employment_type: "intern",
+    team_id: TEAMS[1].id,
+  },
+];
+
+/**
+ * ローカル環境（DATA_BACKEND=memory）の初期データ。
+ * 今週と先週の平日に、アルバイト・インターンのメンバーの予定と提出済みの実績を作る。
+ */
+export function createSeedStore(now = new Date()): MemoryStore {
+  const createdAt = subDays(now, 30).toISOString();
+  const store: MemoryStore = {
+    profiles: PROFILES.map((profile) => ({
+      ...profile,
+      is_admin: profile.role === "admin",
+      deactivated_at: null,
+      time_zone: null,
+      created_at: createdAt,
+    })),
+    teams: TEAMS.map((team) => ({ ...team, created_at: createdAt })),
+    schedules: [],
+    schedule_series: [],
+    reports: [],
+    report_revisions: [],
+    invitations: [],
+    calendar_feeds: [],
+    notifications: [],
+    audit_logs: [],
+  };
+
+  // 予定は組織のタイムゾーンの日付・時刻で作る
+  const today = toZonedTime(now, organizationTimeZone);
+  const lastMonday = subDays(startOfWeek(today, { weekStartsOn: 1 }), 7);
+  const shifts = [
+    { userId: PROFILES[3].id, location: "本社", startTime: "10:00", endTime: "18:00" },
+    { userId: PROFILES[4].id, location: "リモート", startTime: "13:00", endTime: "17:00" },
+  ];
+
+  for (let offset = 0; offset < 12; offset++) {
+    const day = addDays(lastMonday, offset);
+    if (day.getDay() === 0 || day.getDay() === 6) continue;
+
+    for (const shift of shifts) {
+      const date = format(day, "yyyy-MM-dd");
+      const start = fromZonedTime(`${date}T${shift.startTime}`, organizationTimeZone);
+      const end = fromZonedTime(`${date}T${shift.endTime}`, organizationTimeZone);
+      const scheduleId = crypto.randomUUID();
+
+      store.schedules.push({
+        id: scheduleId,
+        user_id: shift.userId,
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        location: shift.location,
+        description: "通常業務",
+        series_id: null,
+        sequence: 0,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+
+      // 未提出の督促を試せるよう、先週水曜の1件だけ実績を出さずにおく
+      const unreported = shift.userId === PROFILES[4].id && offset === 2;
+
+      if (end < now && !unreported) {
+        store.reports.push({
+          id: crypto.randomUUID(),
+          schedule_id: scheduleId,
+          actual_start_time: start.toISOString(),
+          actual_end_time: end.toISOString(),
+          actual_location: null,
+          actual_description: "通常業務",
+          break_time: 60,
+          reflection: "予定どおり作業しました",
+          status: "submitted",
+          review_comment: null,
+          reviewed_at: null,
+          reviewed_by: null,
+          created_at: end.toISOString(),
+          updated_at: end.toISOString(),
+        });
+      }
+    }
+  }
+
+  return store;
+}
@@ -0,0 +1,45 @@
+import { createServerClient } from "@supabase/auth-helpers-remix";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+export type TypedSupabaseClient = SupabaseClient<Database>;
+
+const requireEnv = (
+  name: "SUPABASE_URL" | "SUPABASE_ANON_KEY" | "SUPABASE_SERVICE_ROLE_KEY"
+) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(
+      `環境変数 ${name} が設定されていません。.env に Supabase の接続情報を設定してください`
+    );
+  }
+  return value;
+};
+
+/**
+ * リクエストのセッション Cookie を使う Supabase クライアントを作成する。
+ * セッションの更新で Set-Cookie が必要になるため、返り値の response.headers を
+ * loader / action のレスポンスに必ず付けること。
+ */
+export function createSupabaseServerClient(request: Request) {
+  const response = new Response();
+  const supabase = createServerClient<Database>(
+    requireEnv("SUPABASE_URL"),
+    requireEnv("SUPABASE_ANON_KEY"),
+    { request, response }
+  );
+
+  return { supabase, response };
+}
+
+/**
+ * RLS を通さずに全メンバーのデータを扱う Supabase クライアント。
+ * ログインしているユーザーがいない定期実行のジョブでだけ使うこと。
+ */
+export function createSupabaseServiceClient(): TypedSupabaseClient {
+  return createClient<Database>(
+    requireEnv("SUPABASE_URL"),
+    requireEnv("SUPABASE_SERVICE_ROLE_KEY"),
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+}
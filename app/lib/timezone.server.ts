@@ -0,0 +1,14 @@
+import type { Profile } from "./repository.server";
+import { DEFAULT_TIME_ZONE, isTimeZone } from "./timezone";
+
+/**
+ * 組織のタイムゾーン。ORGANIZATION_TIME_ZONE 環境変数 (例: Asia/Tokyo) で変更できる。
+ * 個人のタイムゾーンを設定していないメンバーと、通知・シードデータの日時に使う。
+ */
+export const organizationTimeZone = isTimeZone(process.env.ORGANIZATION_TIME_ZONE)
+  ? process.env.ORGANIZATION_TIME_ZONE
+  : DEFAULT_TIME_ZONE;
+
+/** メンバーが日時を表示・入力するタイムゾーン。個人の設定が無ければ組織のタイムゾーン */
+export const resolveTimeZone = (profile: Pick<Profile, "time_zone"> | null) =>
+  profile && isTimeZone(profile.time_zone) ? profile.time_zone : organizationTimeZone;
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  formatInTimeZone,
+  fromZonedTime,
+  toDateKey,
+  toZonedRange,
+  toZonedTime,
+} from "./timezone";
+
+// 実行環境 (サーバー・ブラウザ) のタイムゾーンに左右されないことを確かめる
+describe.each(["UTC", "America/Los_Angeles", "Pacific/Kiritimati"])(
+  "実行環境のタイムゾーンが %s の場合",
+  (hostTimeZone) => {
+    beforeEach(() => {
+      vi.stubEnv("TZ", hostTimeZone);
+    });
+
+    it("実行環境のタイムゾーンを切り替えている", () => {
+      expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(hostTimeZone);
+    });
+
+    describe("fromZonedTime", () => {
+      it("オフセットの無い日時を timeZone での日時として読む", () => {
+        expect(fromZonedTime("2026-10-19T10:00", "Asia/Tokyo").toISOString()).toBe(
+          "2026-10-19T01:00:00.000Z"
+        );
+        expect(fromZonedTime("2027-01-01", "Asia/Tokyo").toISOString()).toBe(
+          "2026-12-31T15:00:00.000Z"
+        );
+      });
+
+      it("オフセットのある日時はそのまま読む", () => {
+        expect(
+          fromZonedTime("2026-10-19T10:00:00+02:00", "Asia/Tokyo").toISOString()
+        ).toBe("2026-10-19T08:00:00.000Z");
+      });
+
+      it("夏時間の開始で存在しない時刻は、切り替え後の時刻にする", () => {
+        // 2026/3/8 2:00 (EST) に 3:00 (EDT) になるため 2:30 は存在しない
+        expect(
+          fromZonedTime("2026-03-08T02:30", "America/New_York").toISOString()
+        ).toBe("2026-03-08T07:30:00.000Z");
+        // 切り替えの前後はそれぞれのずれで読む
+        expect(
+          fromZonedTime("2026-03-08T01:59", "America/New_York").toISOString()
+        ).toBe("2026-03-08T06:59:00.000Z");
+        expect(
+          fromZonedTime("2026-03-08T03:00", "America/New_York").toISOString()
+        ).toBe("2026-03-08T07:00:00.000Z");
+      });
+
+      it("夏時間の終了で2回ある時刻は、1回目 (夏時間) の時刻にする", () => {
+        expect(
+          fromZonedTime("2026-11-01T01:30", "America/New_York").toISOString()
+        ).toBe("2026-11-01T05:30:00.000Z");
+      });
+    });
+
+    describe("toZonedTime / formatInTimeZone", () => {
+      it("UTC の時点を timeZone での年月日・時刻にする", () => {
+        const date = toZonedTime("2026-12-31T15:30:00.000Z", "Asia/Tokyo");
+
+        expect([
+          date.getFullYear(),
+          date.getMonth() + 1,
+          date.getDate(),
+          date.getHours(),
+          date.getMinutes(),
+        ]).toEqual([2027, 1, 1, 0, 30]);
+      });
+
+      it("夏時間の前後で異なるずれを使う", () => {
+        expect(
+          formatInTimeZone("2026-11-01T05:30:00.000Z", "America/New_York", "HH:mm")
+        ).toBe("01:30");
+        expect(
+          formatInTimeZone("2026-11-01T06:30:00.000Z", "America/New_York", "HH:mm")
+        ).toBe("01:30");
+        expect(
+          formatInTimeZone("2026-11-01T07:30:00.000Z", "America/New_York", "HH:mm")
+        ).toBe("02:30");
+      });
+
+      it("fromZonedTime で読んだ日時を同じ日時に戻す", () => {
+        const value = "2026-07-15T23:45";
+
+        for (const timeZone of ["Asia/Tokyo", "America/New_York", "Europe/London"]) {
+          expect(
+            formatInTimeZone(fromZonedTime(value, timeZone), timeZone, "yyyy-MM-dd'T'HH:mm")
+          ).toBe(value);
+        }
+      });
+    });
+
+    describe("toDateKey", () => {
+      it("timeZone の暦の日付に振り分ける", () => {
+        // 日本時間では 1/1 0:00、UTC とニューヨークではまだ 12/31
+        expect(toDateKey("2026-12-31T15:00:00.000Z", "Asia/Tokyo")).toBe("2027-01-01");
+        expect(toDateKey("2026-12-31T14:59:59.000Z", "Asia/Tokyo")).toBe("2026-12-31");
+        expect(toDateKey("2026-12-31T15:00:00.000Z", "UTC")).toBe("2026-12-31");
+        expect(toDateKey("2026-12-31T15:00:00.000Z", "America/New_York")).toBe(
+          "2026-12-31"
+        );
+      });
+    });
+
+    describe("toZonedRange", () => {
+      it("日付の範囲を timeZone の 0時を境にした日時の範囲にする", () => {
+        expect(
+          toZonedRange({ from: "2026-10-19", to: "2026-10-26" }, "Asia/Tokyo")
+        ).toEqual({
+          from: "2026-10-18T15:00:00.000Z",
+          to: "2026-10-25T15:00:00.000Z",
+        });
+      });
+
+      it("夏時間を跨ぐ範囲は、両端をそれぞれの時点のずれで変換する", () => {
+        expect(
+          toZonedRange({ from: "2026-10-26", to: "2026-11-02" }, "America/New_York")
+        ).toEqual({
+          from: "2026-10-26T04:00:00.000Z",
+          to: "2026-11-02T05:00:00.000Z",
+        });
+      });
+    });
+  }
+);
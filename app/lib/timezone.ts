@@ -0,0 +1,135 @@
+import { format, parseISO, type FormatOptions } from "date-fns";
+
+/** 組織のタイムゾーンを指定しなかった場合に使うタイムゾーン */
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** タイムゾーン timeZone での、date 時点の UTC からのずれ（ミリ秒） */
+export const timeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    partsFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+const toDate = (value: Date | string) =>
+  typeof value === "string" ? parseISO(value) : value;
+
+/**
+ * 日時 (UTC の時点) を、timeZone での年月日・時刻を持つ実行環境の Date にする。
+ * date-fns の format や startOfWeek などに渡して、timeZone の暦で扱うために使う。
+ */
+export function toZonedTime(value: Date | string, timeZone: string) {
+  const date = toDate(value);
+  const wallClock = new Date(date.getTime() + timeZoneOffset(date, timeZone));
+
+  return new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+    wallClock.getUTCSeconds(),
+    wallClock.getUTCMilliseconds()
+  );
+}
+
+const WALL_CLOCK =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/;
+
+/**
+ * timeZone での日時（オフセットの無い yyyy-MM-dd'T'HH:mm や yyyy-MM-dd）を UTC の時点にする。
+ * datetime-local の入力値などはこれを通してから保存・比較すること。
+ * 末尾に Z や +09:00 などのオフセットがある値はそのまま読み取る。
+ * 夏時間の切り替えで存在しない時刻は、切り替え後の時刻として扱う。
+ */
+export function fromZonedTime(value: string, timeZone: string) {
+  const match = value.match(WALL_CLOCK);
+  if (!match) return parseISO(value);
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const asUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  // ずれは時点によって変わる（夏時間）ため、求めた時点のずれでもう一度合わせる
+  const guess = asUtc - timeZoneOffset(new Date(asUtc), timeZone);
+  const offset = timeZoneOffset(new Date(guess), timeZone);
+  const time = asUtc - offset;
+  if (time === guess || timeZoneOffset(new Date(time), timeZone) === offset) {
+    return new Date(time);
+  }
+  // どちらのずれでも元の時刻にならない = 存在しない時刻なので、後ろの時点にする
+  return new Date(Math.max(guess, time));
+}
+
+/** 日時 (UTC の時点) を timeZone での日時として date-fns の書式で表示する */
+export const formatInTimeZone = (
+  value: Date | string,
+  timeZone: string,
+  pattern: string,
+  options?: FormatOptions
+) => format(toZonedTime(value, timeZone), pattern, options);
+
+/** 日時の timeZone での日付 (yyyy-MM-dd)。予定や実績を日ごとに分けるときに使う */
+export const toDateKey = (value: Date | string, timeZone: string) =>
+  formatInTimeZone(value, timeZone, "yyyy-MM-dd");
+
+/** datetime-local の入力欄に入れる、timeZone での日時 (yyyy-MM-dd'T'HH:mm) */
+export const toDateTimeInputValue = (value: Date | string, timeZone: string) =>
+  formatInTimeZone(value, timeZone, "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * 日付の範囲 (yyyy-MM-dd, from 以上 to 未満) を、timeZone の 0時を境にした日時の範囲にする。
+ * 予定・実績を期間で検索するときは、日付のままではなくこれを渡すこと。
+ */
+export const toZonedRange = (
+  { from, to }: { from: string; to: string },
+  timeZone: string
+) => ({
+  from: fromZonedTime(from, timeZone).toISOString(),
+  to: fromZonedTime(to, timeZone).toISOString(),
+});
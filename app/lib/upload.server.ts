@@ -0,0 +1,8 @@
+/**
+ * フォームで送られたファイルを返す。ファイルが選択されていない (空のファイル) 場合は null。
+ * FormData の値は文字列かファイルのどちらかのため、文字列でないかどうかで判定する。
+ */
+export const getUploadedFile = (formData: FormData, name: string) => {
+  const value = formData.get(name);
+  return value && typeof value !== "string" && value.size > 0 ? value : null;
+};
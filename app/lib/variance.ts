@@ -0,0 +1,64 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+import { calculateWorkMinutes, type WorkTimeReport } from "./work-time";
+
+type VarianceReport = WorkTimeReport & {
+  actual_location?: string | null;
+  schedules: { start_time: string; end_time: string; location: string };
+};
+
+export type ReportVariance = {
+  /** 予定の時間（分） */
+  plannedMinutes: number;
+  /** 休憩を除いた実働時間（分） */
+  actualMinutes: number;
+  /** 予定より遅く開始した時間（分） */
+  lateMinutes: number;
+  /** 予定より早く終了した時間（分） */
+  earlyLeaveMinutes: number;
+  /** 予定の終了より後まで勤務した時間（分） */
+  overtimeMinutes: number;
+  /** 予定と異なる場所で勤務した場合の実際の場所 */
+  changedLocation: string | null;
+};
+
+/** 予定と実績の差異を計算する */
+export function calculateVariance(report: VarianceReport): ReportVariance {
+  const plannedStart = parseISO(report.schedules.start_time);
+  const plannedEnd = parseISO(report.schedules.end_time);
+  const actualStart = parseISO(report.actual_start_time);
+  const actualEnd = parseISO(report.actual_end_time);
+  const endDiff = differenceInMinutes(actualEnd, plannedEnd);
+
+  return {
+    plannedMinutes: differenceInMinutes(plannedEnd, plannedStart),
+    actualMinutes: calculateWorkMinutes(report),
+    lateMinutes: Math.max(differenceInMinutes(actualStart, plannedStart), 0),
+    earlyLeaveMinutes: Math.max(-endDiff, 0),
+    overtimeMinutes: Math.max(endDiff, 0),
+    changedLocation:
+      report.actual_location && report.actual_location !== report.schedules.location
+        ? report.actual_location
+        : null,
+  };
+}
+
+/**
+ * メンバーの月次の差異を集計する。
+ * 時間厳守率は、遅刻も早退もなかった実績の割合（実績が無ければ null）。
+ */
+export function summarizeVariance(reports: VarianceReport[]) {
+  const variances = reports.map(calculateVariance);
+  const punctual = variances.filter(
+    (variance) => variance.lateMinutes === 0 && variance.earlyLeaveMinutes === 0
+  ).length;
+
+  return {
+    plannedMinutes: variances.reduce((sum, v) => sum + v.plannedMinutes, 0),
+    actualMinutes: variances.reduce((sum, v) => sum + v.actualMinutes, 0),
+    lateCount: variances.filter((v) => v.lateMinutes > 0).length,
+    earlyLeaveCount: variances.filter((v) => v.earlyLeaveMinutes > 0).length,
+    overtimeMinutes: variances.reduce((sum, v) => sum + v.overtimeMinutes, 0),
+    locationChangeCount: variances.filter((v) => v.changedLocation).length,
+    punctualityRate: variances.length > 0 ? punctual / variances.length : null,
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  isValid,
+  parse,
+  startOfWeek,
+} from "date-fns";
+
+const WEEK_FORMAT = "RRRR-'W'II";
+const DATE_FORMAT = "yyyy-MM-dd";
+const MAX_RANGE_DAYS = 42;
+
+export type ScheduleRange = {
+  /** 表示開始日 (yyyy-MM-dd) */
+  from: string;
+  /** 表示終了日の翌日 (yyyy-MM-dd, この日を含まない) */
+  to: string;
+  /** 週指定で表示している場合の ISO 週 (例: 2026-W42) */
+  week: string | null;
+  prevSearch: string;
+  nextSearch: string;
+};
+
+const parseDate = (value: string | null) => {
+  if (!value) return null;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+const parseWeek = (value: string | null) => {
+  if (!value) return null;
+  const date = parse(value, WEEK_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+/** date を含む週を表示する検索パラメータ (?week=YYYY-Www) */
+export const toWeekSearch = (date: Date) =>
+  `?${new URLSearchParams({ week: format(date, WEEK_FORMAT) })}`;
+
+const toRangeSearch = (from: Date, to: Date) =>
+  `?${new URLSearchParams({
+    from: format(from, DATE_FORMAT),
+    to: format(addDays(to, -1), DATE_FORMAT),
+  })}`;
+
+/**
+ * 予定表の表示期間を検索パラメータから決定する。
+ * `?week=YYYY-Www` で週指定、`?from=yyyy-MM-dd&to=yyyy-MM-dd` (to を含む) で任意期間を指定できる。
+ * どちらも無い・不正な場合は today を含む週 (月曜始まり) を返す。
+ */
+export function parseScheduleRange(
+  searchParams: URLSearchParams,
+  today = new Date()
+): ScheduleRange {
+  const from = parseDate(searchParams.get("from"));
+  const to = parseDate(searchParams.get("to"));
+
+  if (from && to && differenceInCalendarDays(to, from) >= 0) {
+    const days = Math.min(differenceInCalendarDays(to, from) + 1, MAX_RANGE_DAYS);
+    const end = addDays(from, days);
+
+    return {
+      from: format(from, DATE_FORMAT),
+      to: format(end, DATE_FORMAT),
+      week: null,
+      prevSearch: toRangeSearch(addDays(from, -days), from),
+      nextSearch: toRangeSearch(end, addDays(end, days)),
+    };
+  }
+
+  const weekStart = startOfWeek(parseWeek(searchParams.get("week")) ?? today, {
+    weekStartsOn: 1,
+  });
+
+  return {
+    from: format(weekStart, DATE_FORMAT),
+    to: format(addDays(weekStart, 7), DATE_FORMAT),
+    week: format(weekStart, WEEK_FORMAT),
+    prevSearch: toWeekSearch(addDays(weekStart, -7)),
+    nextSearch: toWeekSearch(addDays(weekStart, 7)),
+  };
+}
+
+/** 表示期間に含まれる日付を先頭から順に返す */
+export function eachDayOfRange({ from, to }: Pick<ScheduleRange, "from" | "to">) {
+  const start = parse(from, DATE_FORMAT, new Date());
+  const days = differenceInCalendarDays(parse(to, DATE_FORMAT, new Date()), start);
+  return [...Array(days)].map((_, i) => addDays(start, i));
+}
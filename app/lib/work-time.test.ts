@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildReportTimes,
+  calculateWorkMinutes,
+  formatWorkMinutes,
+  sumBreakMinutes,
+  sumWorkMinutes,
+} from "./work-time";
+
+describe("calculateWorkMinutes", () => {
+  it("開始から終了までの時間から休憩時間を差し引く", () => {
+    expect(
+      calculateWorkMinutes({
+        actual_start_time: "2026-10-19T01:00:00.000Z",
+        actual_end_time: "2026-10-19T09:00:00.000Z",
+        break_time: 60,
+      })
+    ).toBe(420);
+  });
+
+  it("文字列の休憩時間 (numeric 型の列) も分として扱う", () => {
+    expect(
+      calculateWorkMinutes({
+        actual_start_time: "2026-10-19T01:00:00.000Z",
+        actual_end_time: "2026-10-19T05:30:00.000Z",
+        break_time: "45",
+      })
+    ).toBe(225);
+  });
+
+  it("日付を跨いだ勤務も通しで計算する", () => {
+    expect(
+      calculateWorkMinutes({
+        actual_start_time: "2026-10-19T13:00:00.000Z",
+        actual_end_time: "2026-10-19T21:00:00.000Z",
+        break_time: 0,
+      })
+    ).toBe(480);
+  });
+
+  it("休憩時間が勤務時間以上なら 0 以下になる", () => {
+    expect(
+      calculateWorkMinutes({
+        actual_start_time: "2026-10-19T01:00:00.000Z",
+        actual_end_time: "2026-10-19T02:00:00.000Z",
+        break_time: 60,
+      })
+    ).toBe(0);
+  });
+});
+
+describe("sumWorkMinutes / sumBreakMinutes", () => {
+  const reports = [
+    {
+      actual_start_time: "2026-10-19T01:00:00.000Z",
+      actual_end_time: "2026-10-19T09:00:00.000Z",
+      break_time: 60,
+    },
+    {
+      actual_start_time: "2026-10-20T04:00:00.000Z",
+      actual_end_time: "2026-10-20T08:00:00.000Z",
+      break_time: "15",
+    },
+  ];
+
+  it("実働時間と休憩時間をそれぞれ合計する", () => {
+    expect(sumWorkMinutes(reports)).toBe(420 + 225);
+    expect(sumBreakMinutes(reports)).toBe(75);
+  });
+});
+
+describe("formatWorkMinutes", () => {
+  it("時間と分に分けて表示し、負の値には - を付ける", () => {
+    expect(formatWorkMinutes(645)).toBe("10時間45分");
+    expect(formatWorkMinutes(-30)).toBe("-0時間30分");
+  });
+});
+
+describe("buildReportTimes", () => {
+  it("予定の日付 (予定のタイムゾーンの暦) と時刻を組み合わせる", () => {
+    // 日本時間 10/20 00:30 の予定は、UTC では 10/19
+    expect(
+      buildReportTimes("2026-10-19T15:30:00.000Z", "00:30", "08:00", "Asia/Tokyo")
+    ).toEqual({
+      actual_start_time: "2026-10-19T15:30:00.000Z",
+      actual_end_time: "2026-10-19T23:00:00.000Z",
+    });
+  });
+
+  it("終了時刻が開始時刻以前なら翌日の終了とみなす", () => {
+    const times = buildReportTimes(
+      "2026-10-19T13:00:00.000Z",
+      "22:00",
+      "06:00",
+      "Asia/Tokyo"
+    );
+
+    expect(times).toEqual({
+      actual_start_time: "2026-10-19T13:00:00.000Z",
+      actual_end_time: "2026-10-19T21:00:00.000Z",
+    });
+    expect(calculateWorkMinutes({ ...times, break_time: 60 })).toBe(420);
+  });
+
+  it("夏時間の切り替えを跨ぐ夜勤は実際の経過時間で計算する", () => {
+    // 2026/11/1 2:00 (夏時間の終了) を跨ぐため、22:00〜6:00 は9時間
+    const times = buildReportTimes(
+      "2026-11-01T02:00:00.000Z",
+      "22:00",
+      "06:00",
+      "America/New_York"
+    );
+
+    expect(times).toEqual({
+      actual_start_time: "2026-11-01T02:00:00.000Z",
+      actual_end_time: "2026-11-01T11:00:00.000Z",
+    });
+    expect(calculateWorkMinutes({ ...times, break_time: 30 })).toBe(510);
+  });
+});
@@ -0,0 +1,66 @@
+import { differenceInMinutes, parseISO } from "date-fns";
+import { toShiftTimes } from "./recurrence";
+import { toDateKey } from "./timezone";
+
+export type WorkTimeReport = {
+  actual_start_time: string;
+  actual_end_time: string;
+  break_time: string | number;
+};
+
+/**
+ * 実績の実働時間（分）を返す。開始から終了までの時間から休憩時間を差し引く。
+ * 実績報告画面・実績管理画面・エクスポートで同じ計算を使うこと。
+ */
+export function calculateWorkMinutes(report: WorkTimeReport) {
+  return (
+    differenceInMinutes(
+      parseISO(report.actual_end_time),
+      parseISO(report.actual_start_time)
+    ) - Number(report.break_time)
+  );
+}
+
+/** 複数の実績の実働時間（分）の合計を返す */
+export function sumWorkMinutes(reports: WorkTimeReport[]) {
+  return reports.reduce((sum, report) => sum + calculateWorkMinutes(report), 0);
+}
+
+/** 複数の実績の休憩時間（分）の合計を返す */
+export function sumBreakMinutes(reports: Pick<WorkTimeReport, "break_time">[]) {
+  return reports.reduce((sum, report) => sum + Number(report.break_time), 0);
+}
+
+/**
+ * 分を「X時間Y分」の形式で表示する。
+ * 画面では表示言語に合わせるため、useI18n() の formatDuration を使うこと。
+ */
+export function formatWorkMinutes(
+  minutes: number,
+  unit: (hours: number, minutes: number) => string = (hours, rest) =>
+    `${hours}時間${rest}分`
+) {
+  const sign = minutes < 0 ? "-" : "";
+  const abs = Math.abs(minutes);
+  return `${sign}${unit(Math.floor(abs / 60), abs % 60)}`;
+}
+
+/**
+ * 実績報告の開始・終了時刻 (timeZone での HH:mm) を、予定の timeZone での日付と組み合わせて日時にする。
+ * 終了時刻が開始時刻以前の場合は日付を跨いだ勤務とみなす。
+ */
+export function buildReportTimes(
+  scheduleStartTime: string,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+) {
+  const { start_time, end_time } = toShiftTimes(
+    toDateKey(scheduleStartTime, timeZone),
+    startTime,
+    endTime,
+    timeZone
+  );
+
+  return { actual_start_time: start_time, actual_end_time: end_time };
+}
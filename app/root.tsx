@@ -1,11 +1,17 @@
 import {
+  isRouteErrorResponse,
+  Link,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteError,
+  useRouteLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import { json, type LinksFunction, type LoaderFunctionArgs } from "@remix-run/node";
+import { DEFAULT_LOCALE, useI18n } from "~/lib/i18n";
+import { getLocale } from "~/lib/i18n.server";
 
 import "./tailwind.css";
 
@@ -22,9 +28,15 @@ export const links: LinksFunction = () => [
   },
 ];
 
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return json({ locale: await getLocale(request) });
+};
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const data = useRouteLoaderData<typeof loader>("root");
+
   return (
-    <html lang="en">
+    <html lang={data?.locale ?? DEFAULT_LOCALE}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -43,3 +55,41 @@ export function Layout({ children }: { children: React.ReactNode }) {
 export default function App() {
   return <Outlet />;
 }
+
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const { t } = useI18n();
+  const status = isRouteErrorResponse(error) ? error.status : 500;
+  const data = isRouteErrorResponse(error) ? error.data : null;
+  const message =
+    typeof data?.message === "string"
+      ? data.message
+      : typeof data?.reason === "string"
+        ? (t.errorPage.reasons[data.reason] ?? null)
+        : null;
+
+  const title =
+    status === 401
+      ? t.errorPage.unauthorized
+      : status === 403
+        ? t.errorPage.forbidden
+        : status === 404
+          ? t.errorPage.notFound
+          : t.errorPage.unexpected;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full text-center space-y-4">
+        <div className="text-5xl font-bold text-gray-300">{status}</div>
+        <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+        {message && <p className="text-gray-600">{message}</p>}
+        <Link
+          to={status === 401 ? "/login" : "/schedule"}
+          className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          {status === 401 ? t.errorPage.toLogin : t.errorPage.toSchedule}
+        </Link>
+      </div>
+    </div>
+  );
+}
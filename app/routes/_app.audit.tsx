@@ -0,0 +1,206 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useLoaderData, useLocation } from "@remix-run/react";
+import { Download, Search } from "lucide-react";
+import { AUDIT_ENTITY_TYPES, describeAuditChanges } from "~/lib/audit";
+import { parseAuditFilter } from "~/lib/audit.server";
+import { requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n } from "~/lib/i18n";
+import { resolveTimeZone } from "~/lib/timezone.server";
+
+/** 画面に表示する件数。それより古いものは CSV で確認する */
+const AUDIT_LOG_LIMIT = 200;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "audit:view");
+
+  const { filter, values } = parseAuditFilter(
+    new URL(request.url).searchParams,
+    resolveTimeZone(profile)
+  );
+
+  const [{ data: logs }, { data: members }, { data: teams }] = await Promise.all([
+    db.auditLogs.list({ ...filter, limit: AUDIT_LOG_LIMIT }),
+    db.profiles.list(),
+    db.teams.list(),
+  ]);
+
+  return json(
+    {
+      logs: logs ?? [],
+      members: members ?? [],
+      teams: teams ?? [],
+      values,
+    },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+export default function AuditLogs() {
+  const { logs, members, teams, values } = useLoaderData<typeof loader>();
+  const location = useLocation();
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+
+  const teamNames = Object.fromEntries(teams.map((team) => [team.id, team.name]));
+  const memberNames = Object.fromEntries(
+    members.map((member) => [member.id, member.full_name])
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">{t.audit.title}</h1>
+        <a
+          href={`/audit/export${location.search}`}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </a>
+      </div>
+
+      <Form
+        method="get"
+        className="mb-6 bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4 text-sm"
+      >
+        <div>
+          <label htmlFor="member" className="block font-medium mb-1">
+            {t.audit.member}
+          </label>
+          <select
+            id="member"
+            name="member"
+            defaultValue={values.member}
+            className="rounded border-gray-300"
+          >
+            <option value="">{t.common.all}</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.full_name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="entity" className="block font-medium mb-1">
+            {t.audit.entity}
+          </label>
+          <select
+            id="entity"
+            name="entity"
+            defaultValue={values.entity}
+            className="rounded border-gray-300"
+          >
+            <option value="">{t.common.all}</option>
+            {AUDIT_ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t.auditEntities[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="from" className="block font-medium mb-1">
+            {t.audit.period}
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={values.from}
+              className="rounded border-gray-300"
+            />
+            <span>{t.audit.periodSeparator}</span>
+            <input
+              name="to"
+              type="date"
+              defaultValue={values.to}
+              aria-label={t.audit.periodEnd}
+              className="rounded border-gray-300"
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Search className="w-4 h-4" />
+          {t.common.filter}
+        </button>
+      </Form>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.audit.dateTime}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.audit.actor}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.audit.entity}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.audit.action}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.audit.changes}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200 text-sm">
+            {logs.map((log) => (
+              <tr key={log.id} className="align-top">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {formatDate(log.created_at, "dateTimeSeconds")}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {log.actor?.full_name ?? t.audit.deletedMember}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {t.auditEntities[log.entity_type]}
+                  {log.entity_type === "member" && log.entity_id && (
+                    <span className="ml-1 text-gray-500">
+                      {memberNames[log.entity_id]}
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {t.auditActions[log.action]}
+                </td>
+                <td className="px-6 py-4 text-gray-700">
+                  <ul>
+                    {describeAuditChanges(log, i18n, teamNames).map((change) => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                </td>
+              </tr>
+            ))}
+            {logs.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  {t.audit.empty}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {logs.length === AUDIT_LOG_LIMIT && (
+        <p className="mt-2 text-sm text-gray-500">
+          {t.audit.limitNote(AUDIT_LOG_LIMIT)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useLoaderData } from "@remix-run/react";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight, MapPin, Search } from "lucide-react";
+import { requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n } from "~/lib/i18n";
+import { can } from "~/lib/permissions";
+import { formatInTimeZone, toZonedTime } from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import { eachDayOfRange, parseScheduleRange } from "~/lib/week";
+
+type BoardEntry = {
+  id: string;
+  user_id: string;
+  /** 予定の日付 (yyyy-MM-dd) */
+  date: string;
+  location: string;
+  /** 時刻は他のメンバーの予定を閲覧できる権限がある場合のみ */
+  time: string | null;
+};
+
+const dayKey = (day: Date) => format(day, "yyyy-MM-dd");
+
+/**
+ * 出勤ボード。メンバーを行、日付を列にして、誰がいつどこで勤務するかを表示する。
+ * 一般のメンバーには場所だけを、予定を閲覧できる権限があれば時刻も表示する。
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "schedules:own");
+  const showDetails = can(profile.role, "schedules:view_all");
+  // 予定は閲覧しているメンバーのタイムゾーンの日付に振り分ける
+  const timeZone = resolveTimeZone(profile);
+
+  const url = new URL(request.url);
+  const range = parseScheduleRange(
+    url.searchParams,
+    toZonedTime(new Date(), timeZone)
+  );
+  const location = url.searchParams.get("location") ?? "";
+  const teamId = url.searchParams.get("team") ?? "";
+
+  const [{ data: members }, { data: schedules }, { data: teams }] =
+    await Promise.all([
+      db.board.members(),
+      db.board.schedules({ from: range.from, to: range.to, timeZone }),
+      db.teams.list(),
+    ]);
+
+  const locations = [
+    ...new Set((schedules ?? []).map((schedule) => schedule.location)),
+  ].sort((a, b) => a.localeCompare(b, "ja"));
+
+  const entries: BoardEntry[] = (schedules ?? [])
+    .filter((schedule) => !location || schedule.location === location)
+    .map((schedule) => ({
+      id: schedule.id,
+      user_id: schedule.user_id,
+      date: schedule.date,
+      location: schedule.location,
+      time:
+        showDetails && schedule.start_time && schedule.end_time
+          ? `${formatInTimeZone(
+              schedule.start_time,
+              timeZone,
+              "HH:mm"
+            )}-${formatInTimeZone(schedule.end_time, timeZone, "HH:mm")}`
+          : null,
+    }));
+
+  // 場所で絞り込んだ場合は、その場所に予定のあるメンバーだけを表示する
+  const boardMembers = (members ?? []).filter(
+    (member) =>
+      (!teamId || member.team_id === teamId) &&
+      (!location || entries.some((entry) => entry.user_id === member.id))
+  );
+
+  return json(
+    {
+      range,
+      members: boardMembers,
+      entries,
+      teams: teams ?? [],
+      locations,
+      filters: { location, team: teamId },
+      showDetails,
+    },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+export default function Board() {
+  const { range, members, entries, teams, locations, filters, showDetails } =
+    useLoaderData<typeof loader>();
+  const { t, formatPlainDate } = useI18n();
+  const days = eachDayOfRange(range);
+  const lastDay = dayKey(days[days.length - 1]);
+  const teamNames = Object.fromEntries(teams.map((team) => [team.id, team.name]));
+
+  // 期間を移動しても絞り込みを保つ
+  const withFilters = (search: string) => {
+    const params = new URLSearchParams(search);
+    if (filters.location) params.set("location", filters.location);
+    if (filters.team) params.set("team", filters.team);
+    return `?${params}`;
+  };
+
+  const entriesFor = (userId: string, date: string) =>
+    entries.filter((entry) => entry.user_id === userId && entry.date === date);
+
+  const headcount = (date: string) =>
+    members.filter((member) => entriesFor(member.id, date).length > 0).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold">{t.board.title}</h1>
+          <div className="flex items-center gap-1">
+            <Link
+              to={withFilters(range.prevSearch)}
+              className="p-1 rounded hover:bg-gray-200"
+              aria-label={t.schedule.previous}
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </Link>
+            <Link
+              to={withFilters("")}
+              className="px-3 py-1 rounded border border-gray-300 text-sm hover:bg-gray-200"
+            >
+              {t.schedule.thisWeek}
+            </Link>
+            <Link
+              to={withFilters(range.nextSearch)}
+              className="p-1 rounded hover:bg-gray-200"
+              aria-label={t.schedule.next}
+            >
+              <ChevronRight className="w-5 h-5" />
+            </Link>
+          </div>
+          <span className="text-gray-600">
+            {formatPlainDate(days[0], "rangeStart")} -{" "}
+            {formatPlainDate(days[days.length - 1], "rangeEnd")}
+          </span>
+        </div>
+      </div>
+
+      <Form
+        method="get"
+        className="mb-6 bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4 text-sm"
+      >
+        {range.week ? (
+          <input type="hidden" name="week" value={range.week} />
+        ) : (
+          <>
+            <input type="hidden" name="from" value={range.from} />
+            <input type="hidden" name="to" value={lastDay} />
+          </>
+        )}
+        <div>
+          <label htmlFor="location" className="block font-medium mb-1">
+            {t.common.location}
+          </label>
+          <select
+            id="location"
+            name="location"
+            defaultValue={filters.location}
+            className="rounded border-gray-300"
+          >
+            <option value="">{t.common.all}</option>
+            {locations.map((location) => (
+              <option key={location} value={location}>
+                {location}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="team" className="block font-medium mb-1">
+            {t.board.team}
+          </label>
+          <select
+            id="team"
+            name="team"
+            defaultValue={filters.team}
+            className="rounded border-gray-300"
+          >
+            <option value="">{t.common.all}</option>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+        >
+          <Search className="w-4 h-4" />
+          {t.common.filter}
+        </button>
+      </Form>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">
+                {t.board.member}
+              </th>
+              {days.map((day) => (
+                <th
+                  key={day.toISOString()}
+                  className={`px-4 py-3 text-center text-xs font-medium uppercase tracking-wider ${
+                    day.getDay() === 0 || day.getDay() === 6
+                      ? "text-red-500"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {formatPlainDate(day, "weekday")}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {members.map((member) => (
+              <tr key={member.id}>
+                <td className="px-4 py-3 whitespace-nowrap sticky left-0 bg-white">
+                  {showDetails ? (
+                    <Link
+                      to={`/schedule?${new URLSearchParams({
+                        ...(range.week
+                          ? { week: range.week }
+                          : { from: range.from, to: lastDay }),
+                        user: member.id,
+                      })}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {member.full_name}
+                    </Link>
+                  ) : (
+                    member.full_name
+                  )}
+                  {member.team_id && teamNames[member.team_id] && (
+                    <div className="text-xs text-gray-500">
+                      {teamNames[member.team_id]}
+                    </div>
+                  )}
+                </td>
+                {days.map((day) => (
+                  <td key={day.toISOString()} className="px-2 py-2 align-top">
+                    <div className="space-y-1">
+                      {entriesFor(member.id, dayKey(day)).map((entry) => (
+                        <div
+                          key={entry.id}
+                          className="px-2 py-1 rounded bg-blue-50 border border-blue-200 text-xs"
+                        >
+                          <div className="flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {entry.location}
+                          </div>
+                          {entry.time && (
+                            <div className="text-gray-600">{entry.time}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {members.length === 0 && (
+              <tr>
+                <td
+                  colSpan={days.length + 1}
+                  className="px-6 py-8 text-center text-gray-500"
+                >
+                  {t.board.noMembers}
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-50 font-medium">
+              <td className="px-4 py-3 sticky left-0 bg-gray-50">
+                {t.board.headcount}
+              </td>
+              {days.map((day) => (
+                <td key={day.toISOString()} className="px-4 py-3 text-center">
+                  {t.people(headcount(dayKey(day)))}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { ja } from "~/lib/locales/ja";
+import { memoryStore, post, signIn } from "../../test/server";
+import { action } from "./_app.members";
+
+const MEMBER_ID = "00000000-0000-0000-0000-000000000004";
+const ADMIN_ID = "00000000-0000-0000-0000-000000000001";
+
+const profile = (id: string) =>
+  memoryStore().profiles.find((profile) => profile.id === id)!;
+
+describe("members action: invite", () => {
+  const invite = { intent: "invite", email: "new.member@example.com", full_name: "新人 三郎" };
+
+  it("未ログインなら 401 を返す", async () => {
+    const response = await post(action, "/members", invite);
+
+    expect(response.status).toBe(401);
+    expect(memoryStore().invitations).toHaveLength(0);
+  });
+
+  it.each(["member@example.com", "lead@example.com", "payroll@example.com"])(
+    "管理者以外 (%s) は招待できない",
+    async (email) => {
+      const response = await post(action, "/members", invite, await signIn(email));
+
+      expect(response.status).toBe(403);
+      expect(memoryStore().invitations).toHaveLength(0);
+    }
+  );
+
+  it("管理者は名簿にいるメンバーを招待できる", async () => {
+    const response = await post(
+      action,
+      "/members",
+      invite,
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(memoryStore().invitations).toMatchObject([
+      { email: "new.member@example.com", full_name: "新人 三郎", invited_by: ADMIN_ID },
+    ]);
+  });
+
+  it("名簿にいないメールアドレスは招待できない", async () => {
+    const response = await post(
+      action,
+      "/members",
+      { ...invite, email: "stranger@example.com" },
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({
+      errors: { email: [ja.members.errors.notInDirectory(ja.members.directories.local)] },
+    });
+    expect(memoryStore().invitations).toHaveLength(0);
+  });
+
+  it("登録済みのメンバーは招待できない", async () => {
+    const response = await post(
+      action,
+      "/members",
+      { ...invite, email: "member@example.com" },
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({
+      errors: { email: [ja.members.errors.alreadyMember] },
+    });
+    expect(memoryStore().invitations).toHaveLength(0);
+  });
+});
+
+describe("members action: deactivate", () => {
+  const deactivate = (userId: string) => ({ intent: "deactivate", user_id: userId });
+
+  it("管理者以外はメンバーを無効化できない", async () => {
+    const response = await post(
+      action,
+      "/members",
+      deactivate(MEMBER_ID),
+      await signIn("lead@example.com")
+    );
+
+    expect(response.status).toBe(403);
+    expect(profile(MEMBER_ID).deactivated_at).toBeNull();
+  });
+
+  it("管理者はメンバーを無効化でき、監査ログに記録される", async () => {
+    const response = await post(
+      action,
+      "/members",
+      deactivate(MEMBER_ID),
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(profile(MEMBER_ID).deactivated_at).not.toBeNull();
+    expect(memoryStore().audit_logs).toMatchObject([
+      { action: "deactivate", entity_type: "member", entity_id: MEMBER_ID },
+    ]);
+  });
+
+  it("自分自身は無効化できない", async () => {
+    const response = await post(
+      action,
+      "/members",
+      deactivate(ADMIN_ID),
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({
+      error: ja.members.errors.deactivateSelf,
+      memberId: ADMIN_ID,
+    });
+    expect(profile(ADMIN_ID).deactivated_at).toBeNull();
+  });
+
+  it("無効化された管理者は操作できない", async () => {
+    const cookie = await signIn("admin@example.com");
+    profile(ADMIN_ID).deactivated_at = new Date().toISOString();
+
+    const response = await post(action, "/members", deactivate(MEMBER_ID), cookie);
+
+    expect(response.status).toBe(403);
+    expect(profile(MEMBER_ID).deactivated_at).toBeNull();
+  });
+});
@@ -1,38 +1,67 @@
 import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
 import { Form, useActionData, useLoaderData } from "@remix-run/react";
-import { createServerClient } from "@supabase/auth-helpers-remix";
-import { UserPlus, Trash2 } from "lucide-react";
+import { FileUp, Pencil, RefreshCw, UserCheck, UserPlus, UserX } from "lucide-react";
+import { useEffect } from "react";
 import { z } from "zod";
+import { recordAudit } from "~/lib/audit.server";
+import { authCallbackUrl, requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { parseCsv } from "~/lib/csv";
+import { getMemberDirectory, type DirectoryMember } from "~/lib/directory.server";
+import { useI18n, type Messages } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import {
+  INVITATION_STATUS_STYLES,
+  invitationStatus,
+  MAX_BULK_INVITES,
+  type BulkInviteResult,
+} from "~/lib/invitations";
+import { inviteMember, resendInvitation } from "~/lib/invitations.server";
+import { EMPLOYMENT_TYPES, type EmploymentType } from "~/lib/members";
+import { checkLastAdmin } from "~/lib/members.server";
+import { ROLES, type Role } from "~/lib/permissions";
+import { isTimeZone } from "~/lib/timezone";
+import { organizationTimeZone } from "~/lib/timezone.server";
+import { getUploadedFile } from "~/lib/upload.server";
 
-const inviteSchema = z.object({
-  email: z.string().email("有効なメールアドレスを入力してください"),
-  full_name: z.string().min(1, "名前を入力してください"),
-});
+const inviteSchema = (t: Messages) =>
+  z.object({
+    email: z.string().email(t.validation.email),
+    full_name: z.string().min(1, t.validation.fullName),
+  });
+
+const memberSchema = (t: Messages) =>
+  inviteSchema(t).extend({
+    role: z.enum(ROLES as [Role, ...Role[]], {
+      errorMap: () => ({ message: t.validation.role }),
+    }),
+    employment_type: z.enum(EMPLOYMENT_TYPES as [EmploymentType, ...EmploymentType[]], {
+      errorMap: () => ({ message: t.validation.employmentType }),
+    }),
+    team_id: z
+      .string()
+      .nullable()
+      .transform((value) => value || null),
+    // 空欄なら組織のタイムゾーンを使う
+    time_zone: z
+      .string()
+      .nullable()
+      .transform((value) => value?.trim() || null)
+      .refine((value) => value === null || isTimeZone(value), t.validation.timeZone),
+  });
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
-  );
+  const context = createServerContext(request);
+  const { db } = context;
 
-  const { data: { user } } = await supabase.auth.getUser();
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user?.id)
-    .single();
-
-  if (!profile?.is_admin) {
-    return json({ error: "管理者以外は実行できません" });
-  }
+  const { user } = await requirePermission(context, "members:manage");
+  const { t } = await getI18n(request);
 
   const formData = await request.formData();
   const intent = formData.get("intent");
 
   if (intent === "invite") {
-    const result = inviteSchema.safeParse({
+    const result = inviteSchema(t).safeParse({
       email: formData.get("email"),
       full_name: formData.get("full_name"),
     });
@@ -41,65 +70,339 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json({ errors: result.error.flatten().fieldErrors });
     }
 
-    // 本来はここでSlack APIを使用してワークスペースのメンバーかどうかを確認する
-    // 今回は省略してメール認証のみで招待を行う
+    const { error, field, invitationId } = await inviteMember(
+      context,
+      getMemberDirectory(),
+      {
+        ...result.data,
+        invitedBy: user.id,
+        redirectTo: authCallbackUrl(request, "/set-password"),
+      },
+      t
+    );
+
+    if (error) {
+      return field
+        ? json({ errors: { [field]: [error] } })
+        : json({ error, invite: true });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "invite",
+        entityType: "invitation",
+        entityId: invitationId ?? null,
+        after: result.data,
+      },
+    ]);
+  }
+
+  if (intent === "bulk-invite") {
+    const file = getUploadedFile(formData, "file");
+    if (!file) {
+      return json({ error: t.members.errors.csvFileRequired, invite: true });
+    }
+
+    const rows = parseCsv(await file.text());
+    // 1行目がヘッダー（メールアドレスを含まない行）なら読み飛ばす
+    const start = rows[0] && !rows[0].some((cell) => cell.includes("@")) ? 1 : 0;
+    const targets = rows.slice(start);
+
+    if (targets.length === 0) {
+      return json({ error: t.members.errors.noInvitees, invite: true });
+    }
+    if (targets.length > MAX_BULK_INVITES) {
+      return json({
+        error: t.members.errors.tooManyInvitees(MAX_BULK_INVITES),
+        invite: true,
+      });
+    }
+
+    const directory = getMemberDirectory();
+    const redirectTo = authCallbackUrl(request, "/set-password");
+    const seen = new Set<string>();
+    const results: BulkInviteResult[] = [];
+
+    // 招待メールの送信制限に掛からないよう、1件ずつ順に処理する
+    for (const [index, [email = "", full_name = ""]] of targets.entries()) {
+      const row = start + index + 1;
+      const parsed = inviteSchema(t).safeParse({
+        email: email.trim(),
+        full_name: full_name.trim(),
+      });
 
-    const { error: signupError } = await supabase.auth.signInWithOtp({
-      email: result.data.email,
-      options: {
-        data: {
-          full_name: result.data.full_name,
+      if (!parsed.success) {
+        const fieldErrors = parsed.error.flatten().fieldErrors;
+        results.push({
+          row,
+          email,
+          full_name,
+          status: "failed",
+          message: (fieldErrors.email ?? fieldErrors.full_name ?? [])[0] ?? "",
+        });
+        continue;
+      }
+
+      const key = parsed.data.email.toLowerCase();
+      if (seen.has(key)) {
+        results.push({
+          row,
+          ...parsed.data,
+          status: "skipped",
+          message: t.members.duplicateInCsv,
+        });
+        continue;
+      }
+      seen.add(key);
+
+      const { error, invitationId } = await inviteMember(
+        context,
+        directory,
+        {
+          ...parsed.data,
+          invitedBy: user.id,
+          redirectTo,
         },
+        t
+      );
+
+      if (!error) {
+        await recordAudit(db, user.id, [
+          {
+            action: "invite",
+            entityType: "invitation",
+            entityId: invitationId ?? null,
+            after: parsed.data,
+          },
+        ]);
+      }
+
+      results.push({
+        row,
+        ...parsed.data,
+        status: error ? "failed" : "invited",
+        message: error ?? t.members.invited,
+      });
+    }
+
+    return json({ bulkResults: results });
+  }
+
+  if (intent === "resend-invitation") {
+    const invitationId = formData.get("invitation_id") as string;
+    const { error, invitation } = await resendInvitation(
+      context,
+      invitationId,
+      authCallbackUrl(request, "/set-password"),
+      t
+    );
+
+    if (error) {
+      return json({ error, invitationId });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "resend",
+        entityType: "invitation",
+        entityId: invitationId,
+        after: invitation,
       },
+    ]);
+  }
+
+  if (intent === "revoke-invitation") {
+    const invitationId = formData.get("invitation_id") as string;
+
+    const { data: invitation } = await db.invitations.getOpen(invitationId);
+
+    if (!invitation) {
+      return json({ error: t.members.errors.invitationNotFound, invitationId });
+    }
+
+    const values = { revoked_at: new Date().toISOString() };
+    const { error } = await db.invitations.update(invitationId, values);
+
+    if (error) {
+      return json({ error: t.members.errors.revoke, invitationId });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "revoke",
+        entityType: "invitation",
+        entityId: invitationId,
+        before: invitation,
+        after: { ...invitation, ...values },
+      },
+    ]);
+  }
+
+  if (intent === "update") {
+    const memberId = formData.get("user_id") as string;
+    const result = memberSchema(t).safeParse({
+      full_name: formData.get("full_name"),
+      email: formData.get("email"),
+      role: formData.get("role"),
+      employment_type: formData.get("employment_type"),
+      team_id: formData.get("team_id"),
+      time_zone: formData.get("time_zone"),
     });
 
-    if (signupError) {
-      return json({ error: "招待メールの送信に失敗しました" });
+    if (!result.success) {
+      return json({ errors: result.error.flatten().fieldErrors, memberId });
+    }
+
+    const { data: member } = await db.profiles.get(memberId);
+
+    if (!member) {
+      return json({ error: t.members.errors.notFound, memberId });
+    }
+
+    if (result.data.role !== "admin") {
+      const lastAdminError = await checkLastAdmin(db, memberId, t);
+      if (lastAdminError) {
+        return json({ error: lastAdminError, memberId });
+      }
+    }
+
+    const { error } = await db.profiles.update(memberId, result.data);
+
+    if (error) {
+      return json({ error: t.members.errors.update, memberId });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "update",
+        entityType: "member",
+        entityId: memberId,
+        before: member,
+        after: { ...member, ...result.data },
+      },
+    ]);
+  }
+
+  // 予定や実績の履歴を残すため、メンバーは削除せず無効化する
+  if (intent === "deactivate") {
+    const memberId = formData.get("user_id") as string;
+
+    if (memberId === user.id) {
+      return json({ error: t.members.errors.deactivateSelf, memberId });
+    }
+
+    const lastAdminError = await checkLastAdmin(db, memberId, t);
+    if (lastAdminError) {
+      return json({ error: lastAdminError, memberId });
     }
+
+    const { data: member } = await db.profiles.get(memberId);
+
+    if (!member) {
+      return json({ error: t.members.errors.notFound, memberId });
+    }
+
+    const values = { deactivated_at: new Date().toISOString() };
+    const { error } = await db.profiles.update(memberId, values);
+
+    if (error) {
+      return json({ error: t.members.errors.deactivate, memberId });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "deactivate",
+        entityType: "member",
+        entityId: memberId,
+        before: member,
+        after: { ...member, ...values },
+      },
+    ]);
   }
 
-  if (intent === "delete") {
-    const userId = formData.get("user_id") as string;
-    
-    const { error } = await supabase
-      .from("profiles")
-      .delete()
-      .eq("id", userId);
+  if (intent === "reactivate") {
+    const memberId = formData.get("user_id") as string;
+    const { data: member } = await db.profiles.get(memberId);
+
+    if (!member) {
+      return json({ error: t.members.errors.notFound, memberId });
+    }
+
+    const { error } = await db.profiles.update(memberId, {
+      deactivated_at: null,
+    });
 
     if (error) {
-      return json({ error: "メンバーの削除に失敗しました" });
+      return json({ error: t.members.errors.reactivate, memberId });
     }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "reactivate",
+        entityType: "member",
+        entityId: memberId,
+        before: member,
+        after: { ...member, deactivated_at: null },
+      },
+    ]);
+  }
+
+  // 名簿とメンバー一覧を照合し、未招待のメンバーと名簿にいないメンバーを返す
+  if (intent === "sync-directory") {
+    const directory = getMemberDirectory();
+    const { data: profiles } = await db.profiles.list({ activeOnly: true });
+
+    let directoryMembers: DirectoryMember[];
+    try {
+      directoryMembers = await directory.listMembers();
+    } catch (error) {
+      console.error(error);
+      return json({ error: t.members.errors.directoryCheck(t.members.directories[directory.kind]) });
+    }
+
+    const profileEmails = new Set(
+      (profiles ?? []).map((profile) => profile.email.toLowerCase())
+    );
+    const directoryEmails = new Set(directoryMembers.map((member) => member.email));
+
+    return json({
+      sync: {
+        label: t.members.directories[directory.kind],
+        notInvited: directoryMembers.filter(
+          (member) => !profileEmails.has(member.email)
+        ),
+        notInDirectory: (profiles ?? [])
+          .filter((profile) => !directoryEmails.has(profile.email.toLowerCase()))
+          .map(({ email, full_name }) => ({ email, full_name })),
+      },
+    });
   }
 
   return json({ success: true });
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
-  );
+  const context = createServerContext(request);
+  const { db, response } = context;
 
-  const { data: { user } } = await supabase.auth.getUser();
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user?.id)
-    .single();
+  const { user } = await requirePermission(context, "members:manage");
 
-  if (!profile?.is_admin) {
-    throw new Error("管理者以外はアクセスできません");
-  }
-
-  const { data: members } = await supabase
-    .from("profiles")
-    .select("*")
-    .order("created_at");
+  const [{ data: members }, { data: teams }, { data: invitations }] =
+    await Promise.all([
+      db.profiles.list(),
+      db.teams.list(),
+      db.invitations.listOpen(),
+    ]);
 
   return json(
-    { members },
+    {
+      members: members ?? [],
+      teams: teams ?? [],
+      invitations: invitations ?? [],
+      currentUserId: user.id,
+      defaultTimeZone: organizationTimeZone,
+      timeZones: Intl.supportedValuesOf("timeZone"),
+    },
     {
       headers: response.headers,
     }
@@ -107,73 +410,357 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export default function Members() {
-  const { members } = useLoaderData<typeof loader>();
+  const { members, teams, invitations, currentUserId, defaultTimeZone, timeZones } =
+    useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
+  const { t, formatDate } = useI18n();
+
+  useEffect(() => {
+    if (actionData && "success" in actionData) {
+      document
+        .querySelectorAll<HTMLDialogElement>("dialog[open]")
+        .forEach((dialog) => dialog.close());
+    }
+  }, [actionData]);
+
+  const errorsFor = (memberId: string) =>
+    actionData && "memberId" in actionData && actionData.memberId === memberId
+      ? (actionData as { errors?: Record<string, string[] | undefined> }).errors
+      : undefined;
+  const errorFor = (memberId: string) =>
+    actionData && "memberId" in actionData && actionData.memberId === memberId
+      ? (actionData as { error?: string }).error
+      : undefined;
+  const inviteErrors =
+    actionData && "errors" in actionData && !("memberId" in actionData)
+      ? (actionData.errors as Record<string, string[] | undefined>)
+      : undefined;
+  const inviteError =
+    actionData && "invite" in actionData
+      ? (actionData as { error?: string }).error
+      : undefined;
+  const invitationErrorFor = (invitationId: string) =>
+    actionData && "invitationId" in actionData && actionData.invitationId === invitationId
+      ? (actionData as { error?: string }).error
+      : undefined;
+  const pageError =
+    actionData &&
+    "error" in actionData &&
+    !("memberId" in actionData) &&
+    !("invitationId" in actionData) &&
+    !("invite" in actionData)
+      ? actionData.error
+      : undefined;
+  const bulkResults =
+    actionData && "bulkResults" in actionData ? actionData.bulkResults : undefined;
+  const sync = actionData && "sync" in actionData ? actionData.sync : undefined;
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold">メンバー管理</h1>
-        <button
-          type="button"
-          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
-          onClick={() => {
-            const dialog = document.getElementById("invite-member") as HTMLDialogElement;
-            dialog.showModal();
-          }}
-        >
-          <UserPlus className="w-5 h-5" />
-          メンバーを招待
-        </button>
+        <h1 className="text-2xl font-bold">{t.members.title}</h1>
+        <div className="flex items-center gap-2">
+          <Form method="post">
+            <button
+              type="submit"
+              name="intent"
+              value="sync-directory"
+              className="px-4 py-2 rounded border border-gray-300 bg-white hover:bg-gray-50 flex items-center gap-2"
+            >
+              <RefreshCw className="w-5 h-5" />
+              {t.members.syncDirectory}
+            </button>
+          </Form>
+          <button
+            type="button"
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+            onClick={() => {
+              const dialog = document.getElementById("invite-member") as HTMLDialogElement;
+              dialog.showModal();
+            }}
+          >
+            <UserPlus className="w-5 h-5" />
+            {t.members.invite}
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 rounded border border-gray-300 bg-white hover:bg-gray-50 flex items-center gap-2"
+            onClick={() => {
+              const dialog = document.getElementById("bulk-invite") as HTMLDialogElement;
+              dialog.showModal();
+            }}
+          >
+            <FileUp className="w-5 h-5" />
+            {t.members.bulkInvite}
+          </button>
+        </div>
       </div>
 
+      {pageError && (
+        <div className="mb-4 rounded bg-red-50 px-4 py-3 text-sm text-red-700">{pageError}</div>
+      )}
+
+      {sync && (
+        <div className="mb-6 bg-white rounded-lg shadow p-4 text-sm space-y-3">
+          <h2 className="font-bold">{t.members.syncTitle(sync.label)}</h2>
+          <div>
+            <div className="font-medium mb-1">
+              {t.members.notInvited(sync.notInvited.length)}
+            </div>
+            {sync.notInvited.length > 0 ? (
+              <ul className="list-disc pl-5 text-gray-700">
+                {sync.notInvited.map((member) => (
+                  <li key={member.email}>
+                    {t.members.nameWithEmail(member.name, member.email)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">{t.members.nobody}</p>
+            )}
+          </div>
+          <div>
+            <div className="font-medium mb-1">
+              {t.members.notInDirectory(sync.label, sync.notInDirectory.length)}
+            </div>
+            {sync.notInDirectory.length > 0 ? (
+              <ul className="list-disc pl-5 text-gray-700">
+                {sync.notInDirectory.map((profile) => (
+                  <li key={profile.email}>
+                    {t.members.nameWithEmail(profile.full_name, profile.email)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">{t.members.nobody}</p>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <table className="w-full">
           <thead>
             <tr className="bg-gray-50">
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                名前
+                {t.common.name}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.common.email}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                メールアドレス
+                {t.members.role}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                権限
+                {t.members.employmentType}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                操作
+                {t.members.team}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.common.actions}
               </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {members?.map((member) => (
-              <tr key={member.id}>
+              <tr key={member.id} className={member.deactivated_at ? "bg-gray-50 text-gray-400" : undefined}>
                 <td className="px-6 py-4 whitespace-nowrap">
                   {member.full_name}
+                  {member.deactivated_at && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-200 text-gray-600">
+                      {t.members.deactivated}
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   {member.email}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  {member.is_admin ? "管理者" : "一般"}
+                  {t.roles[member.role]}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {t.employmentTypes[member.employment_type]}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {teams.find((team) => team.id === member.team_id)?.name ?? "-"}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <Form method="post" className="inline">
-                    <input type="hidden" name="user_id" value={member.id} />
+                  <div className="flex items-center gap-3">
                     <button
-                      type="submit"
-                      name="intent"
-                      value="delete"
-                      className="text-red-600 hover:text-red-900"
-                      onClick={(e) => {
-                        if (!confirm("このメンバーを削除してもよろしいですか？")) {
-                          e.preventDefault();
-                        }
+                      type="button"
+                      className="text-gray-500 hover:text-blue-600"
+                      aria-label={t.members.edit}
+                      onClick={() => {
+                        const dialog = document.getElementById(`edit-member-${member.id}`) as HTMLDialogElement;
+                        dialog.showModal();
                       }}
                     >
-                      <Trash2 className="w-5 h-5" />
+                      <Pencil className="w-5 h-5" />
                     </button>
-                  </Form>
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="user_id" value={member.id} />
+                      {member.deactivated_at ? (
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="reactivate"
+                          className="text-green-600 hover:text-green-800"
+                          aria-label={t.members.reactivate}
+                        >
+                          <UserCheck className="w-5 h-5" />
+                        </button>
+                      ) : (
+                        member.id !== currentUserId && (
+                          <button
+                            type="submit"
+                            name="intent"
+                            value="deactivate"
+                            className="text-red-600 hover:text-red-900"
+                            aria-label={t.members.deactivate}
+                            onClick={(e) => {
+                              if (!confirm(t.members.confirmDeactivate)) {
+                                e.preventDefault();
+                              }
+                            }}
+                          >
+                            <UserX className="w-5 h-5" />
+                          </button>
+                        )
+                      )}
+                    </Form>
+                  </div>
+                  {errorFor(member.id) && (
+                    <p className="text-red-600 text-sm mt-1">{errorFor(member.id)}</p>
+                  )}
+
+                  <dialog id={`edit-member-${member.id}`} className="rounded-lg p-6 w-full max-w-md text-gray-900">
+                    <h3 className="text-lg font-bold mb-4">{t.members.editTitle}</h3>
+                    <Form method="post" className="space-y-4">
+                      <input type="hidden" name="user_id" value={member.id} />
+                      <div>
+                        <label htmlFor={`full_name-${member.id}`} className="block text-sm font-medium mb-1">{t.common.name}</label>
+                        <input
+                          type="text"
+                          id={`full_name-${member.id}`}
+                          name="full_name"
+                          required
+                          defaultValue={member.full_name}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        />
+                        {errorsFor(member.id)?.full_name && (
+                          <p className="text-red-600 text-sm mt-1">{errorsFor(member.id)?.full_name?.[0]}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor={`email-${member.id}`} className="block text-sm font-medium mb-1">{t.common.email}</label>
+                        <input
+                          type="email"
+                          id={`email-${member.id}`}
+                          name="email"
+                          required
+                          defaultValue={member.email}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        />
+                        {errorsFor(member.id)?.email && (
+                          <p className="text-red-600 text-sm mt-1">{errorsFor(member.id)?.email?.[0]}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor={`role-${member.id}`} className="block text-sm font-medium mb-1">{t.members.role}</label>
+                        <select
+                          id={`role-${member.id}`}
+                          name="role"
+                          defaultValue={member.role}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {t.roles[role]}
+                            </option>
+                          ))}
+                        </select>
+                        {errorsFor(member.id)?.role && (
+                          <p className="text-red-600 text-sm mt-1">{errorsFor(member.id)?.role?.[0]}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor={`employment_type-${member.id}`} className="block text-sm font-medium mb-1">{t.members.employmentType}</label>
+                        <select
+                          id={`employment_type-${member.id}`}
+                          name="employment_type"
+                          defaultValue={member.employment_type}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        >
+                          {EMPLOYMENT_TYPES.map((type) => (
+                            <option key={type} value={type}>
+                              {t.employmentTypes[type]}
+                            </option>
+                          ))}
+                        </select>
+                        {errorsFor(member.id)?.employment_type && (
+                          <p className="text-red-600 text-sm mt-1">{errorsFor(member.id)?.employment_type?.[0]}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label htmlFor={`team_id-${member.id}`} className="block text-sm font-medium mb-1">{t.members.team}</label>
+                        <select
+                          id={`team_id-${member.id}`}
+                          name="team_id"
+                          defaultValue={member.team_id ?? ""}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        >
+                          <option value="">{t.members.noTeam}</option>
+                          {teams.map((team) => (
+                            <option key={team.id} value={team.id}>
+                              {team.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor={`time_zone-${member.id}`} className="block text-sm font-medium mb-1">{t.members.timeZone}</label>
+                        <input
+                          type="text"
+                          id={`time_zone-${member.id}`}
+                          name="time_zone"
+                          list="time-zones"
+                          defaultValue={member.time_zone ?? ""}
+                          placeholder={defaultTimeZone}
+                          className="w-full rounded border-gray-300 shadow-sm"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t.members.timeZoneDefault(defaultTimeZone)}
+                        </p>
+                        {errorsFor(member.id)?.time_zone && (
+                          <p className="text-red-600 text-sm mt-1">{errorsFor(member.id)?.time_zone?.[0]}</p>
+                        )}
+                      </div>
+                      {errorFor(member.id) && (
+                        <p className="text-red-600 text-sm">{errorFor(member.id)}</p>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                          onClick={() => {
+                            const dialog = document.getElementById(`edit-member-${member.id}`) as HTMLDialogElement;
+                            dialog.close();
+                          }}
+                        >
+                          {t.common.cancel}
+                        </button>
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="update"
+                          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                        >
+                          {t.common.update}
+                        </button>
+                      </div>
+                    </Form>
+                  </dialog>
                 </td>
               </tr>
             ))}
@@ -181,11 +768,106 @@ export default function Members() {
         </table>
       </div>
 
+      <h2 className="text-lg font-bold mt-8 mb-3">{t.members.invitations}</h2>
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {invitations.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">{t.members.noInvitations}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.common.name}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.common.email}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.members.invitedAt}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.members.invitedBy}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.common.status}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t.common.actions}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invitations.map((invitation) => {
+                const status = invitationStatus(invitation);
+
+                return (
+                  <tr key={invitation.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">{invitation.full_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">{invitation.email}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {formatDate(invitation.created_at, "dateTime")}
+                      {invitation.send_count > 1 && (
+                        <div className="text-xs text-gray-500">
+                          {t.members.sentCount(
+                            invitation.send_count,
+                            formatDate(invitation.last_sent_at, "monthDayTime")
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {invitation.inviter?.full_name ?? "-"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-0.5 text-xs rounded ${INVITATION_STATUS_STYLES[status]}`}>
+                        {t.invitationStatuses[status]}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {t.members.expiresAt(formatDate(invitation.expires_at, "monthDayTime"))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Form method="post" className="flex items-center gap-3">
+                        <input type="hidden" name="invitation_id" value={invitation.id} />
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="resend-invitation"
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {t.members.resend}
+                        </button>
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="revoke-invitation"
+                          className="text-red-600 hover:text-red-900"
+                          onClick={(e) => {
+                            if (!confirm(t.members.confirmRevoke)) {
+                              e.preventDefault();
+                            }
+                          }}
+                        >
+                          {t.members.revoke}
+                        </button>
+                      </Form>
+                      {invitationErrorFor(invitation.id) && (
+                        <p className="text-red-600 text-sm mt-1">{invitationErrorFor(invitation.id)}</p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       <dialog id="invite-member" className="rounded-lg p-6 w-full max-w-md">
-        <h3 className="text-lg font-bold mb-4">メンバーを招待</h3>
+        <h3 className="text-lg font-bold mb-4">{t.members.invite}</h3>
         <Form method="post" className="space-y-4">
           <div>
-            <label htmlFor="full_name" className="block text-sm font-medium mb-1">名前</label>
+            <label htmlFor="full_name" className="block text-sm font-medium mb-1">{t.common.name}</label>
             <input
               type="text"
               id="full_name"
@@ -193,22 +875,25 @@ export default function Members() {
               required
               className="w-full rounded border-gray-300 shadow-sm"
             />
-            {actionData && "errors" in actionData && actionData.errors?.full_name && (
-              <p className="text-red-600 text-sm mt-1">{actionData.errors.full_name[0]}</p>
+            {inviteErrors?.full_name && (
+              <p className="text-red-600 text-sm mt-1">{inviteErrors.full_name?.[0]}</p>
             )}
           </div>
           <div>
-            <label htmlFor="email" className="block text-sm font-medium mb-1">メールアドレス</label>
+            <label htmlFor="email" className="block text-sm font-medium mb-1">{t.common.email}</label>
             <input
               type="email"
               name="email"
               required
               className="w-full rounded border-gray-300 shadow-sm"
             />
-            {actionData && "errors" in actionData && actionData.errors?.email && (
-              <p className="text-red-600 text-sm mt-1">{actionData.errors.email[0]}</p>
+            {inviteErrors?.email && (
+              <p className="text-red-600 text-sm mt-1">{inviteErrors.email?.[0]}</p>
             )}
           </div>
+          {inviteError && (
+            <p className="text-red-600 text-sm">{inviteError}</p>
+          )}
           <div className="flex justify-end gap-2">
             <button
               type="button"
@@ -218,7 +903,7 @@ export default function Members() {
                 dialog.close();
               }}
             >
-              キャンセル
+              {t.common.cancel}
             </button>
             <button
               type="submit"
@@ -226,11 +911,95 @@ export default function Members() {
               value="invite"
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
-              招待する
+              {t.members.inviteSubmit}
+            </button>
+          </div>
+        </Form>
+      </dialog>
+
+      <dialog id="bulk-invite" className="rounded-lg p-6 w-full max-w-2xl">
+        <h3 className="text-lg font-bold mb-4">{t.members.bulkInvite}</h3>
+        <Form method="post" encType="multipart/form-data" className="space-y-4">
+          <div>
+            <label htmlFor="bulk-invite-file" className="block text-sm font-medium mb-1">{t.members.csvFile}</label>
+            <input
+              type="file"
+              id="bulk-invite-file"
+              name="file"
+              accept=".csv,text/csv"
+              required
+              className="w-full text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {t.members.csvNote(MAX_BULK_INVITES)}
+            </p>
+          </div>
+          {inviteError && (
+            <p className="text-red-600 text-sm">{inviteError}</p>
+          )}
+          {bulkResults && (
+            <div className="max-h-64 overflow-y-auto border rounded">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-left">
+                    <th className="px-3 py-2">{t.members.row}</th>
+                    <th className="px-3 py-2">{t.common.email}</th>
+                    <th className="px-3 py-2">{t.common.name}</th>
+                    <th className="px-3 py-2">{t.members.result}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {bulkResults.map((result) => (
+                    <tr key={result.row}>
+                      <td className="px-3 py-1">{result.row}</td>
+                      <td className="px-3 py-1">{result.email}</td>
+                      <td className="px-3 py-1">{result.full_name}</td>
+                      <td
+                        className={`px-3 py-1 ${
+                          result.status === "invited"
+                            ? "text-green-700"
+                            : result.status === "skipped"
+                              ? "text-gray-500"
+                              : "text-red-600"
+                        }`}
+                      >
+                        {result.message}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+              onClick={() => {
+                const dialog = document.getElementById("bulk-invite") as HTMLDialogElement;
+                dialog.close();
+              }}
+            >
+              {t.common.close}
+            </button>
+            <button
+              type="submit"
+              name="intent"
+              value="bulk-invite"
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              {t.members.inviteSubmit}
             </button>
           </div>
         </Form>
       </dialog>
+
+      {/* メンバー編集のタイムゾーン入力の候補。ダイアログごとに持つと大きくなるため1つを共有する */}
+      <datalist id="time-zones">
+        {timeZones.map((timeZone) => (
+          <option key={timeZone} value={timeZone} />
+        ))}
+      </datalist>
     </div>
   );
 }
\ No newline at end of file
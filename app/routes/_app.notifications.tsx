@@ -0,0 +1,197 @@
+import {
+  json,
+  redirect,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Form, useLoaderData, useRevalidator } from "@remix-run/react";
+import { Check, CheckCheck, ExternalLink } from "lucide-react";
+import { useEffect } from "react";
+import { requireUser } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import { renderNotification } from "~/lib/notification-messages";
+import {
+  NOTIFICATION_KIND_STYLES,
+  NOTIFICATION_LIST_LIMIT,
+  UNREAD_POLL_INTERVAL,
+} from "~/lib/notifications";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { user } = await requireUser(context);
+  const { t } = await getI18n(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const notificationId = formData.get("notification_id") as string;
+
+  if (intent === "open") {
+    const { data: notifications } = await db.notifications.listForUser(
+      user.id,
+      NOTIFICATION_LIST_LIMIT
+    );
+    const notification = notifications?.find((row) => row.id === notificationId);
+
+    if (!notification) {
+      return json({ error: t.notifications.errors.notFound });
+    }
+
+    await db.notifications.markRead(user.id, [notification.id]);
+
+    return redirect(notification.link ?? "/notifications", {
+      headers: response.headers,
+    });
+  }
+
+  if (intent === "read" || intent === "read-all") {
+    const { error } = await db.notifications.markRead(
+      user.id,
+      intent === "read" ? [notificationId] : undefined
+    );
+
+    if (error) {
+      return json({ error: t.notifications.errors.markRead });
+    }
+  }
+
+  return json({ success: true });
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { user } = await requireUser(context);
+  const { locale } = await getI18n(request);
+
+  const { data: notifications } = await db.notifications.listForUser(
+    user.id,
+    NOTIFICATION_LIST_LIMIT
+  );
+
+  // 文面は開いた人の表示言語で組み立てる
+  return json(
+    {
+      notifications: (notifications ?? []).map((notification) => ({
+        id: notification.id,
+        kind: notification.kind,
+        link: notification.link,
+        read_at: notification.read_at,
+        created_at: notification.created_at,
+        ...renderNotification(notification, locale),
+      })),
+    },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+export default function Notifications() {
+  const { notifications } = useLoaderData<typeof loader>();
+  const { t, formatDate } = useI18n();
+  const revalidator = useRevalidator();
+  const hasUnread = notifications.some((notification) => !notification.read_at);
+
+  // 開いている間に届いた通知も表示する
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (document.visibilityState === "visible" && revalidator.state === "idle") {
+        revalidator.revalidate();
+      }
+    }, UNREAD_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [revalidator]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">{t.notifications.title}</h1>
+        {hasUnread && (
+          <Form method="post">
+            <button
+              type="submit"
+              name="intent"
+              value="read-all"
+              className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+            >
+              <CheckCheck className="w-4 h-4" />
+              {t.notifications.readAll}
+            </button>
+          </Form>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+        {notifications.map((notification) => (
+          <div
+            key={notification.id}
+            className={`p-4 flex gap-4 ${notification.read_at ? "" : "bg-blue-50"}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                {!notification.read_at && (
+                  <span className="w-2 h-2 rounded-full bg-blue-600" aria-label={t.notifications.unread} />
+                )}
+                <span
+                  className={`px-2 py-0.5 rounded ${NOTIFICATION_KIND_STYLES[notification.kind]}`}
+                >
+                  {t.notificationKinds[notification.kind]}
+                </span>
+                {formatDate(notification.created_at, "dateTime")}
+              </div>
+              <div className="font-medium">{notification.title}</div>
+              <p className="text-sm text-gray-700 whitespace-pre-line">
+                {notification.body}
+              </p>
+            </div>
+            <div className="flex flex-col items-end gap-2 text-sm">
+              {notification.link && (
+                <Form method="post">
+                  <input type="hidden" name="notification_id" value={notification.id} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="open"
+                    className="flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    {t.notifications.open}
+                  </button>
+                </Form>
+              )}
+              {!notification.read_at && (
+                <Form method="post">
+                  <input type="hidden" name="notification_id" value={notification.id} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="read"
+                    className="flex items-center gap-1 text-gray-600 hover:underline"
+                  >
+                    <Check className="w-4 h-4" />
+                    {t.notifications.markRead}
+                  </button>
+                </Form>
+              )}
+            </div>
+          </div>
+        ))}
+        {notifications.length === 0 && (
+          <p className="px-6 py-8 text-center text-gray-500">
+            {t.notifications.empty}
+          </p>
+        )}
+      </div>
+      {notifications.length === NOTIFICATION_LIST_LIMIT && (
+        <p className="mt-2 text-sm text-gray-500">
+          {t.notifications.limitNote(NOTIFICATION_LIST_LIMIT)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { memoryDb, memoryStore, get, post, signIn } from "../../test/server";
+import { action, loader } from "./_app.reports";
+
+const MEMBER_ID = "00000000-0000-0000-0000-000000000004";
+
+/** 実績付きの予定を作り、実績のIDを返す */
+const insertReport = async (start: string, end: string) => {
+  const db = memoryDb();
+  const { data: schedules } = await db.schedules.insert([
+    {
+      user_id: MEMBER_ID,
+      start_time: start,
+      end_time: end,
+      location: "本社",
+      description: "年末年始の対応",
+    },
+  ]);
+  const { data: report } = await db.reports.insert({
+    schedule_id: schedules![0].id,
+    actual_start_time: start,
+    actual_end_time: end,
+    actual_location: null,
+    actual_description: "年末年始の対応",
+    break_time: 0,
+    reflection: "対応しました",
+  });
+  return report!.id;
+};
+
+type ReportsData = {
+  reports: { id: string }[];
+  year: string;
+  month: string;
+};
+
+const loadReports = async (search: string, cookie: string) => {
+  const response = await get(loader, `/reports${search}`, cookie);
+  return (await response.json()) as ReportsData;
+};
+
+describe("reports loader: 月の区切り", () => {
+  it("12月と1月の実績を日本時間の 0時で分ける", async () => {
+    // 日本時間 12/31 20:00〜23:30 と 1/1 0:30〜4:00 (UTC ではどちらも 12/31)
+    const december = await insertReport("2026-12-31T11:00:00.000Z", "2026-12-31T14:30:00.000Z");
+    const january = await insertReport("2026-12-31T15:30:00.000Z", "2026-12-31T19:00:00.000Z");
+    const cookie = await signIn("admin@example.com");
+
+    const decemberData = await loadReports("?year=2026&month=12", cookie);
+    const januaryData = await loadReports("?year=2027&month=1", cookie);
+
+    expect(decemberData.reports.map((report) => report.id)).toEqual([december]);
+    expect(januaryData.reports.map((report) => report.id)).toEqual([january]);
+  });
+
+  it("月の初日 0時ちょうどの実績はその月に含める", async () => {
+    const newYear = await insertReport("2026-12-31T15:00:00.000Z", "2026-12-31T18:00:00.000Z");
+    const cookie = await signIn("admin@example.com");
+
+    expect((await loadReports("?year=2026&month=12", cookie)).reports).toEqual([]);
+    expect(
+      (await loadReports("?year=2027&month=1", cookie)).reports.map((report) => report.id)
+    ).toEqual([newYear]);
+  });
+
+  it("正しくない年月の指定は今月として扱う", async () => {
+    const cookie = await signIn("admin@example.com");
+
+    const current = await loadReports("", cookie);
+    const invalid = await loadReports("?year=abc&month=13", cookie);
+
+    expect(invalid.year).toBe(current.year);
+    expect(invalid.month).toBe(current.month);
+  });
+});
+
+describe("reports action: 月単位の承認", () => {
+  it("12月をまとめて承認しても1月の実績は承認しない", async () => {
+    const december = await insertReport("2026-12-31T11:00:00.000Z", "2026-12-31T14:30:00.000Z");
+    const january = await insertReport("2026-12-31T15:30:00.000Z", "2026-12-31T19:00:00.000Z");
+
+    const response = await post(
+      action,
+      "/reports",
+      { intent: "approve-month", user_id: MEMBER_ID, year: "2026", month: "12" },
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    const status = (id: string) =>
+      memoryStore().reports.find((report) => report.id === id)?.status;
+    expect(status(december)).toBe("approved");
+    expect(status(january)).toBe("submitted");
+  });
+
+  it("正しくない年月の指定は 400 を返す", async () => {
+    const response = await post(
+      action,
+      "/reports",
+      { intent: "approve-month", user_id: MEMBER_ID, year: "2026", month: "13" },
+      await signIn("admin@example.com")
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("reports action: 通知", () => {
+  it("通知の送信先の設定に誤りがあっても承認は完了し、受信箱には通知する", async () => {
+    vi.stubEnv("NOTIFICATION_CHANNELS", "email");
+    const reportId = await insertReport("2026-12-31T11:00:00.000Z", "2026-12-31T14:30:00.000Z");
+
+    const response = await post(
+      action,
+      "/reports",
+      { intent: "approve", report_id: reportId },
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(memoryStore().notifications).toMatchObject([
+      { user_id: MEMBER_ID, kind: "report_approved" },
+    ]);
+  });
+});
@@ -1,62 +1,224 @@
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData } from "@remix-run/react";
-import { createServerClient } from "@supabase/auth-helpers-remix";
-import { format, parseISO, differenceInMinutes } from "date-fns";
-import { ja } from "date-fns/locale";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+import {
+  AlertTriangle,
+  Check,
+  Download,
+  Pencil,
+  Printer,
+  X,
+} from "lucide-react";
+import { useEffect } from "react";
+import { z } from "zod";
+import { recordAudit } from "~/lib/audit.server";
+import {
+  assertPermission,
+  reportTeamScope,
+  requirePermission,
+} from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n, type Messages } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import { monthRange, parseYearMonth, readYearMonth } from "~/lib/month";
+import { permissionsFor } from "~/lib/permissions";
+import { notifyReportEdited } from "~/lib/report-notifications.server";
+import {
+  describeRevisionChanges,
+  groupReportsByUser,
+  REPORT_STATUS_STYLES,
+  REVIEWABLE_STATUSES,
+  toTimeInputValue,
+} from "~/lib/reports";
+import {
+  parseReportForm,
+  recordReportRevision,
+  reviewReports,
+} from "~/lib/reports.server";
+import { toZonedRange, toZonedTime } from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import { calculateVariance, summarizeVariance } from "~/lib/variance";
+import { calculateWorkMinutes } from "~/lib/work-time";
 
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
-  );
+const MAX_REVIEW_COMMENT_LENGTH = 500;
+
+const reviewSchema = (t: Messages) =>
+  z.object({
+    comment: z
+      .string()
+      .trim()
+      .max(MAX_REVIEW_COMMENT_LENGTH, t.validation.commentTooLong(MAX_REVIEW_COMMENT_LENGTH)),
+  });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db } = context;
+
+  const { user, profile } = await requirePermission(context, "reports:view");
+  const i18n = await getI18n(request, resolveTimeZone(profile));
+  const { t, timeZone } = i18n;
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "update-report") {
+    assertPermission(profile, "reports:edit");
+    const reportId = formData.get("report_id") as string;
+
+    const { data: current } = await db.reports.get(reportId);
+
+    if (!current) {
+      return json({ error: t.reports.errors.notFound });
+    }
+
+    const { report, errors } = parseReportForm(
+      formData,
+      current.schedules.start_time,
+      i18n
+    );
+
+    if (errors) {
+      return json({ reportId, errors });
+    }
+
+    const { error } = await db.reports.update(reportId, {
+      ...report,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      return json({ error: t.reports.errors.update });
+    }
+
+    await recordReportRevision(db, {
+      reportId,
+      revisedBy: user.id,
+      action: "update",
+      before: current,
+      after: report,
+    });
+    await recordAudit(db, user.id, [
+      {
+        action: "update",
+        entityType: "report",
+        entityId: reportId,
+        before: current,
+        after: { ...current, ...report },
+      },
+    ]);
+    await notifyReportEdited(db, { report: current, editor: profile });
+  }
+
+  if (
+    intent === "approve" ||
+    intent === "reject" ||
+    intent === "approve-month" ||
+    intent === "reject-month"
+  ) {
+    assertPermission(profile, "reports:review");
+    const teamId = reportTeamScope(profile);
+    const decision = intent.startsWith("approve") ? "approved" : "rejected";
+    const target = (formData.get("report_id") ?? formData.get("user_id")) as string;
+    const result = reviewSchema(t).safeParse({ comment: formData.get("comment") ?? "" });
+
+    if (!result.success) {
+      return json({ reviewTarget: target, errors: result.error.flatten().fieldErrors });
+    }
+
+    if (decision === "rejected" && !result.data.comment) {
+      return json({
+        reviewTarget: target,
+        errors: { comment: [t.validation.rejectReason] },
+      });
+    }
+
+    let reportIds = [target];
+
+    if (intent === "approve-month" || intent === "reject-month") {
+      const yearMonth = parseYearMonth(formData.get("year"), formData.get("month"));
+
+      if (!yearMonth) {
+        return json({ error: t.validation.invalid }, { status: 400 });
+      }
+
+      const { data: reports } = await db.reports.list({
+        ...toZonedRange(monthRange(yearMonth.year, yearMonth.month), timeZone),
+        userId: target,
+        statuses: REVIEWABLE_STATUSES,
+      });
+
+      reportIds = reports?.map((report) => report.id) ?? [];
+    }
+
+    // チームリーダーは自チームのメンバーの実績だけを承認・差し戻しできる
+    if (teamId) {
+      const { data: teamReports } = await db.reports.list({
+        ids: reportIds,
+        teamId,
+        statuses: REVIEWABLE_STATUSES,
+      });
+
+      reportIds = teamReports?.map((report) => report.id) ?? [];
+    }
+
+    const { error } = await reviewReports(db, {
+      reportIds,
+      reviewedBy: user.id,
+      decision,
+      comment: result.data.comment || null,
+    });
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user?.id)
-    .single();
-
-  if (!profile?.is_admin) {
-    throw new Error("管理者以外はアクセスできません");
+    if (error) {
+      return json({
+        error:
+          decision === "approved"
+            ? t.reports.errors.approve
+            : t.reports.errors.reject,
+      });
+    }
   }
 
+  return json({ success: true });
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "reports:view");
+  const teamId = reportTeamScope(profile);
+  const timeZone = resolveTimeZone(profile);
+
   const url = new URL(request.url);
-  const year =
-    url.searchParams.get("year") || new Date().getFullYear().toString();
-  const month =
-    url.searchParams.get("month") || (new Date().getMonth() + 1).toString();
-
-  const { data: reports } = await supabase
-    .from("reports")
-    .select(
-      `
-      *,
-      schedules (
-        *,
-        profiles (
-          full_name
-        )
-      )
-    `
-    )
-    .gte("actual_start_time", `${year}-${month.padStart(2, "0")}-01`)
-    .lt(
-      "actual_start_time",
-      `${year}-${
-        Number(month) + 1 === 13
-          ? "01"
-          : (Number(month) + 1).toString().padStart(2, "0")
-      }-01`
-    )
-    .order("actual_start_time");
+  // 月の区切りは閲覧しているメンバーのタイムゾーンの暦で決める
+  const today = toZonedTime(new Date(), timeZone);
+  const { year, month } = readYearMonth(url.searchParams, today);
+  const range = toZonedRange(monthRange(year, month), timeZone);
+
+  const { data: reports } = await db.reports.list({
+    ...range,
+    teamId: teamId ?? undefined,
+  });
+
+  // 終了時刻を過ぎても実績が提出されていない予定
+  const { data: pastSchedules } = await db.schedules.listEnded({
+    ...range,
+    endedBefore: new Date().toISOString(),
+    teamId,
+  });
+
+  const unreported = (pastSchedules ?? []).filter(
+    (schedule) =>
+      !schedule.reports.some((report) => report.status !== "withdrawn")
+  );
 
   return json(
-    { reports, year, month },
+    {
+      reports,
+      unreported,
+      year,
+      month,
+      permissions: permissionsFor(profile.role),
+    },
     {
       headers: response.headers,
     }
@@ -64,52 +226,73 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export default function Reports() {
-  const { reports, year, month } = useLoaderData<typeof loader>();
-
-  const reportsByUser: Record<
-    string,
-    { userName: string; reports: typeof reports; totalWorkMinutes: number }
-  > = reports?.reduce(
-    (
-      acc,
-      report: {
-        schedules: { user_id: string; profiles: { full_name: string } };
-        actual_end_time: string;
-        actual_start_time: string;
-        break_time: string;
-      }
-    ) => {
-      const userId = report.schedules.user_id;
-      if (!acc[userId]) {
-        acc[userId] = {
-          userName: report.schedules.profiles.full_name,
-          reports: [],
-          totalWorkMinutes: 0,
-        };
-      }
+  const { reports, unreported, year, month, permissions } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const i18n = useI18n();
+  const { t, timeZone, formatDate, formatDuration } = i18n;
 
-      const workMinutes =
-        differenceInMinutes(
-          parseISO(report.actual_end_time),
-          parseISO(report.actual_start_time)
-        ) - Number(report.break_time);
+  const errorsFor = (reportId: string) =>
+    actionData && "reportId" in actionData && actionData.reportId === reportId
+      ? (actionData.errors as Record<string, string[] | undefined>)
+      : undefined;
+  const reviewErrorsFor = (target: string) =>
+    actionData && "reviewTarget" in actionData && actionData.reviewTarget === target
+      ? actionData.errors
+      : undefined;
 
-      acc[userId].reports.push(report);
-      acc[userId].totalWorkMinutes += workMinutes;
+  useEffect(() => {
+    if (actionData && "success" in actionData) {
+      document
+        .querySelectorAll<HTMLDialogElement>("dialog[open]")
+        .forEach((dialog) => dialog.close());
+    }
+  }, [actionData]);
 
-      return acc;
-    },
-    {} as Record<
-      string,
-      { userName: string; reports: typeof reports; totalWorkMinutes: number }
-    >
-  );
+  const reportsByUser = groupReportsByUser(reports ?? []);
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold">勤務実績管理</h1>
-        <div className="flex gap-4">
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold">{t.reports.title}</h1>
+          <span className="text-xs text-gray-500">{t.common.timeZoneNote(timeZone)}</span>
+        </div>
+        <div className="flex gap-4 items-center">
+          {permissions.includes("reports:export") && (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <Download className="w-4 h-4 text-gray-600" />
+                <a
+                  href={`/reports/export?year=${year}&month=${month}&format=csv&type=detail`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {t.reports.csvDetail}
+                </a>
+                <a
+                  href={`/reports/export?year=${year}&month=${month}&format=csv&type=summary`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {t.reports.csvSummary}
+                </a>
+                <a
+                  href={`/reports/export?year=${year}&month=${month}&format=xlsx`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Excel
+                </a>
+              </div>
+              <a
+                href={`/reports/timesheet?year=${year}&month=${month}`}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+              >
+                <Printer className="w-4 h-4" />
+                {t.reports.timesheetAll}
+              </a>
+            </>
+          )}
           <select
             value={year}
             onChange={(e) => {
@@ -123,7 +306,7 @@ export default function Reports() {
               const y = new Date().getFullYear() - 2 + i;
               return (
                 <option key={y} value={y}>
-                  {y}年
+                  {t.year(y)}
                 </option>
               );
             })}
@@ -139,77 +322,486 @@ export default function Reports() {
           >
             {[...Array(12)].map((_, i) => (
               <option key={i + 1} value={i + 1}>
-                {i + 1}月
+                {t.month(i + 1)}
               </option>
             ))}
           </select>
         </div>
       </div>
 
+      {actionData && "error" in actionData && actionData.error && (
+        <div className="mb-4 p-3 rounded bg-red-50 text-red-600 text-sm">
+          {actionData.error}
+        </div>
+      )}
+
+      {unreported.length > 0 && (
+        <div className="mb-8 bg-white rounded-lg shadow p-6">
+          <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            {t.reports.unreported(unreported.length)}
+          </h2>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="py-2 text-left">{t.reports.member}</th>
+                <th className="py-2 text-left">{t.common.date}</th>
+                <th className="py-2 text-left">{t.reports.schedule}</th>
+                <th className="py-2 text-left">{t.common.location}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unreported.map((schedule) => (
+                <tr key={schedule.id} className="border-b">
+                  <td className="py-2">{schedule.profiles?.full_name}</td>
+                  <td className="py-2">
+                    {formatDate(schedule.start_time, "weekday")}
+                  </td>
+                  <td className="py-2">
+                    {formatDate(schedule.start_time, "time")} -{" "}
+                    {formatDate(schedule.end_time, "time")}
+                  </td>
+                  <td className="py-2">{schedule.location}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="space-y-8">
         {Object.entries(reportsByUser || {}).map(
-          ([userId, { userName, reports, totalWorkMinutes }]) => (
-            <div key={userId} className="bg-white rounded-lg shadow p-6">
-              <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-bold">{userName}</h2>
-                <div className="text-gray-600">
-                  総労働時間: {Math.floor(totalWorkMinutes / 60)}時間
-                  {totalWorkMinutes % 60}分
-                </div>
-              </div>
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b">
-                      <th className="py-2 text-left">日付</th>
-                      <th className="py-2 text-left">時間</th>
-                      <th className="py-2 text-left">休憩</th>
-                      <th className="py-2 text-left">場所</th>
-                      <th className="py-2 text-left">業務内容</th>
-                      <th className="py-2 text-left">振り返り</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {reports?.map((report) => {
-                      const workMinutes =
-                        differenceInMinutes(
-                          parseISO(report.actual_end_time),
-                          parseISO(report.actual_start_time)
-                        ) - Number(report.break_time);
-
-                      return (
-                        <tr key={report.id} className="border-b">
-                          <td className="py-2">
-                            {format(
-                              parseISO(report.actual_start_time),
-                              "M/d (E)",
-                              { locale: ja }
-                            )}
-                          </td>
-                          <td className="py-2">
-                            {format(
-                              parseISO(report.actual_start_time),
-                              "HH:mm"
-                            )}{" "}
-                            -{" "}
-                            {format(parseISO(report.actual_end_time), "HH:mm")}
-                            <div className="text-sm text-gray-500">
-                              {Math.floor(workMinutes / 60)}時間
-                              {workMinutes % 60}分
+          ([userId, { userName, reports, totalWorkMinutes }]) => {
+            const summary = summarizeVariance(reports);
+
+            return (
+              <div key={userId} className="bg-white rounded-lg shadow p-6">
+                <div className="flex justify-between items-center mb-4">
+                  <div className="flex items-center gap-3">
+                    <h2 className="text-xl font-bold">{userName}</h2>
+                    {permissions.includes("reports:export") && (
+                      <a
+                        href={`/reports/timesheet?year=${year}&month=${month}&user=${userId}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                      >
+                        <Printer className="w-4 h-4" />
+                        {t.reports.timesheet}
+                      </a>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className="text-gray-600 text-right">
+                      <div>{t.reports.totalWorkTime(formatDuration(totalWorkMinutes))}</div>
+                      <div className="text-sm">
+                        {[
+                          t.reports.planned(formatDuration(summary.plannedMinutes)),
+                          t.reports.punctuality(
+                            summary.punctualityRate === null
+                              ? "-"
+                              : `${Math.round(summary.punctualityRate * 100)}%`
+                          ),
+                          summary.lateCount > 0 && t.reports.lateCount(summary.lateCount),
+                          summary.earlyLeaveCount > 0 &&
+                            t.reports.earlyLeaveCount(summary.earlyLeaveCount),
+                          summary.overtimeMinutes > 0 &&
+                            t.reports.overtime(formatDuration(summary.overtimeMinutes)),
+                          summary.locationChangeCount > 0 &&
+                            t.reports.locationChangeCount(summary.locationChangeCount),
+                        ]
+                          .filter(Boolean)
+                          .join(t.reports.summarySeparator)}
+                      </div>
+                    </div>
+                    {permissions.includes("reports:review") &&
+                      reports?.some((report) => REVIEWABLE_STATUSES.includes(report.status)) && (
+                      <>
+                        <Form method="post">
+                          <input type="hidden" name="user_id" value={userId} />
+                          <input type="hidden" name="year" value={year} />
+                          <input type="hidden" name="month" value={month} />
+                          <button
+                            type="submit"
+                            name="intent"
+                            value="approve-month"
+                            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                            onClick={(e) => {
+                              if (!confirm(t.reports.confirmApproveMonth(userName, t.month(month)))) {
+                                e.preventDefault();
+                              }
+                            }}
+                          >
+                            {t.reports.approveMonth}
+                          </button>
+                        </Form>
+                        <button
+                          type="button"
+                          className="px-3 py-1 text-red-600 border border-red-600 rounded text-sm hover:bg-red-50"
+                          onClick={() => {
+                            const dialog = document.getElementById(`reject-month-${userId}`) as HTMLDialogElement;
+                            dialog.showModal();
+                          }}
+                        >
+                          {t.reports.rejectMonth}
+                        </button>
+                        <dialog id={`reject-month-${userId}`} className="rounded-lg p-6 w-full max-w-md">
+                          <h3 className="text-lg font-bold mb-4">
+                            {t.reports.rejectMonthTitle(userName, t.month(month))}
+                          </h3>
+                          <Form method="post" className="space-y-4">
+                            <input type="hidden" name="user_id" value={userId} />
+                            <input type="hidden" name="year" value={year} />
+                            <input type="hidden" name="month" value={month} />
+                            <div>
+                              <label htmlFor={`comment-month-${userId}`} className="block text-sm font-medium mb-1">{t.reports.rejectReason}</label>
+                              <textarea
+                                id={`comment-month-${userId}`}
+                                name="comment"
+                                required
+                                className="w-full rounded border-gray-300 shadow-sm"
+                                rows={3}
+                              />
+                              {reviewErrorsFor(userId)?.comment && (
+                                <p className="text-red-600 text-sm mt-1">{reviewErrorsFor(userId)?.comment?.[0]}</p>
+                              )}
                             </div>
-                          </td>
-                          <td className="py-2">{report.break_time}分</td>
-                          <td className="py-2">{report.schedules.location}</td>
-                          <td className="py-2">{report.actual_description}</td>
-                          <td className="py-2">{report.reflection}</td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
+                            <div className="flex justify-end gap-2">
+                              <button
+                                type="button"
+                                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                                onClick={() => {
+                                  const dialog = document.getElementById(`reject-month-${userId}`) as HTMLDialogElement;
+                                  dialog.close();
+                                }}
+                              >
+                                {t.common.cancel}
+                              </button>
+                              <button
+                                type="submit"
+                                name="intent"
+                                value="reject-month"
+                                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                              >
+                                {t.reports.rejectSubmit}
+                              </button>
+                            </div>
+                          </Form>
+                        </dialog>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="py-2 text-left">{t.common.status}</th>
+                        <th className="py-2 text-left">{t.common.date}</th>
+                        <th className="py-2 text-left">{t.reports.time}</th>
+                        <th className="py-2 text-left">{t.reports.break}</th>
+                        <th className="py-2 text-left">{t.common.location}</th>
+                        <th className="py-2 text-left">{t.reports.variance}</th>
+                        <th className="py-2 text-left">{t.common.description}</th>
+                        <th className="py-2 text-left">{t.common.reflection}</th>
+                        <th className="py-2 text-left">{t.reports.revisions}</th>
+                        <th className="py-2 text-left">{t.common.actions}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {reports?.map((report) => {
+                        const workMinutes = calculateWorkMinutes(report);
+                        const variance = calculateVariance(report);
+
+                        return (
+                          <tr key={report.id} className="border-b">
+                            <td className="py-2">
+                              <span
+                                className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${
+                                  REPORT_STATUS_STYLES[report.status]
+                                }`}
+                              >
+                                {t.reportStatuses[report.status]}
+                              </span>
+                              {report.status === "rejected" && report.review_comment && (
+                                <div className="mt-1 text-xs text-gray-500">
+                                  {report.review_comment}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2">
+                              {formatDate(report.actual_start_time, "weekday")}
+                            </td>
+                            <td className="py-2">
+                              {formatDate(report.actual_start_time, "time")} -{" "}
+                              {formatDate(report.actual_end_time, "time")}
+                              <div className="text-sm text-gray-500">
+                                {formatDuration(workMinutes)}
+                              </div>
+                              <div className="text-xs text-gray-400">
+                                {t.reports.plannedTime(
+                                  `${formatDate(report.schedules.start_time, "time")} - ${formatDate(
+                                    report.schedules.end_time,
+                                    "time"
+                                  )}`
+                                )}
+                              </div>
+                            </td>
+                            <td className="py-2">{t.minutes(report.break_time)}</td>
+                            <td className="py-2">
+                              {report.actual_location ?? report.schedules.location}
+                            </td>
+                            <td className="py-2 text-xs space-y-1">
+                              {variance.lateMinutes > 0 && (
+                                <div className="text-red-600">{t.reports.late(variance.lateMinutes)}</div>
+                              )}
+                              {variance.earlyLeaveMinutes > 0 && (
+                                <div className="text-orange-600">
+                                  {t.reports.earlyLeave(variance.earlyLeaveMinutes)}
+                                </div>
+                              )}
+                              {variance.overtimeMinutes > 0 && (
+                                <div className="text-blue-600">
+                                  {t.reports.overtimeMinutes(variance.overtimeMinutes)}
+                                </div>
+                              )}
+                              {variance.changedLocation && (
+                                <div className="text-purple-600">
+                                  {t.reports.locationChanged(report.schedules.location)}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2">{report.actual_description}</td>
+                            <td className="py-2">{report.reflection}</td>
+                            <td className="py-2 text-sm">
+                              {report.report_revisions?.length ? (
+                                <details>
+                                  <summary className="cursor-pointer text-blue-600">
+                                    {t.count(report.report_revisions.length)}
+                                  </summary>
+                                  <ul className="mt-1 space-y-1">
+                                    {[...report.report_revisions]
+                                      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                                      .map((revision) => (
+                                        <li key={revision.id} className="text-gray-600">
+                                          <div>
+                                            {formatDate(revision.created_at, "monthDayTime")}{" "}
+                                            {revision.profiles?.full_name}{" "}
+                                            {t.revisionActions[revision.action]}
+                                          </div>
+                                          {revision.comment && (
+                                            <div className="pl-2 text-xs">{revision.comment}</div>
+                                          )}
+                                          {describeRevisionChanges(revision, i18n).map((change) => (
+                                            <div key={change} className="pl-2 text-xs">
+                                              {change}
+                                            </div>
+                                          ))}
+                                        </li>
+                                      ))}
+                                  </ul>
+                                </details>
+                              ) : (
+                                <span className="text-gray-400">{t.common.none}</span>
+                              )}
+                            </td>
+                            <td className="py-2 whitespace-nowrap">
+                              {permissions.includes("reports:review") &&
+                                REVIEWABLE_STATUSES.includes(report.status) && (
+                                <>
+                                  <Form method="post" className="inline">
+                                    <input type="hidden" name="report_id" value={report.id} />
+                                    <button
+                                      type="submit"
+                                      name="intent"
+                                      value="approve"
+                                      className="text-gray-500 hover:text-green-600 mr-2"
+                                      aria-label={t.reports.approve}
+                                    >
+                                      <Check className="w-4 h-4" />
+                                    </button>
+                                  </Form>
+                                  <button
+                                    type="button"
+                                    className="text-gray-500 hover:text-red-600 mr-2"
+                                    aria-label={t.reports.reject}
+                                    onClick={() => {
+                                      const dialog = document.getElementById(`reject-${report.id}`) as HTMLDialogElement;
+                                      dialog.showModal();
+                                    }}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </button>
+                                  <dialog id={`reject-${report.id}`} className="rounded-lg p-6 w-full max-w-md whitespace-normal">
+                                    <h3 className="text-lg font-bold mb-4">{t.reports.rejectTitle}</h3>
+                                    <Form method="post" className="space-y-4">
+                                      <input type="hidden" name="report_id" value={report.id} />
+                                      <div>
+                                        <label htmlFor={`comment-${report.id}`} className="block text-sm font-medium mb-1">{t.reports.rejectReason}</label>
+                                        <textarea
+                                          id={`comment-${report.id}`}
+                                          name="comment"
+                                          required
+                                          className="w-full rounded border-gray-300 shadow-sm"
+                                          rows={3}
+                                        />
+                                        {reviewErrorsFor(report.id)?.comment && (
+                                          <p className="text-red-600 text-sm mt-1">{reviewErrorsFor(report.id)?.comment?.[0]}</p>
+                                        )}
+                                      </div>
+                                      <div className="flex justify-end gap-2">
+                                        <button
+                                          type="button"
+                                          className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                                          onClick={() => {
+                                            const dialog = document.getElementById(`reject-${report.id}`) as HTMLDialogElement;
+                                            dialog.close();
+                                          }}
+                                        >
+                                          {t.common.cancel}
+                                        </button>
+                                        <button
+                                          type="submit"
+                                          name="intent"
+                                          value="reject"
+                                          className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                                        >
+                                          {t.reports.rejectSubmit}
+                                        </button>
+                                      </div>
+                                    </Form>
+                                  </dialog>
+                                </>
+                              )}
+                              {permissions.includes("reports:edit") && (
+                                <>
+                                  <button
+                                    type="button"
+                                    className="text-gray-500 hover:text-blue-600"
+                                    aria-label={t.reports.edit}
+                                    onClick={() => {
+                                      const dialog = document.getElementById(`edit-report-${report.id}`) as HTMLDialogElement;
+                                      dialog.showModal();
+                                    }}
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </button>
+                                  <dialog id={`edit-report-${report.id}`} className="rounded-lg p-6 w-full max-w-md">
+                                    <h3 className="text-lg font-bold mb-4">
+                                      {t.reports.editTitle(
+                                        userName,
+                                        formatDate(report.actual_start_time, "monthDay")
+                                      )}
+                                    </h3>
+                                    <Form method="post" className="space-y-4">
+                                      <input type="hidden" name="report_id" value={report.id} />
+                                      <div className="flex gap-2">
+                                        <div className="flex-1">
+                                          <label htmlFor={`actual_start_time-${report.id}`} className="block text-sm font-medium mb-1">{t.common.startTime}</label>
+                                          <input
+                                            type="time"
+                                            id={`actual_start_time-${report.id}`}
+                                            name="actual_start_time"
+                                            required
+                                            defaultValue={toTimeInputValue(report.actual_start_time, timeZone)}
+                                            className="w-full rounded border-gray-300 shadow-sm"
+                                          />
+                                        </div>
+                                        <div className="flex-1">
+                                          <label htmlFor={`actual_end_time-${report.id}`} className="block text-sm font-medium mb-1">{t.common.endTime}</label>
+                                          <input
+                                            type="time"
+                                            id={`actual_end_time-${report.id}`}
+                                            name="actual_end_time"
+                                            required
+                                            defaultValue={toTimeInputValue(report.actual_end_time, timeZone)}
+                                            className="w-full rounded border-gray-300 shadow-sm"
+                                          />
+                                        </div>
+                                      </div>
+                                      <div>
+                                        <label htmlFor={`break_time-${report.id}`} className="block text-sm font-medium mb-1">{t.common.breakMinutes}</label>
+                                        <input
+                                          type="number"
+                                          id={`break_time-${report.id}`}
+                                          name="break_time"
+                                          required
+                                          min="0"
+                                          step="15"
+                                          defaultValue={report.break_time}
+                                          className="w-full rounded border-gray-300 shadow-sm"
+                                        />
+                                        {errorsFor(report.id)?.break_time && (
+                                          <p className="text-red-600 text-sm mt-1">{errorsFor(report.id)?.break_time?.[0]}</p>
+                                        )}
+                                      </div>
+                                      <div>
+                                        <label htmlFor={`actual_location-${report.id}`} className="block text-sm font-medium mb-1">{t.common.location}</label>
+                                        <input
+                                          type="text"
+                                          id={`actual_location-${report.id}`}
+                                          name="actual_location"
+                                          required
+                                          defaultValue={report.actual_location ?? report.schedules.location}
+                                          className="w-full rounded border-gray-300 shadow-sm"
+                                        />
+                                      </div>
+                                      <div>
+                                        <label htmlFor={`actual_description-${report.id}`} className="block text-sm font-medium mb-1">{t.common.description}</label>
+                                        <textarea
+                                          id={`actual_description-${report.id}`}
+                                          name="actual_description"
+                                          required
+                                          defaultValue={report.actual_description}
+                                          className="w-full rounded border-gray-300 shadow-sm"
+                                          rows={3}
+                                        />
+                                      </div>
+                                      <div>
+                                        <label htmlFor={`reflection-${report.id}`} className="block text-sm font-medium mb-1">{t.common.reflection}</label>
+                                        <textarea
+                                          id={`reflection-${report.id}`}
+                                          name="reflection"
+                                          required
+                                          defaultValue={report.reflection}
+                                          className="w-full rounded border-gray-300 shadow-sm"
+                                          rows={3}
+                                        />
+                                      </div>
+                                      <div className="flex justify-end gap-2">
+                                        <button
+                                          type="button"
+                                          className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                                          onClick={() => {
+                                            const dialog = document.getElementById(`edit-report-${report.id}`) as HTMLDialogElement;
+                                            dialog.close();
+                                          }}
+                                        >
+                                          {t.common.cancel}
+                                        </button>
+                                        <button
+                                          type="submit"
+                                          name="intent"
+                                          value="update-report"
+                                          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                                        >
+                                          {t.common.update}
+                                        </button>
+                                      </div>
+                                    </Form>
+                                  </dialog>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-            </div>
-          )
+            );
+          }
         )}
       </div>
     </div>
@@ -0,0 +1,362 @@
+import { describe, expect, it } from "vitest";
+import { ja } from "~/lib/locales/ja";
+import { memoryDb, memoryStore, post, signIn } from "../../test/server";
+import { action } from "./_app.schedule";
+
+const MEMBER_ID = "00000000-0000-0000-0000-000000000004";
+const INTERN_ID = "00000000-0000-0000-0000-000000000005";
+
+const schedulesOn = (userId: string, date: string) =>
+  memoryStore().schedules.filter(
+    (schedule) => schedule.user_id === userId && schedule.start_time.startsWith(date)
+  );
+
+describe("schedule action: create", () => {
+  // シードデータの予定 (今週と先週) と重ならない日
+  const create = {
+    intent: "create",
+    start_time: "2030-01-07T10:00",
+    end_time: "2030-01-07T18:00",
+    location: "本社",
+    description: "通常業務",
+  };
+
+  it("入力した日時をメンバーのタイムゾーン (既定: 日本時間) として保存する", async () => {
+    const response = await post(
+      action,
+      "/schedule",
+      create,
+      await signIn("member@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toMatchObject([
+      {
+        start_time: "2030-01-07T01:00:00.000Z",
+        end_time: "2030-01-07T09:00:00.000Z",
+        location: "本社",
+        description: "通常業務",
+      },
+    ]);
+  });
+
+  it.each([
+    [
+      "終了が開始以前",
+      { end_time: "2030-01-07T09:00" },
+      { end_time: [ja.validation.endBeforeStart] },
+    ],
+    [
+      "短すぎる予定",
+      { end_time: "2030-01-07T10:10" },
+      { end_time: [ja.validation.shiftTooShort(15)] },
+    ],
+    [
+      "長すぎる予定",
+      { end_time: "2030-01-07T23:00" },
+      { end_time: [ja.validation.shiftTooLong(12)] },
+    ],
+    [
+      "日時の形式が正しくない",
+      { start_time: "2030-13-45T10:00" },
+      { start_time: [ja.validation.dateTimeFormat] },
+    ],
+    [
+      "場所と業務内容が空",
+      { location: "", description: "" },
+      { location: [ja.validation.location], description: [ja.validation.description] },
+    ],
+  ])("%s場合は登録しない", async (_, values, errors) => {
+    const response = await post(
+      action,
+      "/schedule",
+      { ...create, ...values },
+      await signIn("member@example.com")
+    );
+
+    expect(await response.json()).toEqual({ errors });
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toHaveLength(0);
+  });
+
+  it("自分の他の予定と重なる予定は登録しない", async () => {
+    const cookie = await signIn("member@example.com");
+    await post(action, "/schedule", create, cookie);
+
+    const response = await post(
+      action,
+      "/schedule",
+      { ...create, start_time: "2030-01-07T17:00", end_time: "2030-01-07T20:00" },
+      cookie
+    );
+
+    expect(await response.json()).toMatchObject({
+      errors: { start_time: [expect.any(String)] },
+    });
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toHaveLength(1);
+  });
+
+  it("他のメンバーの予定とは重なってもよい", async () => {
+    await post(action, "/schedule", create, await signIn("intern@example.com"));
+
+    const response = await post(
+      action,
+      "/schedule",
+      create,
+      await signIn("member@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(schedulesOn(INTERN_ID, "2030-01-07")).toHaveLength(1);
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toHaveLength(1);
+  });
+});
+
+describe("schedule action: update / delete", () => {
+  const insertSchedule = async (userId: string) => {
+    // 日本時間 2030/1/7 10:00〜18:00 の予定
+    const { data } = await memoryDb().schedules.insert([
+      {
+        user_id: userId,
+        start_time: "2030-01-07T01:00:00.000Z",
+        end_time: "2030-01-07T09:00:00.000Z",
+        location: "本社",
+        description: "通常業務",
+      },
+    ]);
+    return data![0].id;
+  };
+
+  const update = (scheduleId: string) => ({
+    intent: "update",
+    schedule_id: scheduleId,
+    start_time: "2030-01-07T13:00",
+    end_time: "2030-01-07T18:00",
+    location: "支社",
+    description: "通常業務",
+  });
+
+  it("管理者は他のメンバーの予定を変更でき、予定を持つメンバーに通知する", async () => {
+    const scheduleId = await insertSchedule(MEMBER_ID);
+
+    const response = await post(
+      action,
+      `/schedule?user=${MEMBER_ID}`,
+      update(scheduleId),
+      await signIn("admin@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toMatchObject([
+      { start_time: "2030-01-07T04:00:00.000Z", location: "支社" },
+    ]);
+    expect(memoryStore().notifications).toMatchObject([
+      {
+        user_id: MEMBER_ID,
+        kind: "schedule_edited",
+        params: { shift: { start_time: "2030-01-07T01:00:00.000Z", location: "本社" } },
+      },
+    ]);
+  });
+
+  it("管理者が他のメンバーの予定を削除した場合も通知する", async () => {
+    const scheduleId = await insertSchedule(MEMBER_ID);
+
+    await post(
+      action,
+      `/schedule?user=${MEMBER_ID}`,
+      { intent: "delete", schedule_id: scheduleId },
+      await signIn("admin@example.com")
+    );
+
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toHaveLength(0);
+    expect(memoryStore().notifications).toMatchObject([
+      { user_id: MEMBER_ID, kind: "schedule_deleted" },
+    ]);
+  });
+
+  it("自分の予定を変更しても通知しない", async () => {
+    const scheduleId = await insertSchedule(MEMBER_ID);
+
+    await post(action, "/schedule", update(scheduleId), await signIn("member@example.com"));
+
+    expect(schedulesOn(MEMBER_ID, "2030-01-07")).toMatchObject([{ location: "支社" }]);
+    expect(memoryStore().notifications).toHaveLength(0);
+  });
+
+  it("管理者以外は他のメンバーの予定を変更できない", async () => {
+    const scheduleId = await insertSchedule(INTERN_ID);
+
+    const response = await post(
+      action,
+      "/schedule",
+      update(scheduleId),
+      await signIn("lead@example.com")
+    );
+
+    expect(response.status).toBe(403);
+    expect(schedulesOn(INTERN_ID, "2030-01-07")).toMatchObject([{ location: "本社" }]);
+  });
+});
+
+describe("schedule action: report", () => {
+  const insertSchedule = async (userId: string, start: string, end: string) => {
+    const { data } = await memoryDb().schedules.insert([
+      {
+        user_id: userId,
+        start_time: start,
+        end_time: end,
+        location: "本社",
+        description: "通常業務",
+      },
+    ]);
+    return data![0].id;
+  };
+
+  const report = (scheduleId: string) => ({
+    intent: "report",
+    schedule_id: scheduleId,
+    actual_start_time: "10:00",
+    actual_end_time: "18:30",
+    break_time: "60",
+    actual_location: "本社",
+    actual_description: "資料作成",
+    reflection: "予定どおり作業しました",
+  });
+
+  const reportsFor = (scheduleId: string) =>
+    memoryStore().reports.filter((report) => report.schedule_id === scheduleId);
+
+  it("予定の日付と入力した時刻から実績の日時を組み立てる", async () => {
+    // 日本時間 2030/1/7 10:00〜18:00 の予定
+    const scheduleId = await insertSchedule(
+      MEMBER_ID,
+      "2030-01-07T01:00:00.000Z",
+      "2030-01-07T09:00:00.000Z"
+    );
+
+    const response = await post(
+      action,
+      "/schedule",
+      report(scheduleId),
+      await signIn("member@example.com")
+    );
+
+    expect(await response.json()).toEqual({ success: true });
+    expect(reportsFor(scheduleId)).toMatchObject([
+      {
+        actual_start_time: "2030-01-07T01:00:00.000Z",
+        actual_end_time: "2030-01-07T09:30:00.000Z",
+        break_time: 60,
+        status: "submitted",
+      },
+    ]);
+  });
+
+  it("日付を跨いだ勤務は翌日の終了として記録する", async () => {
+    // 日本時間 2030/1/7 22:00〜翌 6:00 の予定
+    const scheduleId = await insertSchedule(
+      MEMBER_ID,
+      "2030-01-07T13:00:00.000Z",
+      "2030-01-07T21:00:00.000Z"
+    );
+
+    await post(
+      action,
+      "/schedule",
+      { ...report(scheduleId), actual_start_time: "22:00", actual_end_time: "06:00" },
+      await signIn("member@example.com")
+    );
+
+    expect(reportsFor(scheduleId)).toMatchObject([
+      {
+        actual_start_time: "2030-01-07T13:00:00.000Z",
+        actual_end_time: "2030-01-07T21:00:00.000Z",
+      },
+    ]);
+  });
+
+  it.each([
+    [
+      "休憩時間が勤務時間以上",
+      { actual_end_time: "11:00", break_time: "60" },
+      { break_time: [ja.validation.breakTimeTooLong] },
+    ],
+    [
+      "休憩時間が負の値",
+      { break_time: "-10" },
+      { break_time: [ja.validation.breakTimeMin] },
+    ],
+    [
+      "休憩時間が分単位でない",
+      { break_time: "1.5" },
+      { break_time: [ja.validation.breakTimeInteger] },
+    ],
+    [
+      "時刻の形式が正しくない",
+      { actual_start_time: "10時" },
+      { actual_start_time: [ja.validation.time] },
+    ],
+    [
+      "振り返りが空",
+      { reflection: "" },
+      { reflection: [ja.validation.reflection] },
+    ],
+  ])("%sの場合は提出しない", async (_, values, errors) => {
+    const scheduleId = await insertSchedule(
+      MEMBER_ID,
+      "2030-01-07T01:00:00.000Z",
+      "2030-01-07T09:00:00.000Z"
+    );
+
+    const response = await post(
+      action,
+      "/schedule",
+      { ...report(scheduleId), ...values },
+      await signIn("member@example.com")
+    );
+
+    expect(await response.json()).toEqual({ scheduleId, errors });
+    expect(reportsFor(scheduleId)).toHaveLength(0);
+  });
+
+  it("実績を報告済みの予定には、もう一度提出できない", async () => {
+    const scheduleId = await insertSchedule(
+      MEMBER_ID,
+      "2030-01-07T01:00:00.000Z",
+      "2030-01-07T09:00:00.000Z"
+    );
+    const cookie = await signIn("member@example.com");
+
+    await post(action, "/schedule", report(scheduleId), cookie);
+    const response = await post(
+      action,
+      "/schedule",
+      { ...report(scheduleId), reflection: "二重送信" },
+      cookie
+    );
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: ja.schedule.errors.reportExists });
+    expect(reportsFor(scheduleId)).toMatchObject([
+      { reflection: "予定どおり作業しました" },
+    ]);
+  });
+
+  it("他のメンバーの予定には実績を提出できない", async () => {
+    const scheduleId = await insertSchedule(
+      INTERN_ID,
+      "2030-01-07T01:00:00.000Z",
+      "2030-01-07T09:00:00.000Z"
+    );
+
+    const response = await post(
+      action,
+      "/schedule",
+      report(scheduleId),
+      await signIn("member@example.com")
+    );
+
+    expect(response.status).toBe(403);
+    expect(reportsFor(scheduleId)).toHaveLength(0);
+  });
+});
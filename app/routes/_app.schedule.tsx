@@ -1,39 +1,234 @@
 import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
-import { Form, useLoaderData } from "@remix-run/react";
-import { createServerClient } from "@supabase/auth-helpers-remix";
-import { format, startOfWeek, addDays, parseISO, isAfter } from "date-fns";
-import { ja } from "date-fns/locale";
-import { Clock, MapPin } from "lucide-react";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+import {
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  isAfter,
+  isValid,
+} from "date-fns";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Lock,
+  MapPin,
+  Pencil,
+  Repeat,
+  Rss,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { useEffect, useState } from "react";
 import { z } from "zod";
+import {
+  describeWeeklyRecurrence,
+  expandWeeklyRecurrence,
+  MAX_RECURRENCE_DAYS,
+  toRecurrence,
+  toShiftTimes,
+} from "~/lib/recurrence";
+import { assertPermission, requirePermission } from "~/lib/auth.server";
+import { recordAudit } from "~/lib/audit.server";
+import {
+  calendarFeedUrl,
+  createCalendarFeedToken,
+} from "~/lib/calendar-feed.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n, type I18n, type Messages } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import { parseICalendar } from "~/lib/ical";
+import { can } from "~/lib/permissions";
+import { notifyScheduleEdited } from "~/lib/report-notifications.server";
+import {
+  MEMBER_EDITABLE_STATUSES,
+  REPORT_STATUS_STYLES,
+  toTimeInputValue,
+  type ReportStatus,
+} from "~/lib/reports";
+import { parseReportForm, recordReportRevision } from "~/lib/reports.server";
+import type { Repository } from "~/lib/repository.server";
+import {
+  checkShiftLength,
+  findOverlapError,
+  findOverlapErrorForSlots,
+  findOverlapErrorsBySlot,
+} from "~/lib/schedule-rules.server";
+import {
+  deleteFutureOccurrences,
+  excludeSeriesDate,
+  insertOccurrences,
+} from "~/lib/schedule-series.server";
+import {
+  formatInTimeZone,
+  fromZonedTime,
+  toDateKey,
+  toDateTimeInputValue,
+  toZonedRange,
+  toZonedTime,
+} from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import { getUploadedFile } from "~/lib/upload.server";
+import { eachDayOfRange, parseScheduleRange } from "~/lib/week";
 
-const scheduleSchema = z.object({
-  start_time: z.string(),
-  end_time: z.string(),
-  location: z.string().min(1, "場所を入力してください"),
-  description: z.string().min(1, "業務内容を入力してください"),
-});
+/** timeZone での datetime-local の入力値を検証し、保存用の日時 (UTC の ISO 8601) にする */
+const dateTimeField = (t: Messages, timeZone: string) =>
+  z
+    .string({ required_error: t.validation.dateTime })
+    .min(1, t.validation.dateTime)
+    .refine((value) => isValid(parseISO(value)), t.validation.dateTimeFormat)
+    .transform((value) => fromZonedTime(value, timeZone).toISOString());
+
+const scheduleSchema = (t: Messages, timeZone: string) =>
+  z
+    .object({
+      start_time: dateTimeField(t, timeZone),
+      end_time: dateTimeField(t, timeZone),
+      location: z.string().min(1, t.validation.location),
+      description: z.string().min(1, t.validation.description),
+    })
+    .superRefine((data, ctx) => {
+      const start = parseISO(data.start_time);
+      const end = parseISO(data.end_time);
+      if (!isValid(start) || !isValid(end)) return;
+
+      const message = checkShiftLength(start, end, t);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["end_time"], message });
+      }
+    });
+
+const dateField = (t: Messages) =>
+  z
+    .string({ required_error: t.validation.date })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, t.validation.date);
+
+const timeField = (t: Messages) =>
+  z
+    .string({ required_error: t.validation.time })
+    .regex(/^\d{2}:\d{2}$/, t.validation.time);
+
+/** 繰り返しの曜日・時刻・期間。時刻と日付は timeZone でのものとして検証する */
+const seriesSchema = (t: Messages, timeZone: string) =>
+  z
+    .object({
+      start_time: timeField(t),
+      end_time: timeField(t),
+      location: z.string().min(1, t.validation.location),
+      description: z.string().min(1, t.validation.description),
+      weekdays: z
+        .array(z.coerce.number().int().min(0).max(6))
+        .min(1, t.validation.weekdays),
+      starts_on: dateField(t),
+      until: dateField(t),
+    })
+    .superRefine((data, ctx) => {
+      const { start_time, end_time } = toShiftTimes(
+        data.starts_on,
+        data.start_time,
+        data.end_time,
+        timeZone
+      );
+      const message = checkShiftLength(parseISO(start_time), parseISO(end_time), t);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["end_time"], message });
+      }
+
+      const days = differenceInCalendarDays(
+        parseISO(data.until),
+        parseISO(data.starts_on)
+      );
+      if (days < 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["until"],
+          message: t.validation.untilBeforeStart,
+        });
+      } else if (days >= MAX_RECURRENCE_DAYS) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["until"],
+          message: t.validation.untilTooFar(MAX_RECURRENCE_DAYS),
+        });
+      }
+    });
 
-const reportSchema = z.object({
-  actual_start_time: z.string(),
-  actual_end_time: z.string(),
-  break_time: z.string(),
-  actual_description: z.string().min(1, "業務内容を入力してください"),
-  reflection: z.string().min(1, "振り返りを入力してください"),
+/** .ics から一度に取り込める予定の最大件数 */
+const MAX_IMPORT_SCHEDULES = 200;
+
+/** .ics から読み込み、登録前に確認してもらう予定 */
+type ImportDraft = {
+  /** 表示・入力するタイムゾーンでの datetime-local の形式 (yyyy-MM-ddTHH:mm) */
+  start_time: string;
+  end_time: string;
+  location: string;
+  description: string;
+  selected: boolean;
+  error: string | null;
+};
+
+/** 取り込み予定を保存用の値（日時は UTC の ISO 8601）にする */
+const toScheduleValues = (
+  { start_time, end_time, location, description }: Omit<ImportDraft, "error">,
+  timeZone: string
+) => ({
+  start_time: fromZonedTime(start_time, timeZone).toISOString(),
+  end_time: fromZonedTime(end_time, timeZone).toISOString(),
+  location,
+  description,
 });
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
+/** 選択された取り込み予定の入力内容と、既存の予定・他の取り込み予定との重複を確認する */
+async function checkImportDrafts(
+  db: Repository,
+  userId: string,
+  drafts: Omit<ImportDraft, "error">[],
+  i18n: I18n
+): Promise<ImportDraft[]> {
+  const checked = drafts.map((draft) => {
+    if (!draft.selected) return { ...draft, error: null };
+
+    const result = scheduleSchema(i18n.t, i18n.timeZone).safeParse(draft);
+    if (result.success) return { ...draft, error: null };
+
+    const fieldErrors: Record<string, string[] | undefined> =
+      result.error.flatten().fieldErrors;
+    return {
+      ...draft,
+      error: Object.values(fieldErrors).flat()[0] ?? i18n.t.validation.invalid,
+    };
+  });
+
+  const valid = checked.filter((draft) => draft.selected && !draft.error);
+  const overlapErrors = await findOverlapErrorsBySlot(
+    db,
+    {
+      userId,
+      slots: valid.map((draft) => toScheduleValues(draft, i18n.timeZone)),
+    },
+    i18n
   );
+  valid.forEach((draft, index) => {
+    draft.error = overlapErrors[index];
+  });
+
+  return checked;
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db } = context;
+
+  const { user, profile } = await requirePermission(context, "schedules:own");
+  // 入力された日時はメンバーのタイムゾーンでのものとして扱う
+  const i18n = await getI18n(request, resolveTimeZone(profile));
+  const { t, timeZone } = i18n;
 
   const formData = await request.formData();
   const intent = formData.get("intent");
 
   if (intent === "create") {
-    const result = scheduleSchema.safeParse({
+    const result = scheduleSchema(t, timeZone).safeParse({
       start_time: formData.get("start_time"),
       end_time: formData.get("end_time"),
       location: formData.get("location"),
@@ -44,39 +239,565 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json({ errors: result.error.flatten().fieldErrors });
     }
 
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    const { error } = await supabase.from("schedules").insert({
-      user_id: user?.id,
-      ...result.data,
+    if (formData.get("repeat") === "weekly") {
+      const seriesResult = seriesSchema(t, timeZone).safeParse({
+        ...result.data,
+        start_time: formatInTimeZone(result.data.start_time, timeZone, "HH:mm"),
+        end_time: formatInTimeZone(result.data.end_time, timeZone, "HH:mm"),
+        weekdays: formData.getAll("weekdays"),
+        starts_on: toDateKey(result.data.start_time, timeZone),
+        until: formData.get("until"),
+      });
+
+      if (!seriesResult.success) {
+        return json({ errors: seriesResult.error.flatten().fieldErrors });
+      }
+
+      const occurrences = expandWeeklyRecurrence({
+        weekdays: seriesResult.data.weekdays,
+        startTime: seriesResult.data.start_time,
+        endTime: seriesResult.data.end_time,
+        startsOn: seriesResult.data.starts_on,
+        until: seriesResult.data.until,
+        timeZone,
+      });
+
+      if (occurrences.length === 0) {
+        return json({
+          errors: { weekdays: [t.schedule.errors.noOccurrences] },
+        });
+      }
+
+      const overlapError = await findOverlapErrorForSlots(
+        db,
+        {
+          userId: user.id,
+          slots: occurrences,
+        },
+        i18n
+      );
+
+      if (overlapError) {
+        return json({ errors: { start_time: [overlapError] } });
+      }
+
+      const { data: series, error: seriesError } = await db.scheduleSeries.insert({
+        user_id: user.id,
+        ...seriesResult.data,
+        time_zone: timeZone,
+      });
+
+      if (seriesError) {
+        return json({ error: t.schedule.errors.createSeries });
+      }
+
+      const { error } = await insertOccurrences(db, series, occurrences);
+
+      if (error) {
+        // 予定は1回の insert でまとめて登録するため、失敗した場合はシリーズだけが残る
+        await db.scheduleSeries.delete(series.id);
+        return json({ error: t.schedule.errors.createSeries });
+      }
+
+      await recordAudit(db, user.id, [
+        {
+          action: "create",
+          entityType: "schedule_series",
+          entityId: series.id,
+          after: series,
+        },
+      ]);
+
+      return json({ success: true });
+    }
+
+    const overlapError = await findOverlapError(
+      db,
+      {
+        userId: user.id,
+        start: result.data.start_time,
+        end: result.data.end_time,
+      },
+      i18n
+    );
+
+    if (overlapError) {
+      return json({ errors: { start_time: [overlapError] } });
+    }
+
+    const { data: created, error } = await db.schedules.insert([
+      { user_id: user.id, ...result.data },
+    ]);
+
+    if (error) {
+      return json({ error: t.schedule.errors.create });
+    }
+
+    await recordAudit(db, user.id, [
+      {
+        action: "create",
+        entityType: "schedule",
+        entityId: created[0].id,
+        after: result.data,
+      },
+    ]);
+  }
+
+  if (intent === "issue-calendar-feed") {
+    const { error } = await db.calendarFeeds.save(
+      user.id,
+      createCalendarFeedToken()
+    );
+
+    if (error) {
+      return json({ error: t.schedule.errors.issueFeed });
+    }
+
+    return json({ feedIssued: true });
+  }
+
+  if (intent === "preview-ics") {
+    const file = getUploadedFile(formData, "file");
+    if (!file) {
+      return json({ importError: t.schedule.errors.icsFileRequired });
+    }
+
+    const { events, skipped } = parseICalendar(await file.text(), timeZone);
+
+    if (events.length === 0) {
+      return json({ importError: t.schedule.errors.noImportEvents });
+    }
+    if (events.length > MAX_IMPORT_SCHEDULES) {
+      return json({
+        importError: t.schedule.errors.tooManyImportEvents(MAX_IMPORT_SCHEDULES),
+      });
+    }
+
+    const drafts = await checkImportDrafts(
+      db,
+      user.id,
+      events
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .map((event) => ({
+          start_time: toDateTimeInputValue(event.start, timeZone),
+          end_time: toDateTimeInputValue(event.end, timeZone),
+          location: event.location,
+          description: event.description,
+          selected: true,
+        })),
+      i18n
+    );
+
+    return json({
+      importId: crypto.randomUUID(),
+      // 入力内容に問題がある予定は、直してから選択してもらう
+      importDrafts: drafts.map((draft) => ({ ...draft, selected: !draft.error })),
+      importSkipped: skipped,
     });
+  }
+
+  if (intent === "import-ics") {
+    const importId = String(formData.get("import_id") ?? "");
+    const selected = formData.getAll("selected").map(String);
+    const field = (name: string) => formData.getAll(name).map(String);
+    const [starts, ends, locations, descriptions] = [
+      field("start_time"),
+      field("end_time"),
+      field("location"),
+      field("description"),
+    ];
+
+    const drafts = await checkImportDrafts(
+      db,
+      user.id,
+      starts.map((start_time, index) => ({
+        start_time,
+        end_time: ends[index] ?? "",
+        location: locations[index] ?? "",
+        description: descriptions[index] ?? "",
+        selected: selected.includes(String(index)),
+      })),
+      i18n
+    );
+    const targets = drafts.filter((draft) => draft.selected);
+
+    if (targets.length === 0) {
+      return json({
+        importId,
+        importDrafts: drafts,
+        importError: t.schedule.errors.importSelectionRequired,
+      });
+    }
+    if (targets.some((draft) => draft.error)) {
+      return json({ importId, importDrafts: drafts });
+    }
+
+    const values = targets.map((draft) => toScheduleValues(draft, timeZone));
+    const { data: created, error } = await db.schedules.insert(
+      values.map((value) => ({ user_id: user.id, ...value }))
+    );
 
     if (error) {
-      return json({ error: "予定の登録に失敗しました" });
+      return json({
+        importId,
+        importDrafts: drafts,
+        importError: t.schedule.errors.create,
+      });
+    }
+
+    await recordAudit(
+      db,
+      user.id,
+      created.map(({ id }, index) => ({
+        action: "create",
+        entityType: "schedule",
+        entityId: id,
+        after: values[index],
+      }))
+    );
+
+    return json({ success: true });
+  }
+
+  if (intent === "update" || intent === "delete") {
+    const scheduleId = formData.get("schedule_id") as string;
+    const { data: schedule } = await db.schedules.get(scheduleId);
+
+    // 管理者は他のメンバーの予定も変更できる (予定を持つメンバーに通知する)
+    if (
+      !schedule ||
+      (schedule.user_id !== user.id && !can(profile.role, "schedules:edit_all"))
+    ) {
+      return json({ error: t.schedule.errors.forbidden }, { status: 403 });
+    }
+
+    // 実績報告済みの予定は報告内容と食い違うため変更させない
+    if (schedule.reports.length) {
+      return json({ error: t.schedule.errors.reported });
+    }
+
+    if (intent === "update") {
+      const result = scheduleSchema(t, timeZone).safeParse({
+        start_time: formData.get("start_time"),
+        end_time: formData.get("end_time"),
+        location: formData.get("location"),
+        description: formData.get("description"),
+      });
+
+      if (!result.success) {
+        return json({ scheduleId, errors: result.error.flatten().fieldErrors });
+      }
+
+      const overlapError = await findOverlapError(
+        db,
+        {
+          userId: schedule.user_id,
+          start: result.data.start_time,
+          end: result.data.end_time,
+          excludeId: scheduleId,
+        },
+        i18n
+      );
+
+      if (overlapError) {
+        return json({ scheduleId, errors: { start_time: [overlapError] } });
+      }
+
+      const { error } = await db.schedules.update(scheduleId, result.data);
+
+      if (error) {
+        return json({ error: t.schedule.errors.update });
+      }
+
+      await recordAudit(db, user.id, [
+        {
+          action: "update",
+          entityType: "schedule",
+          entityId: scheduleId,
+          before: schedule,
+          after: { ...schedule, ...result.data },
+        },
+      ]);
+      await notifyScheduleEdited(db, {
+        before: schedule,
+        after: result.data,
+        editor: profile,
+      });
+    }
+
+    if (intent === "delete") {
+      const { error } = await db.schedules.delete([scheduleId]);
+
+      if (error) {
+        return json({ error: t.schedule.errors.delete });
+      }
+
+      await recordAudit(db, user.id, [
+        {
+          action: "delete",
+          entityType: "schedule",
+          entityId: scheduleId,
+          before: schedule,
+        },
+      ]);
+      await notifyScheduleEdited(db, { before: schedule, after: null, editor: profile });
+    }
+
+    // 繰り返しの1回だけを変更・スキップした場合は、その日をシリーズの再展開対象から外す
+    if (schedule.series_id) {
+      await excludeSeriesDate(db, schedule.series_id, schedule.start_time);
+    }
+  }
+
+  if (intent === "update-series" || intent === "delete-series") {
+    const scheduleId = formData.get("schedule_id") as string;
+    const seriesId = formData.get("series_id") as string;
+    const { data: series } = await db.scheduleSeries.get(seriesId);
+
+    if (!series || series.user_id !== user.id) {
+      return json({ error: t.schedule.errors.seriesForbidden }, { status: 403 });
+    }
+
+    if (intent === "update-series") {
+      // シリーズの時刻は登録したときのタイムゾーンのまま扱う
+      const result = seriesSchema(t, series.time_zone).safeParse({
+        start_time: formData.get("start_time"),
+        end_time: formData.get("end_time"),
+        location: formData.get("location"),
+        description: formData.get("description"),
+        weekdays: formData.getAll("weekdays"),
+        starts_on: series.starts_on,
+        until: formData.get("until"),
+      });
+
+      if (!result.success) {
+        return json({ scheduleId, errors: result.error.flatten().fieldErrors });
+      }
+
+      // 変更は今後の回にだけ適用し、過去の回と報告済みの回はそのまま残す
+      const now = new Date();
+      const occurrences = expandWeeklyRecurrence(
+        toRecurrence({ ...series, ...result.data }),
+        { after: now }
+      );
+
+      const overlapError = await findOverlapErrorForSlots(
+        db,
+        {
+          userId: series.user_id,
+          slots: occurrences,
+          excludeSeriesId: series.id,
+        },
+        i18n
+      );
+
+      if (overlapError) {
+        return json({ scheduleId, errors: { start_time: [overlapError] } });
+      }
+
+      const { error: updateError } = await db.scheduleSeries.update(
+        series.id,
+        result.data
+      );
+
+      if (updateError) {
+        return json({ error: t.schedule.errors.updateSeries });
+      }
+
+      const { error: deleteError } = await deleteFutureOccurrences(
+        db,
+        series.id,
+        now
+      );
+
+      if (deleteError) {
+        return json({ error: t.schedule.errors.updateSeries });
+      }
+
+      const { error } = await insertOccurrences(
+        db,
+        { ...series, ...result.data },
+        occurrences
+      );
+
+      if (error) {
+        return json({ error: t.schedule.errors.updateSeries });
+      }
+
+      await recordAudit(db, user.id, [
+        {
+          action: "update",
+          entityType: "schedule_series",
+          entityId: series.id,
+          before: series,
+          after: { ...series, ...result.data },
+        },
+      ]);
+    }
+
+    if (intent === "delete-series") {
+      const { error: deleteError } = await deleteFutureOccurrences(
+        db,
+        series.id
+      );
+
+      if (deleteError) {
+        return json({ error: t.schedule.errors.deleteSeries });
+      }
+
+      const { error } = await db.scheduleSeries.delete(series.id);
+
+      if (error) {
+        return json({ error: t.schedule.errors.deleteSeries });
+      }
+
+      await recordAudit(db, user.id, [
+        {
+          action: "delete",
+          entityType: "schedule_series",
+          entityId: series.id,
+          before: series,
+        },
+      ]);
     }
   }
 
   if (intent === "report") {
     const scheduleId = formData.get("schedule_id") as string;
-    const result = reportSchema.safeParse({
-      actual_start_time: formData.get("actual_start_time"),
-      actual_end_time: formData.get("actual_end_time"),
-      break_time: formData.get("break_time"),
-      actual_description: formData.get("actual_description"),
-      reflection: formData.get("reflection"),
-    });
+    const { data: schedule } = await db.schedules.get(scheduleId);
 
-    if (!result.success) {
-      return json({ errors: result.error.flatten().fieldErrors });
+    if (!schedule || schedule.user_id !== user.id) {
+      return json({ error: t.schedule.errors.reportForbidden }, { status: 403 });
+    }
+
+    if (schedule.reports.length > 0) {
+      return json({ error: t.schedule.errors.reportExists }, { status: 409 });
+    }
+
+    const { report, errors } = parseReportForm(formData, schedule.start_time, i18n);
+
+    if (errors) {
+      return json({ scheduleId, errors });
     }
 
-    const { error } = await supabase.from("reports").insert({
+    const { data: created, error } = await db.reports.insert({
       schedule_id: scheduleId,
-      ...result.data,
+      ...report,
     });
 
     if (error) {
-      return json({ error: "実績の登録に失敗しました" });
+      return json({ error: t.schedule.errors.createReport });
+    }
+
+    await recordReportRevision(db, {
+      reportId: created.id,
+      revisedBy: user.id,
+      action: "submit",
+      before: null,
+      after: report,
+    });
+    await recordAudit(db, user.id, [
+      {
+        action: "submit",
+        entityType: "report",
+        entityId: created.id,
+        after: { ...report, status: "submitted" },
+      },
+    ]);
+  }
+
+  if (
+    intent === "update-report" ||
+    intent === "withdraw-report" ||
+    intent === "resubmit-report"
+  ) {
+    const scheduleId = formData.get("schedule_id") as string;
+    const { data: current } = await db.reports.getBySchedule(scheduleId);
+
+    if (!current || current.schedules.user_id !== user.id) {
+      return json({ error: t.schedule.errors.reportChangeForbidden }, { status: 403 });
+    }
+
+    const allowed =
+      intent === "resubmit-report"
+        ? current.status === "withdrawn"
+        : MEMBER_EDITABLE_STATUSES.includes(current.status);
+
+    if (!allowed) {
+      return json({ error: t.schedule.errors.reportLocked });
+    }
+
+    if (intent === "withdraw-report") {
+      const { error } = await db.reports.update(current.id, {
+        status: "withdrawn",
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        return json({ error: t.schedule.errors.withdrawReport });
+      }
+
+      await recordReportRevision(db, {
+        reportId: current.id,
+        revisedBy: user.id,
+        action: "withdraw",
+        before: current,
+        after: null,
+      });
+      await recordAudit(db, user.id, [
+        {
+          action: "withdraw",
+          entityType: "report",
+          entityId: current.id,
+          before: current,
+          after: { ...current, status: "withdrawn" },
+        },
+      ]);
+    } else {
+      const { report, errors } = parseReportForm(
+        formData,
+        current.schedules.start_time,
+        i18n
+      );
+
+      if (errors) {
+        return json({ scheduleId, errors });
+      }
+
+      const { error } = await db.reports.update(current.id, {
+        ...report,
+        status: "submitted",
+        review_comment: null,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        return json({ error: t.schedule.errors.updateReport });
+      }
+
+      const action = intent === "resubmit-report" ? "resubmit" : "update";
+
+      await recordReportRevision(db, {
+        reportId: current.id,
+        revisedBy: user.id,
+        action,
+        before: current,
+        after: report,
+      });
+      await recordAudit(db, user.id, [
+        {
+          action,
+          entityType: "report",
+          entityId: current.id,
+          before: current,
+          after: {
+            ...current,
+            ...report,
+            status: "submitted",
+            review_comment: null,
+          },
+        },
+      ]);
     }
   }
 
@@ -84,51 +805,226 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { user, profile } = await requirePermission(context, "schedules:own");
+  const timeZone = resolveTimeZone(profile);
+
+  const url = new URL(request.url);
+  // 週の区切りと各日の範囲は、閲覧しているメンバーのタイムゾーンの暦で決める
+  const range = parseScheduleRange(
+    url.searchParams,
+    toZonedTime(new Date(), timeZone)
   );
 
-  const { data: { user } } = await supabase.auth.getUser();
+  // ?user= で他のメンバーの予定表を閲覧する（出勤ボードから）。
+  // 変更できるのは schedules:edit_all の権限がある場合だけで、1回ずつの予定の変更・削除に限る
+  const memberId = url.searchParams.get("user");
+  let member: { id: string; full_name: string } | null = null;
 
-  const { data: schedules } = await supabase
-    .from("schedules")
-    .select("*, reports(*)")
-    .eq("user_id", user?.id)
-    .order("start_time");
+  if (memberId && memberId !== user.id) {
+    assertPermission(profile, "schedules:view_all");
+
+    const { data } = await db.profiles.get(memberId);
+    if (!data) {
+      const { t } = await getI18n(request);
+      throw json({ message: t.schedule.errors.memberNotFound }, { status: 404 });
+    }
+    member = { id: data.id, full_name: data.full_name };
+  }
+
+  const [{ data: schedules }, { data: feed }] = await Promise.all([
+    db.schedules.listForUser({
+      userId: member?.id ?? user.id,
+      ...toZonedRange(range, timeZone),
+    }),
+    db.calendarFeeds.get(user.id),
+  ]);
+  const feedUrl = feed ? calendarFeedUrl(request, feed.token) : null;
 
   return json(
-    { schedules },
+    {
+      schedules,
+      range,
+      member,
+      feedUrl,
+      editable: !member || can(profile.role, "schedules:edit_all"),
+    },
     {
       headers: response.headers,
     }
   );
 };
 
+function FieldError({ messages }: { messages?: string[] }) {
+  if (!messages?.length) return null;
+  return <p className="text-red-600 text-sm mt-1">{messages[0]}</p>;
+}
+
+function WeekdayCheckboxes({
+  idPrefix,
+  defaultValue = [],
+}: {
+  idPrefix: string;
+  defaultValue?: number[];
+}) {
+  const { t } = useI18n();
+
+  // 月曜始まりで並べる
+  return (
+    <div className="flex gap-2">
+      {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+        <label
+          key={weekday}
+          htmlFor={`${idPrefix}-${weekday}`}
+          className="flex items-center gap-1 text-sm"
+        >
+          <input
+            type="checkbox"
+            id={`${idPrefix}-${weekday}`}
+            name="weekdays"
+            value={weekday}
+            defaultChecked={defaultValue.includes(weekday)}
+          />
+          {t.weekdays[weekday]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
 export default function Schedule() {
-  const { schedules } = useLoaderData<typeof loader>();
-  const today = new Date();
-  const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-  const weekDays = [...Array(7)].map((_, i) => addDays(weekStart, i));
+  const { schedules, range, member, feedUrl, editable } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const { t, timeZone, formatDate, formatPlainDate } = useI18n();
+  const weekDays = eachDayOfRange(range);
+  // 他のメンバーの予定表では登録・実績報告・繰り返しの変更はできない。
+  // 管理者 (editable) は1回ずつの予定の変更・削除だけできる
+  const readOnly = Boolean(member);
+  const withMember = (search: string) =>
+    member ? `${search}${search ? "&" : "?"}user=${member.id}` : search;
+
+  // 入力エラーは送信元のダイアログ（新規登録なら scheduleId なし）にだけ表示する
+  const errorsFor = (scheduleId?: string) =>
+    actionData &&
+    "errors" in actionData &&
+    ("scheduleId" in actionData ? actionData.scheduleId : undefined) === scheduleId
+      ? (actionData.errors as Record<string, string[] | undefined>)
+      : undefined;
+  const newScheduleErrors = errorsFor();
+  const importError =
+    actionData && "importError" in actionData ? actionData.importError : undefined;
+  const importResult =
+    actionData && "importDrafts" in actionData ? actionData : undefined;
+  // 読み込み直後だけ表示する
+  const importSkipped =
+    importResult &&
+    "importSkipped" in importResult &&
+    typeof importResult.importSkipped === "number"
+      ? importResult.importSkipped
+      : 0;
+  const [repeat, setRepeat] = useState(false);
+
+  useEffect(() => {
+    if (actionData && "success" in actionData) {
+      document
+        .querySelectorAll<HTMLDialogElement>("dialog[open]")
+        .forEach((dialog) => dialog.close());
+    }
+  }, [actionData]);
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-2xl font-bold">週間予定表</h1>
-        <button
-          type="button"
-          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
-          onClick={() => {
-            const dialog = document.getElementById("new-schedule") as HTMLDialogElement;
-            dialog.showModal();
-          }}
-        >
-          新規予定登録
-        </button>
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold">
+            {member
+              ? t.schedule.memberTitle(
+                  member.full_name,
+                  range.week ? t.schedule.weekTitle : t.schedule.title
+                )
+              : range.week
+                ? t.schedule.weekTitle
+                : t.schedule.title}
+          </h1>
+          <div className="flex items-center gap-1">
+            <Link
+              to={withMember(range.prevSearch)}
+              className="p-1 rounded hover:bg-gray-200"
+              aria-label={t.schedule.previous}
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </Link>
+            <Link
+              to={withMember("") || "."}
+              className="px-3 py-1 rounded border border-gray-300 text-sm hover:bg-gray-200"
+            >
+              {t.schedule.thisWeek}
+            </Link>
+            <Link
+              to={withMember(range.nextSearch)}
+              className="p-1 rounded hover:bg-gray-200"
+              aria-label={t.schedule.next}
+            >
+              <ChevronRight className="w-5 h-5" />
+            </Link>
+          </div>
+          <span className="text-gray-600">
+            {formatPlainDate(weekDays[0], "rangeStart")} -{" "}
+            {formatPlainDate(weekDays[weekDays.length - 1], "rangeEnd")}
+          </span>
+          <span className="text-xs text-gray-500">{t.common.timeZoneNote(timeZone)}</span>
+        </div>
+        {readOnly ? (
+          <Link to="/board" className="text-sm text-blue-600 hover:underline">
+            {t.schedule.backToBoard}
+          </Link>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              className="px-3 py-2 rounded border border-gray-300 text-sm hover:bg-gray-200 flex items-center gap-1"
+              onClick={() => {
+                const dialog = document.getElementById("calendar-feed") as HTMLDialogElement;
+                dialog.showModal();
+              }}
+            >
+              <Rss className="w-4 h-4" />
+              {t.schedule.calendarFeed}
+            </button>
+            <button
+              type="button"
+              className="px-3 py-2 rounded border border-gray-300 text-sm hover:bg-gray-200 flex items-center gap-1"
+              onClick={() => {
+                const dialog = document.getElementById("import-ics") as HTMLDialogElement;
+                dialog.showModal();
+              }}
+            >
+              <Upload className="w-4 h-4" />
+              {t.schedule.importIcs}
+            </button>
+            <button
+              type="button"
+              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+              onClick={() => {
+                const dialog = document.getElementById("new-schedule") as HTMLDialogElement;
+                dialog.showModal();
+              }}
+            >
+              {t.schedule.newSchedule}
+            </button>
+          </div>
+        )}
       </div>
-      
+
+      {actionData && "error" in actionData && actionData.error && (
+        <div className="mb-4 p-3 rounded bg-red-50 text-red-600 text-sm">
+          {actionData.error}
+        </div>
+      )}
+
       <div className="grid grid-cols-7 gap-4">
         {weekDays.map((day) => (
           <div
@@ -136,13 +1032,13 @@ export default function Schedule() {
             className="border rounded-lg p-4 bg-white"
           >
             <h2 className="font-semibold text-center mb-2">
-              {format(day, "M/d (E)", { locale: ja })}
+              {formatPlainDate(day, "weekday")}
             </h2>
             <div className="space-y-2">
               {schedules
                 ?.filter(
                   (schedule) =>
-                    format(new Date(schedule.start_time), "yyyy-MM-dd") ===
+                    toDateKey(schedule.start_time, timeZone) ===
                     format(day, "yyyy-MM-dd")
                 )
                 .map((schedule) => (
@@ -152,8 +1048,50 @@ export default function Schedule() {
                   >
                     <div className="text-sm font-medium flex items-center gap-1">
                       <Clock className="w-4 h-4" />
-                      {format(new Date(schedule.start_time), "HH:mm")} -{" "}
-                      {format(new Date(schedule.end_time), "HH:mm")}
+                      {formatDate(schedule.start_time, "time")} -{" "}
+                      {formatDate(schedule.end_time, "time")}
+                      {schedule.schedule_series && (
+                        <Repeat
+                          className="w-4 h-4 text-blue-500"
+                          aria-label={describeWeeklyRecurrence(
+                            toRecurrence(schedule.schedule_series),
+                            t
+                          )}
+                        />
+                      )}
+                      <span className="ml-auto flex items-center gap-1">
+                        {!editable ? null : schedule.reports?.[0] ? (
+                          <Lock
+                            className="w-4 h-4 text-gray-400"
+                            aria-label={t.schedule.locked}
+                          />
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              className="text-gray-500 hover:text-blue-600"
+                              aria-label={t.schedule.edit}
+                              onClick={() => {
+                                const dialog = document.getElementById(`edit-${schedule.id}`) as HTMLDialogElement;
+                                dialog.showModal();
+                              }}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              type="button"
+                              className="text-gray-500 hover:text-red-600"
+                              aria-label={t.schedule.delete}
+                              onClick={() => {
+                                const dialog = document.getElementById(`delete-${schedule.id}`) as HTMLDialogElement;
+                                dialog.showModal();
+                              }}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </span>
                     </div>
                     <div className="text-sm flex items-center gap-1">
                       <MapPin className="w-4 h-4" />
@@ -162,7 +1100,7 @@ export default function Schedule() {
                     <div className="text-sm text-gray-600">
                       {schedule.description}
                     </div>
-                    {isAfter(new Date(), parseISO(schedule.end_time)) && !schedule.reports?.[0] && (
+                    {!readOnly && isAfter(new Date(), parseISO(schedule.end_time)) && !schedule.reports?.[0] && (
                       <button
                         type="button"
                         className="mt-2 w-full bg-green-600 text-white px-2 py-1 rounded text-sm hover:bg-green-700"
@@ -171,68 +1109,390 @@ export default function Schedule() {
                           dialog.showModal();
                         }}
                       >
-                        実績報告
+                        {t.schedule.report}
                       </button>
                     )}
                     {schedule.reports?.[0] && (
-                      <div className="mt-2 text-sm text-gray-500">
-                        報告済み
+                      <div className="mt-2 text-sm text-gray-500 flex flex-wrap items-center gap-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs ${
+                            REPORT_STATUS_STYLES[schedule.reports[0].status as ReportStatus]
+                          }`}
+                        >
+                          {t.reportStatuses[schedule.reports[0].status as ReportStatus]}
+                        </span>
+                        {!readOnly &&
+                          (MEMBER_EDITABLE_STATUSES.includes(schedule.reports[0].status) ||
+                            schedule.reports[0].status === "withdrawn") && (
+                          <button
+                            type="button"
+                            className="ml-auto text-blue-600 hover:underline"
+                            onClick={() => {
+                              const dialog = document.getElementById(`report-${schedule.id}`) as HTMLDialogElement;
+                              dialog.showModal();
+                            }}
+                          >
+                            {schedule.reports[0].status === "withdrawn"
+                              ? t.schedule.resubmit
+                              : t.schedule.revise}
+                          </button>
+                        )}
+                        {!readOnly &&
+                          MEMBER_EDITABLE_STATUSES.includes(schedule.reports[0].status) && (
+                          <Form method="post">
+                            <input type="hidden" name="schedule_id" value={schedule.id} />
+                            <button
+                              type="submit"
+                              name="intent"
+                              value="withdraw-report"
+                              className="text-red-600 hover:underline"
+                              onClick={(e) => {
+                                if (!confirm(t.schedule.confirmWithdraw)) {
+                                  e.preventDefault();
+                                }
+                              }}
+                            >
+                              {t.schedule.withdraw}
+                            </button>
+                          </Form>
+                        )}
+                        {schedule.reports[0].status === "rejected" &&
+                          schedule.reports[0].review_comment && (
+                            <div className="w-full text-xs text-red-700">
+                              {t.schedule.rejectReason(schedule.reports[0].review_comment)}
+                            </div>
+                          )}
                       </div>
                     )}
 
+                    <dialog id={`edit-${schedule.id}`} className="rounded-lg p-6 w-full max-w-md">
+                      <h3 className="text-lg font-bold mb-4">{t.schedule.editTitle}</h3>
+                      {schedule.schedule_series && !readOnly && (
+                        <div className="mb-4 p-3 rounded bg-blue-50 text-sm text-gray-700">
+                          {t.schedule.occurrenceNote(
+                            describeWeeklyRecurrence(toRecurrence(schedule.schedule_series), t)
+                          )}
+                          <button
+                            type="button"
+                            className="block mt-1 text-blue-600 hover:underline"
+                            onClick={() => {
+                              (document.getElementById(`edit-${schedule.id}`) as HTMLDialogElement).close();
+                              (document.getElementById(`series-${schedule.id}`) as HTMLDialogElement).showModal();
+                            }}
+                          >
+                            {t.schedule.editSeries}
+                          </button>
+                        </div>
+                      )}
+                      <Form method="post" className="space-y-4">
+                        <input type="hidden" name="schedule_id" value={schedule.id} />
+                        <div>
+                          <label htmlFor={`start_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.startTime}</label>
+                          <input
+                            type="datetime-local"
+                            id={`start_time-${schedule.id}`}
+                            name="start_time"
+                            required
+                            defaultValue={toDateTimeInputValue(schedule.start_time, timeZone)}
+                            className="w-full rounded border-gray-300 shadow-sm"
+                          />
+                          <FieldError messages={errorsFor(schedule.id)?.start_time} />
+                        </div>
+                        <div>
+                          <label htmlFor={`end_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.endTime}</label>
+                          <input
+                            type="datetime-local"
+                            id={`end_time-${schedule.id}`}
+                            name="end_time"
+                            required
+                            defaultValue={toDateTimeInputValue(schedule.end_time, timeZone)}
+                            className="w-full rounded border-gray-300 shadow-sm"
+                          />
+                          <FieldError messages={errorsFor(schedule.id)?.end_time} />
+                        </div>
+                        <div>
+                          <label htmlFor={`location-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.location}</label>
+                          <input
+                            type="text"
+                            id={`location-${schedule.id}`}
+                            name="location"
+                            required
+                            defaultValue={schedule.location}
+                            className="w-full rounded border-gray-300 shadow-sm"
+                          />
+                          <FieldError messages={errorsFor(schedule.id)?.location} />
+                        </div>
+                        <div>
+                          <label htmlFor={`description-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.description}</label>
+                          <textarea
+                            id={`description-${schedule.id}`}
+                            name="description"
+                            required
+                            defaultValue={schedule.description}
+                            className="w-full rounded border-gray-300 shadow-sm"
+                            rows={3}
+                          />
+                          <FieldError messages={errorsFor(schedule.id)?.description} />
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                            onClick={() => {
+                              const dialog = document.getElementById(`edit-${schedule.id}`) as HTMLDialogElement;
+                              dialog.close();
+                            }}
+                          >
+                            {t.common.cancel}
+                          </button>
+                          <button
+                            type="submit"
+                            name="intent"
+                            value="update"
+                            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                          >
+                            {t.common.update}
+                          </button>
+                        </div>
+                      </Form>
+                    </dialog>
+
+                    <dialog id={`delete-${schedule.id}`} className="rounded-lg p-6 w-full max-w-md">
+                      <h3 className="text-lg font-bold mb-4">{t.schedule.deleteTitle}</h3>
+                      <p className="text-sm text-gray-600 mb-4">
+                        {t.schedule.confirmDelete(
+                          `${formatDate(schedule.start_time, "weekdayTime")} - ${formatDate(
+                            schedule.end_time,
+                            "time"
+                          )}`,
+                          schedule.location
+                        )}
+                      </p>
+                      <Form method="post" className="flex justify-end gap-2">
+                        <input type="hidden" name="schedule_id" value={schedule.id} />
+                        <button
+                          type="button"
+                          className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                          onClick={() => {
+                            const dialog = document.getElementById(`delete-${schedule.id}`) as HTMLDialogElement;
+                            dialog.close();
+                          }}
+                        >
+                          {t.common.cancel}
+                        </button>
+                        {schedule.series_id && !readOnly && (
+                          <>
+                            <input type="hidden" name="series_id" value={schedule.series_id} />
+                            <button
+                              type="submit"
+                              name="intent"
+                              value="delete-series"
+                              className="px-4 py-2 text-red-600 border border-red-600 rounded hover:bg-red-50"
+                            >
+                              {t.schedule.deleteFutureOccurrences}
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="submit"
+                          name="intent"
+                          value="delete"
+                          className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                        >
+                          {schedule.series_id
+                            ? t.schedule.deleteOccurrence
+                            : t.schedule.deleteSubmit}
+                        </button>
+                      </Form>
+                    </dialog>
+
+                    {schedule.schedule_series && (
+                      <dialog id={`series-${schedule.id}`} className="rounded-lg p-6 w-full max-w-md">
+                        <h3 className="text-lg font-bold mb-4">{t.schedule.seriesTitle}</h3>
+                        <p className="mb-4 text-sm text-gray-600">
+                          {t.schedule.seriesNote}
+                          {schedule.schedule_series.time_zone !== timeZone &&
+                            ` ${t.schedule.seriesTimeZone(schedule.schedule_series.time_zone)}`}
+                        </p>
+                        <Form method="post" className="space-y-4">
+                          <input type="hidden" name="schedule_id" value={schedule.id} />
+                          <input type="hidden" name="series_id" value={schedule.schedule_series.id} />
+                          <div>
+                            <span className="block text-sm font-medium mb-1">{t.schedule.weekdaysLabel}</span>
+                            <WeekdayCheckboxes
+                              idPrefix={`series-weekdays-${schedule.id}`}
+                              defaultValue={schedule.schedule_series.weekdays}
+                            />
+                            <FieldError messages={errorsFor(schedule.id)?.weekdays} />
+                          </div>
+                          <div className="flex gap-2">
+                            <div className="flex-1">
+                              <label htmlFor={`series-start_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.seriesStartTime}</label>
+                              <input
+                                type="time"
+                                id={`series-start_time-${schedule.id}`}
+                                name="start_time"
+                                required
+                                defaultValue={schedule.schedule_series.start_time.slice(0, 5)}
+                                className="w-full rounded border-gray-300 shadow-sm"
+                              />
+                            </div>
+                            <div className="flex-1">
+                              <label htmlFor={`series-end_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.seriesEndTime}</label>
+                              <input
+                                type="time"
+                                id={`series-end_time-${schedule.id}`}
+                                name="end_time"
+                                required
+                                defaultValue={schedule.schedule_series.end_time.slice(0, 5)}
+                                className="w-full rounded border-gray-300 shadow-sm"
+                              />
+                            </div>
+                          </div>
+                          <FieldError messages={errorsFor(schedule.id)?.start_time} />
+                          <FieldError messages={errorsFor(schedule.id)?.end_time} />
+                          <div>
+                            <label htmlFor={`series-until-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.until}</label>
+                            <input
+                              type="date"
+                              id={`series-until-${schedule.id}`}
+                              name="until"
+                              required
+                              defaultValue={schedule.schedule_series.until}
+                              className="w-full rounded border-gray-300 shadow-sm"
+                            />
+                            <FieldError messages={errorsFor(schedule.id)?.until} />
+                          </div>
+                          <div>
+                            <label htmlFor={`series-location-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.location}</label>
+                            <input
+                              type="text"
+                              id={`series-location-${schedule.id}`}
+                              name="location"
+                              required
+                              defaultValue={schedule.schedule_series.location}
+                              className="w-full rounded border-gray-300 shadow-sm"
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor={`series-description-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.description}</label>
+                            <textarea
+                              id={`series-description-${schedule.id}`}
+                              name="description"
+                              required
+                              defaultValue={schedule.schedule_series.description}
+                              className="w-full rounded border-gray-300 shadow-sm"
+                              rows={3}
+                            />
+                          </div>
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                              onClick={() => {
+                                const dialog = document.getElementById(`series-${schedule.id}`) as HTMLDialogElement;
+                                dialog.close();
+                              }}
+                            >
+                              {t.common.cancel}
+                            </button>
+                            <button
+                              type="submit"
+                              name="intent"
+                              value="update-series"
+                              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                            >
+                              {t.common.update}
+                            </button>
+                          </div>
+                        </Form>
+                      </dialog>
+                    )}
+
                     <dialog id={`report-${schedule.id}`} className="rounded-lg p-6 w-full max-w-md">
-                      <h3 className="text-lg font-bold mb-4">実績報告</h3>
+                      <h3 className="text-lg font-bold mb-1">
+                        {schedule.reports?.[0]
+                          ? t.schedule.reviseReportTitle
+                          : t.schedule.reportTitle}
+                      </h3>
+                      <p className="mb-4 text-sm text-gray-600">
+                        {t.schedule.reportNote(formatDate(schedule.start_time, "weekday"))}
+                      </p>
                       <Form method="post" className="space-y-4">
                         <input type="hidden" name="schedule_id" value={schedule.id} />
                         <div>
-                          <label htmlFor={`actual_start_time-${schedule.id}`} className="block text-sm font-medium mb-1">実際の開始時間</label>
+                          <label htmlFor={`actual_start_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.actualStartTime}</label>
                           <input
                             type="time"
                             id={`actual_start_time-${schedule.id}`}
                             name="actual_start_time"
                             required
+                            defaultValue={schedule.reports?.[0] ? toTimeInputValue(schedule.reports[0].actual_start_time, timeZone) : undefined}
                             className="w-full rounded border-gray-300 shadow-sm"
                           />
+                          <FieldError messages={errorsFor(schedule.id)?.actual_start_time} />
                         </div>
                         <div>
-                          <label htmlFor={`actual_end_time-${schedule.id}`} className="block text-sm font-medium mb-1">実際の終了時間</label>
+                          <label htmlFor={`actual_end_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.actualEndTime}</label>
                           <input
                             type="time"
                             id={`actual_end_time-${schedule.id}`}
                             name="actual_end_time"
                             required
+                            defaultValue={schedule.reports?.[0] ? toTimeInputValue(schedule.reports[0].actual_end_time, timeZone) : undefined}
                             className="w-full rounded border-gray-300 shadow-sm"
                           />
+                          <FieldError messages={errorsFor(schedule.id)?.actual_end_time} />
                         </div>
                         <div>
-                          <label htmlFor={`break_time-${schedule.id}`} className="block text-sm font-medium mb-1">休憩時間（分）</label>
+                          <label htmlFor={`break_time-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.breakMinutes}</label>
                           <input
                             type="number"
+                            id={`break_time-${schedule.id}`}
                             name="break_time"
                             required
+                            defaultValue={schedule.reports?.[0]?.break_time}
                             min="0"
                             step="15"
                             className="w-full rounded border-gray-300 shadow-sm"
                           />
+                          <FieldError messages={errorsFor(schedule.id)?.break_time} />
                         </div>
                         <div>
-                          <label htmlFor={`actual_description-${schedule.id}`} className="block text-sm font-medium mb-1">実際の業務内容</label>
+                          <label htmlFor={`actual_location-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.actualLocation}</label>
+                          <input
+                            type="text"
+                            id={`actual_location-${schedule.id}`}
+                            name="actual_location"
+                            required
+                            defaultValue={schedule.reports?.[0]?.actual_location ?? schedule.location}
+                            className="w-full rounded border-gray-300 shadow-sm"
+                          />
+                          <FieldError messages={errorsFor(schedule.id)?.actual_location} />
+                        </div>
+                        <div>
+                          <label htmlFor={`actual_description-${schedule.id}`} className="block text-sm font-medium mb-1">{t.schedule.actualDescription}</label>
                           <textarea
+                            id={`actual_description-${schedule.id}`}
                             name="actual_description"
                             required
+                            defaultValue={schedule.reports?.[0]?.actual_description}
                             className="w-full rounded border-gray-300 shadow-sm"
                             rows={3}
                           />
+                          <FieldError messages={errorsFor(schedule.id)?.actual_description} />
                         </div>
                         <div>
-                          <label htmlFor={`reflection-${schedule.id}`} className="block text-sm font-medium mb-1">振り返り</label>
+                          <label htmlFor={`reflection-${schedule.id}`} className="block text-sm font-medium mb-1">{t.common.reflection}</label>
                           <textarea
                             id={`reflection-${schedule.id}`}
                             name="reflection"
                             required
+                            defaultValue={schedule.reports?.[0]?.reflection}
                             className="w-full rounded border-gray-300 shadow-sm"
                             rows={3}
                           />
+                          <FieldError messages={errorsFor(schedule.id)?.reflection} />
                         </div>
                         <div className="flex justify-end gap-2">
                           <button
@@ -243,15 +1503,25 @@ export default function Schedule() {
                               dialog.close();
                             }}
                           >
-                            キャンセル
+                            {t.common.cancel}
                           </button>
                           <button
                             type="submit"
                             name="intent"
-                            value="report"
+                            value={
+                              !schedule.reports?.[0]
+                                ? "report"
+                                : schedule.reports[0].status === "withdrawn"
+                                  ? "resubmit-report"
+                                  : "update-report"
+                            }
                             className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
                           >
-                            報告する
+                            {schedule.reports?.[0]?.status === "withdrawn"
+                              ? t.schedule.resubmitSubmit
+                              : schedule.reports?.[0]
+                                ? t.common.update
+                                : t.schedule.reportSubmit}
                           </button>
                         </div>
                       </Form>
@@ -264,10 +1534,10 @@ export default function Schedule() {
       </div>
 
       <dialog id="new-schedule" className="rounded-lg p-6 w-full max-w-md">
-        <h3 className="text-lg font-bold mb-4">新規予定登録</h3>
+        <h3 className="text-lg font-bold mb-4">{t.schedule.newSchedule}</h3>
         <Form method="post" className="space-y-4">
           <div>
-            <label htmlFor="start_time" className="block text-sm font-medium mb-1">開始時間</label>
+            <label htmlFor="start_time" className="block text-sm font-medium mb-1">{t.common.startTime}</label>
             <input
               type="datetime-local"
               id="start_time"
@@ -275,9 +1545,10 @@ export default function Schedule() {
               required
               className="w-full rounded border-gray-300 shadow-sm"
             />
+            <FieldError messages={newScheduleErrors?.start_time} />
           </div>
           <div>
-            <label htmlFor="end_time" className="block text-sm font-medium mb-1">終了時間</label>
+            <label htmlFor="end_time" className="block text-sm font-medium mb-1">{t.common.endTime}</label>
             <input
               type="datetime-local"
               id="end_time"
@@ -285,9 +1556,10 @@ export default function Schedule() {
               required
               className="w-full rounded border-gray-300 shadow-sm"
             />
+            <FieldError messages={newScheduleErrors?.end_time} />
           </div>
           <div>
-            <label htmlFor="location" className="block text-sm font-medium mb-1">場所</label>
+            <label htmlFor="location" className="block text-sm font-medium mb-1">{t.common.location}</label>
             <input
               type="text"
               id="location"
@@ -295,9 +1567,10 @@ export default function Schedule() {
               required
               className="w-full rounded border-gray-300 shadow-sm"
             />
+            <FieldError messages={newScheduleErrors?.location} />
           </div>
           <div>
-            <label htmlFor="description" className="block text-sm font-medium mb-1">業務内容</label>
+            <label htmlFor="description" className="block text-sm font-medium mb-1">{t.common.description}</label>
             <textarea
               id="description"
               name="description"
@@ -305,7 +1578,41 @@ export default function Schedule() {
               className="w-full rounded border-gray-300 shadow-sm"
               rows={3}
             />
+            <FieldError messages={newScheduleErrors?.description} />
+          </div>
+          <div>
+            <label htmlFor="repeat" className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                id="repeat"
+                name="repeat"
+                value="weekly"
+                checked={repeat}
+                onChange={(e) => setRepeat(e.target.checked)}
+              />
+              {t.schedule.repeatWeekly}
+            </label>
           </div>
+          {repeat && (
+            <>
+              <div>
+                <span className="block text-sm font-medium mb-1">{t.schedule.weekdaysLabel}</span>
+                <WeekdayCheckboxes idPrefix="weekdays" />
+                <FieldError messages={newScheduleErrors?.weekdays} />
+              </div>
+              <div>
+                <label htmlFor="until" className="block text-sm font-medium mb-1">{t.schedule.repeatUntil}</label>
+                <input
+                  type="date"
+                  id="until"
+                  name="until"
+                  required
+                  className="w-full rounded border-gray-300 shadow-sm"
+                />
+                <FieldError messages={newScheduleErrors?.until} />
+              </div>
+            </>
+          )}
           <div className="flex justify-end gap-2">
             <button
               type="button"
@@ -315,7 +1622,7 @@ export default function Schedule() {
                 dialog.close();
               }}
             >
-              キャンセル
+              {t.common.cancel}
             </button>
             <button
               type="submit"
@@ -323,11 +1630,185 @@ export default function Schedule() {
               value="create"
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
-              登録する
+              {t.schedule.createSubmit}
             </button>
           </div>
         </Form>
       </dialog>
+
+      <dialog id="calendar-feed" className="rounded-lg p-6 w-full max-w-lg">
+        <h3 className="text-lg font-bold mb-4">{t.schedule.calendarFeed}</h3>
+        <div className="space-y-4 text-sm">
+          <p className="text-gray-600">
+            {t.schedule.feedDescription}
+          </p>
+          {feedUrl ? (
+            <>
+              <div>
+                <label htmlFor="calendar-feed-url" className="block font-medium mb-1">
+                  {t.schedule.feedUrl}
+                </label>
+                <input
+                  type="text"
+                  id="calendar-feed-url"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full rounded border-gray-300 shadow-sm text-xs"
+                />
+                <a
+                  href={feedUrl.replace(/^https?:/, "webcal:")}
+                  className="inline-block mt-1 text-blue-600 hover:underline"
+                >
+                  {t.schedule.openInCalendar}
+                </a>
+              </div>
+              <p className="text-xs text-gray-500">
+                {t.schedule.feedWarning}
+              </p>
+            </>
+          ) : (
+            <p>{t.schedule.feedNotIssued}</p>
+          )}
+          <Form method="post" className="flex justify-end gap-2">
+            <button
+              type="button"
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+              onClick={() => {
+                const dialog = document.getElementById("calendar-feed") as HTMLDialogElement;
+                dialog.close();
+              }}
+            >
+              {t.common.close}
+            </button>
+            <button
+              type="submit"
+              name="intent"
+              value="issue-calendar-feed"
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              {feedUrl ? t.schedule.reissueFeed : t.schedule.issueFeed}
+            </button>
+          </Form>
+        </div>
+      </dialog>
+
+      <dialog id="import-ics" className="rounded-lg p-6 w-full max-w-4xl">
+        <h3 className="text-lg font-bold mb-4">{t.schedule.importIcs}</h3>
+        <Form method="post" encType="multipart/form-data" className="space-y-2 mb-4">
+          <label htmlFor="import-ics-file" className="block text-sm font-medium">
+            {t.schedule.icsFile}
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              id="import-ics-file"
+              name="file"
+              accept=".ics,text/calendar"
+              required
+              className="flex-1 text-sm"
+            />
+            <button
+              type="submit"
+              name="intent"
+              value="preview-ics"
+              className="px-4 py-2 rounded border border-gray-300 text-sm hover:bg-gray-200"
+            >
+              {t.schedule.loadIcs}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {t.schedule.importNote(MAX_IMPORT_SCHEDULES)}
+          </p>
+        </Form>
+        {importError && <p className="text-red-600 text-sm mb-2">{importError}</p>}
+        {importResult && (
+          <Form method="post" key={importResult.importId} className="space-y-4">
+            <input type="hidden" name="import_id" value={importResult.importId} />
+            {importSkipped > 0 && (
+              <p className="text-sm text-gray-500">
+                {t.schedule.importSkipped(importSkipped)}
+              </p>
+            )}
+            <div className="max-h-96 overflow-y-auto border rounded">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 text-left">
+                    <th className="px-3 py-2">{t.schedule.importSelect}</th>
+                    <th className="px-3 py-2">{t.schedule.importDateTime}</th>
+                    <th className="px-3 py-2">{t.common.location}</th>
+                    <th className="px-3 py-2">{t.common.description}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {importResult.importDrafts.map((draft, index) => (
+                    <tr key={index} className="align-top">
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          name="selected"
+                          value={index}
+                          defaultChecked={draft.selected}
+                          aria-label={t.schedule.importSelect}
+                        />
+                        <input type="hidden" name="start_time" value={draft.start_time} />
+                        <input type="hidden" name="end_time" value={draft.end_time} />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {formatPlainDate(draft.start_time, "weekdayTime")} -{" "}
+                        {formatPlainDate(draft.end_time, "monthDayTime")}
+                        {draft.error && (
+                          <p className="text-red-600 text-xs mt-1 whitespace-normal">
+                            {draft.error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          name="location"
+                          defaultValue={draft.location}
+                          aria-label={t.common.location}
+                          className="w-full rounded border-gray-300 text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          name="description"
+                          defaultValue={draft.description}
+                          aria-label={t.common.description}
+                          className="w-full rounded border-gray-300 text-sm"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded"
+                onClick={() => {
+                  const dialog = document.getElementById("import-ics") as HTMLDialogElement;
+                  dialog.close();
+                }}
+              >
+                {t.common.cancel}
+              </button>
+              <button
+                type="submit"
+                name="intent"
+                value="import-ics"
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                {t.schedule.importSubmit}
+              </button>
+            </div>
+          </Form>
+        )}
+      </dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  Outlet,
+  useFetcher,
+  useLoaderData,
+} from "@remix-run/react";
+import {
+  Bell,
+  CalendarDays,
+  ClipboardList,
+  LayoutGrid,
+  ScrollText,
+  Users,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { requireUser } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n } from "~/lib/i18n";
+import { UNREAD_POLL_INTERVAL } from "~/lib/notifications";
+import { can } from "~/lib/permissions";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import type { loader as unreadLoader } from "./notifications.unread";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { user, profile } = await requireUser(context);
+  const { data: unreadCount } = await db.notifications.countUnread(user.id);
+
+  return json(
+    // 日時はこのタイムゾーンで表示する（useI18n が読む）
+    { profile, unreadCount: unreadCount ?? 0, timeZone: resolveTimeZone(profile) },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+/** 未読件数付きの通知ベル。開いている間は定期的に、画面に戻ったときにも件数を取り直す */
+function NotificationBell({ initialCount }: { initialCount: number }) {
+  const fetcher = useFetcher<typeof unreadLoader>();
+  const { t } = useI18n();
+  const [count, setCount] = useState(initialCount);
+
+  // 既読にした後などに画面のデータが読み直されたら、その件数を使う
+  useEffect(() => setCount(initialCount), [initialCount]);
+
+  useEffect(() => {
+    if (fetcher.data) setCount(fetcher.data.count);
+  }, [fetcher.data]);
+
+  const { load } = fetcher;
+  useEffect(() => {
+    const refresh = () => {
+      if (document.visibilityState === "visible") load("/notifications/unread");
+    };
+    const timer = setInterval(refresh, UNREAD_POLL_INTERVAL);
+    document.addEventListener("visibilitychange", refresh);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", refresh);
+    };
+  }, [load]);
+
+  return (
+    <Link
+      to="/notifications"
+      className="relative text-gray-700 hover:text-blue-600"
+      aria-label={count > 0 ? t.nav.unreadNotifications(count) : t.nav.notifications}
+    >
+      <Bell className="w-5 h-5" />
+      {count > 0 && (
+        <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+          {count > 99 ? "99+" : count}
+        </span>
+      )}
+    </Link>
+  );
+}
+
+export default function AppLayout() {
+  const { profile, unreadCount } = useLoaderData<typeof loader>();
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <nav className="bg-white shadow">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-8">
+              <Link
+                to="/schedule"
+                className="text-gray-700 hover:text-blue-600 flex items-center gap-2"
+              >
+                <CalendarDays className="w-5 h-5" />
+                {t.nav.schedule}
+              </Link>
+              <Link
+                to="/board"
+                className="text-gray-700 hover:text-blue-600 flex items-center gap-2"
+              >
+                <LayoutGrid className="w-5 h-5" />
+                {t.nav.board}
+              </Link>
+              {can(profile.role, "reports:view") && (
+                <Link
+                  to="/reports"
+                  className="text-gray-700 hover:text-blue-600 flex items-center gap-2"
+                >
+                  <ClipboardList className="w-5 h-5" />
+                  {t.nav.reports}
+                </Link>
+              )}
+              {can(profile.role, "members:manage") && (
+                <Link
+                  to="/members"
+                  className="text-gray-700 hover:text-blue-600 flex items-center gap-2"
+                >
+                  <Users className="w-5 h-5" />
+                  {t.nav.members}
+                </Link>
+              )}
+              {can(profile.role, "audit:view") && (
+                <Link
+                  to="/audit"
+                  className="text-gray-700 hover:text-blue-600 flex items-center gap-2"
+                >
+                  <ScrollText className="w-5 h-5" />
+                  {t.nav.audit}
+                </Link>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <LanguageSwitcher />
+              <NotificationBell initialCount={unreadCount} />
+              <span className="text-sm text-gray-500">
+                {t.nav.profile(profile.full_name, t.roles[profile.role])}
+              </span>
+              <Form action="/logout" method="post">
+                <button
+                  type="submit"
+                  className="text-gray-700 hover:text-blue-600"
+                >
+                  {t.nav.logout}
+                </button>
+              </Form>
+            </div>
+          </div>
+        </div>
+      </nav>
+      <main>
+        <Outlet />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { Form, Link, useActionData } from "@remix-run/react";
+import { KeyRound } from "lucide-react";
+import { z } from "zod";
+import { authErrorMessage } from "~/lib/auth-errors";
+import { authCallbackUrl } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n, type Messages } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+
+const forgotPasswordSchema = (t: Messages) =>
+  z.object({
+    email: z.string().email(t.validation.email),
+  });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { auth, response } = createServerContext(request);
+  const { t } = await getI18n(request);
+
+  const formData = await request.formData();
+  const result = forgotPasswordSchema(t).safeParse({
+    email: formData.get("email"),
+  });
+
+  if (!result.success) {
+    return json({ error: result.error.flatten().fieldErrors.email?.[0] });
+  }
+
+  const { error } = await auth.sendPasswordReset({
+    email: result.data.email,
+    redirectTo: authCallbackUrl(request, "/set-password"),
+  });
+
+  // 登録の有無が分からないよう、送信制限とこの方法が使えない場合以外のエラーは表示しない
+  if (error?.status === 429 || error?.code === "provider_disabled") {
+    return json({ error: authErrorMessage(error, t) });
+  }
+  if (error) {
+    console.error(error);
+  }
+
+  return json({ message: t.password.resetSent }, { headers: response.headers });
+};
+
+export default function ForgotPassword() {
+  const actionData = useActionData<typeof action>();
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-blue-100">
+            <KeyRound className="h-6 w-6 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {t.password.forgotTitle}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {t.password.forgotNote}
+          </p>
+        </div>
+        <Form method="post" className="mt-8 space-y-6">
+          <div>
+            <label htmlFor="email" className="sr-only">
+              {t.common.email}
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder={t.common.email}
+            />
+          </div>
+
+          {actionData && "error" in actionData && actionData.error && (
+            <div className="text-red-600 text-sm">{actionData.error}</div>
+          )}
+          {actionData && "message" in actionData && (
+            <div className="text-green-700 text-sm">{actionData.message}</div>
+          )}
+
+          <button
+            type="submit"
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t.password.send}
+          </button>
+
+          <div className="text-center text-sm">
+            <Link to="/login" className="text-blue-600 hover:underline">
+              {t.password.backToLogin}
+            </Link>
+          </div>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,135 @@
-import { json, type ActionFunctionArgs } from "@remix-run/node";
-import { Form, redirect, useActionData } from "@remix-run/react";
-import { createServerClient } from "@supabase/auth-helpers-remix";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, redirect, useActionData, useLoaderData } from "@remix-run/react";
+import type { Provider } from "@supabase/supabase-js";
 import { Lock } from "lucide-react";
+import { LanguageSwitcher } from "~/components/language-switcher";
+import { authErrorMessage } from "~/lib/auth-errors";
+import { authCallbackUrl } from "~/lib/auth.server";
+import { createServerContext, getDataBackend } from "~/lib/context.server";
+import { useI18n } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
 
+const OAUTH_PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  google: "Google",
+  slack_oidc: "Slack",
+  azure: "Microsoft",
+  github: "GitHub",
+};
+
+/** ローカルのログイン（DATA_BACKEND=memory）ではパスワードでのログインのみ使える */
+const emailLinksEnabled = () => getDataBackend() === "supabase";
+
+/** AUTH_OAUTH_PROVIDER に設定された外部サービスでのログインを有効にする */
+const oauthProvider = () => {
+  if (!emailLinksEnabled()) {
+    return null;
+  }
+  const provider = process.env.AUTH_OAUTH_PROVIDER as Provider | undefined;
+  return provider && OAUTH_PROVIDER_LABELS[provider] ? provider : null;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const url = new URL(request.url);
+  const errorCode = url.searchParams.get("error");
+  const provider = oauthProvider();
+  const { t } = await getI18n(request);
+
+  return json({
+    error: errorCode ? authErrorMessage({ code: errorCode }, t) : null,
+    oauth: provider
+      ? { provider, label: OAUTH_PROVIDER_LABELS[provider] }
+      : null,
+    emailLinks: emailLinksEnabled(),
+  });
+};
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const response = new Response();
-  const supabase = createServerClient(
-    process.env.SUPABASE_URL!,
-    process.env.SUPABASE_ANON_KEY!,
-    { request, response }
-  );
+  const { auth, response, db } = createServerContext(request);
+  const { t } = await getI18n(request);
 
   const formData = await request.formData();
+  const intent = formData.get("intent");
   const email = formData.get("email") as string;
+
+  if (intent === "oauth") {
+    const provider = oauthProvider();
+    if (!provider) {
+      return json({ error: t.login.unavailable });
+    }
+
+    const { url, error } = await auth.signInWithOAuth({
+      provider,
+      redirectTo: authCallbackUrl(request),
+    });
+
+    if (error) {
+      console.error(error);
+      return json({ error: authErrorMessage(error, t) });
+    }
+
+    return redirect(url, {
+      headers: response.headers,
+    });
+  }
+
+  if (intent === "magic-link") {
+    if (!emailLinksEnabled()) {
+      return json({ error: t.login.unavailable });
+    }
+    if (!email) {
+      return json({ error: t.login.emailRequired });
+    }
+
+    // 招待されていないメールアドレスでアカウントが作られないようにする
+    const { error } = await auth.sendLoginLink({
+      email,
+      shouldCreateUser: false,
+      redirectTo: authCallbackUrl(request),
+    });
+
+    if (error) {
+      console.error(error);
+      return json({ error: authErrorMessage(error, t) });
+    }
+
+    return json(
+      { message: t.login.linkSent },
+      { headers: response.headers }
+    );
+  }
+
   const password = formData.get("password") as string;
 
-  const { error } = await supabase.auth.signInWithPassword({
+  const { user, error } = await auth.signInWithPassword({
     email,
     password,
   });
 
   if (error) {
     console.error(error);
-    return json({ error: error.message });
+    return json({ error: authErrorMessage(error, t) });
   }
 
-  return redirect("/");
+  const { data: profile } = await db.profiles.get(user.id);
+
+  if (profile?.deactivated_at) {
+    await auth.signOut();
+    return json(
+      { error: t.login.deactivated },
+      { headers: response.headers }
+    );
+  }
+
+  return redirect("/", {
+    headers: response.headers,
+  });
 };
 
 export default function Login() {
+  const { error: loaderError, oauth, emailLinks } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
+  const { t } = useI18n();
+  const error = actionData && "error" in actionData ? actionData.error : loaderError;
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -40,14 +139,14 @@ export default function Login() {
             <Lock className="h-6 w-6 text-blue-600" />
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            出勤予定管理システム
+            {t.login.title}
           </h2>
         </div>
         <Form method="post" className="mt-8 space-y-6">
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="email" className="sr-only">
-                メールアドレス
+                {t.common.email}
               </label>
               <input
                 id="email"
@@ -55,12 +154,12 @@ export default function Login() {
                 type="email"
                 required
                 className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="メールアドレス"
+                placeholder={t.common.email}
               />
             </div>
             <div>
               <label htmlFor="password" className="sr-only">
-                パスワード
+                {t.login.password}
               </label>
               <input
                 id="password"
@@ -68,25 +167,64 @@ export default function Login() {
                 type="password"
                 required
                 className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
-                placeholder="パスワード"
+                placeholder={t.login.password}
               />
             </div>
           </div>
 
-          {actionData && "error" in actionData && actionData.error && (
-            <div className="text-red-600 text-sm">{actionData.error}</div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+          {actionData && "message" in actionData && (
+            <div className="text-green-700 text-sm">{actionData.message}</div>
           )}
 
-          <div>
+          <div className="space-y-3">
             <button
               type="submit"
+              name="intent"
+              value="password"
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
             >
-              ログイン
+              {t.login.submit}
             </button>
+            {emailLinks && (
+              <button
+                type="submit"
+                name="intent"
+                value="magic-link"
+                formNoValidate
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                {t.login.sendLink}
+              </button>
+            )}
           </div>
+
+          {emailLinks && (
+            <div className="text-center text-sm">
+              <Link to="/forgot-password" className="text-blue-600 hover:underline">
+                {t.login.forgotPassword}
+              </Link>
+            </div>
+          )}
         </Form>
+
+        {oauth && (
+          <Form method="post">
+            <button
+              type="submit"
+              name="intent"
+              value="oauth"
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              {t.login.withProvider(oauth.label ?? oauth.provider)}
+            </button>
+          </Form>
+        )}
+
+        <div className="flex justify-center">
+          <LanguageSwitcher />
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+import {
+  json,
+  redirect,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+import { KeyRound } from "lucide-react";
+import { z } from "zod";
+import { authErrorMessage } from "~/lib/auth-errors";
+import { createServerContext } from "~/lib/context.server";
+import { useI18n, type Messages } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const passwordSchema = (t: Messages) =>
+  z
+    .object({
+      password: z
+        .string()
+        .min(MIN_PASSWORD_LENGTH, t.validation.passwordTooShort(MIN_PASSWORD_LENGTH)),
+      password_confirmation: z.string(),
+    })
+    .refine((data) => data.password === data.password_confirmation, {
+      message: t.validation.passwordMismatch,
+      path: ["password_confirmation"],
+    });
+
+/**
+ * パスワードの設定画面。招待メールからの初回ログイン時と、
+ * パスワード再設定のメールから開いたときに使う。
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { auth, response } = createServerContext(request);
+
+  const user = await auth.getUser();
+
+  if (!user) {
+    throw redirect("/login?error=session_not_found");
+  }
+
+  return json(
+    { initial: !user.passwordSet, email: user.email ?? "" },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { auth, response } = createServerContext(request);
+  const { t } = await getI18n(request);
+
+  const formData = await request.formData();
+  const result = passwordSchema(t).safeParse({
+    password: formData.get("password"),
+    password_confirmation: formData.get("password_confirmation"),
+  });
+
+  if (!result.success) {
+    return json({ errors: result.error.flatten().fieldErrors });
+  }
+
+  const { error } = await auth.updatePassword(result.data.password);
+
+  if (error) {
+    console.error(error);
+    return json({ error: authErrorMessage(error, t) });
+  }
+
+  return redirect("/", {
+    headers: response.headers,
+  });
+};
+
+export default function SetPassword() {
+  const { initial, email } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-blue-100">
+            <KeyRound className="h-6 w-6 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {initial ? t.password.setTitle : t.password.resetTitle}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {initial ? t.password.setNote(email) : t.password.resetNote(email)}
+          </p>
+        </div>
+        <Form method="post" className="mt-8 space-y-6">
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium mb-1">
+                {t.password.password(MIN_PASSWORD_LENGTH)}
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                className="w-full rounded border-gray-300 shadow-sm"
+              />
+              {actionData && "errors" in actionData && actionData.errors.password && (
+                <p className="text-red-600 text-sm mt-1">{actionData.errors.password[0]}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="password_confirmation" className="block text-sm font-medium mb-1">
+                {t.password.confirmation}
+              </label>
+              <input
+                id="password_confirmation"
+                name="password_confirmation"
+                type="password"
+                required
+                autoComplete="new-password"
+                className="w-full rounded border-gray-300 shadow-sm"
+              />
+              {actionData && "errors" in actionData && actionData.errors.password_confirmation && (
+                <p className="text-red-600 text-sm mt-1">{actionData.errors.password_confirmation[0]}</p>
+              )}
+            </div>
+          </div>
+
+          {actionData && "error" in actionData && (
+            <div className="text-red-600 text-sm">{actionData.error}</div>
+          )}
+
+          <button
+            type="submit"
+            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t.password.submit}
+          </button>
+        </Form>
+      </div>
+    </div>
+  );
+}
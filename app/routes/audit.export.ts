@@ -0,0 +1,65 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { describeAuditChanges } from "~/lib/audit";
+import { parseAuditFilter } from "~/lib/audit.server";
+import { requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { contentDisposition, toCsv } from "~/lib/csv";
+import { getI18n } from "~/lib/i18n.server";
+import { formatInTimeZone } from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+
+/**
+ * 監査ログを CSV でダウンロードする。絞り込みの条件は監査ログ画面と同じ。
+ * 変更前・変更後の値は JSON のまま出力する。
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "audit:view");
+  const timeZone = resolveTimeZone(profile);
+  const i18n = await getI18n(request, timeZone);
+  const { t, formatDate } = i18n;
+
+  const { filter } = parseAuditFilter(new URL(request.url).searchParams, timeZone);
+  const [{ data: logs }, { data: teams }] = await Promise.all([
+    db.auditLogs.list(filter),
+    db.teams.list(),
+  ]);
+
+  const teamNames = Object.fromEntries(
+    (teams ?? []).map((team) => [team.id, team.name])
+  );
+  const header = [
+    t.audit.dateTime,
+    t.audit.actor,
+    t.audit.actorId,
+    t.audit.entity,
+    t.audit.entityId,
+    t.audit.action,
+    t.audit.changes,
+    t.audit.before,
+    t.audit.after,
+  ];
+  const rows = (logs ?? []).map((log) => [
+    formatDate(log.created_at, "dateTimeSeconds"),
+    log.actor?.full_name ?? "",
+    log.actor_id,
+    t.auditEntities[log.entity_type],
+    log.entity_id,
+    t.auditActions[log.action],
+    describeAuditChanges(log, i18n, teamNames).join("\n"),
+    log.before && JSON.stringify(log.before),
+    log.after && JSON.stringify(log.after),
+  ]);
+
+  const date = formatInTimeZone(new Date(), timeZone, "yyyyMMdd");
+  const headers = new Headers(response.headers);
+  headers.set("Content-Type", "text/csv; charset=utf-8");
+  headers.set(
+    "Content-Disposition",
+    contentDisposition(`${t.audit.fileName(date)}.csv`, `audit-log-${date}.csv`)
+  );
+
+  return new Response(toCsv([header, ...rows]), { headers });
+};
@@ -0,0 +1,42 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { safeRedirectPath } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+
+/**
+ * 認証メールのリンクと外部サービスでのログインの戻り先。
+ * - code: 外部サービスでのログインと、同じブラウザから送信したログインリンク (PKCE)
+ * - token_hash / type: 招待・パスワード再設定のメール。他のブラウザで開いても
+ *   ログインできるよう、Supabase のメールテンプレートでは
+ *   {{ .RedirectTo }}&token_hash={{ .TokenHash }}&type=<種類> へのリンクにすること
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { auth, response } = createServerContext(request);
+
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  const tokenHash = url.searchParams.get("token_hash");
+  const type = url.searchParams.get("type") as EmailOtpType | null;
+  let next = safeRedirectPath(url.searchParams.get("next"), request);
+
+  const { user, error } = await auth.verifyCallback({ code, tokenHash, type });
+
+  if (!user) {
+    const errorCode =
+      error?.code ?? url.searchParams.get("error_code") ?? "otp_expired";
+    return redirect(`/login?error=${encodeURIComponent(errorCode)}`, {
+      headers: response.headers,
+    });
+  }
+
+  // パスワード再設定と、招待メールからログインしてまだパスワードを設定していない場合は
+  // パスワードの設定画面へ（外部サービスでログインするユーザーには不要）
+  const needsPassword = user.provider === "email" && !user.passwordSet;
+  if (type === "recovery" || needsPassword) {
+    next = "/set-password";
+  }
+
+  return redirect(next, {
+    headers: response.headers,
+  });
+};
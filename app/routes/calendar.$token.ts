@@ -0,0 +1,44 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { subDays } from "date-fns";
+import { createServerContext } from "~/lib/context.server";
+import { toICalendar } from "~/lib/ical";
+import { getI18n } from "~/lib/i18n.server";
+
+/** フィードに含める過去の予定の日数 */
+const FEED_PAST_DAYS = 90;
+
+/**
+ * 予定の購読用 iCalendar フィード (/calendar/<トークン>.ics)。
+ * カレンダーアプリはログインせずに取得するため、URL のトークンで持ち主を特定する。
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { db } = createServerContext(request);
+  const token = (params.token ?? "").replace(/\.ics$/, "");
+
+  const { data: owner } = await db.calendarFeeds.owner(token);
+  if (!owner) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const { data: schedules, error } = await db.calendarFeeds.schedules(
+    token,
+    subDays(new Date(), FEED_PAST_DAYS).toISOString()
+  );
+  if (error) {
+    throw new Response("Internal Server Error", { status: 500 });
+  }
+
+  const { t } = await getI18n(request);
+  const body = toICalendar(schedules, {
+    calendarName: t.calendarFeed.name(owner.full_name),
+    domain: new URL(request.url).hostname,
+    t,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "private, no-store",
+    },
+  });
+};
@@ -0,0 +1,30 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { createJobContext } from "~/lib/context.server";
+import { getI18n } from "~/lib/i18n.server";
+import { sendReportReminders } from "~/lib/report-notifications.server";
+
+/**
+ * 未提出の実績の督促を送る定期実行のジョブ。cron などから
+ * `Authorization: Bearer $CRON_SECRET` を付けて POST する。
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const { db } = createJobContext();
+  const { reminded, escalated, error } = await sendReportReminders(db);
+
+  if (error) {
+    console.error(error);
+    const { t } = await getI18n(request);
+    return json(
+      { error: t.notifications.errors.sendReminders },
+      { status: 500 }
+    );
+  }
+
+  return json({ reminded, escalated });
+};
@@ -0,0 +1,22 @@
+import { redirect, type ActionFunctionArgs } from "@remix-run/node";
+import { safeRedirectPath } from "~/lib/auth.server";
+import { isLocale } from "~/lib/i18n";
+import { localeCookie } from "~/lib/i18n.server";
+
+/** 表示言語を切り替え、元の画面に戻る */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+  const locale = formData.get("locale");
+  // 他のサイトへのリダイレクトに使われないよう、アプリ内のパスだけを受け付ける
+  const safeRedirectTo = safeRedirectPath(formData.get("redirect_to"), request);
+
+  if (!isLocale(locale)) {
+    return redirect(safeRedirectTo);
+  }
+
+  return redirect(safeRedirectTo, {
+    headers: { "Set-Cookie": await localeCookie.serialize(locale) },
+  });
+};
+
+export const loader = () => redirect("/");
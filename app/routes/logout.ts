@@ -0,0 +1,14 @@
+import { redirect, type ActionFunctionArgs } from "@remix-run/node";
+import { createServerContext } from "~/lib/context.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { auth, response } = createServerContext(request);
+
+  await auth.signOut();
+
+  return redirect("/login", {
+    headers: response.headers,
+  });
+};
+
+export const loader = () => redirect("/");
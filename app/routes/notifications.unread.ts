@@ -0,0 +1,19 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireUser } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+
+/** ナビゲーションのベルに表示する未読件数。画面を開いている間、定期的に取り直す */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { user } = await requireUser(context);
+  const { data: count } = await db.notifications.countUnread(user.id);
+
+  return json(
+    { count: count ?? 0 },
+    {
+      headers: response.headers,
+    }
+  );
+};
@@ -0,0 +1,130 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import ExcelJS from "exceljs";
+import { requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { contentDisposition, toCsv } from "~/lib/csv";
+import type { I18n } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import { monthRange, readYearMonth } from "~/lib/month";
+import { groupReportsByUser } from "~/lib/reports";
+import type { ReportWithDetails } from "~/lib/repository.server";
+import { toDateKey, toZonedRange, toZonedTime } from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import { calculateWorkMinutes, sumBreakMinutes } from "~/lib/work-time";
+
+const detailRows = (reports: ReportWithDetails[], { t, formatDate }: I18n) =>
+  reports.map((report) => [
+    formatDate(report.actual_start_time, "dateWeekday"),
+    report.schedules.profiles.full_name,
+    formatDate(report.actual_start_time, "time"),
+    formatDate(report.actual_end_time, "time"),
+    Number(report.break_time),
+    calculateWorkMinutes(report),
+    report.actual_location ?? report.schedules.location,
+    report.actual_description,
+    t.reportStatuses[report.status],
+  ]);
+
+const summaryRows = (
+  reports: ReportWithDetails[],
+  { timeZone, formatDuration }: I18n
+) =>
+  Object.values(groupReportsByUser(reports)).map(
+    ({ userName, reports, totalWorkMinutes }) => [
+      userName,
+      new Set(
+        reports.map((report) => toDateKey(report.actual_start_time, timeZone))
+      ).size,
+      sumBreakMinutes(reports),
+      totalWorkMinutes,
+      formatDuration(totalWorkMinutes),
+    ]
+  );
+
+/**
+ * 文字列のセルを文字列の書式にする。メンバーが入力した = などで始まる業務内容が、
+ * Excel で編集したときに数式として扱われないようにする。
+ */
+const markTextCells = (sheet: ExcelJS.Worksheet) =>
+  sheet.eachRow((row) =>
+    row.eachCell((cell) => {
+      if (cell.type === ExcelJS.ValueType.String) {
+        cell.numFmt = "@";
+      }
+    })
+  );
+
+/**
+ * 月次の勤務実績を給与計算用にダウンロードする。
+ * - format=csv (既定): type=detail で1実績1行の明細、type=summary でメンバーごとの集計
+ * - format=xlsx: 明細と集計の2シートを含む Excel ファイル
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "reports:export");
+  // 月と日の区切りは出力するメンバーのタイムゾーンの暦で決める
+  const timeZone = resolveTimeZone(profile);
+  const i18n = await getI18n(request, timeZone);
+  const { t } = i18n;
+
+  const url = new URL(request.url);
+  const today = toZonedTime(new Date(), timeZone);
+  const { year, month } = readYearMonth(url.searchParams, today);
+  const exportFormat = url.searchParams.get("format") === "xlsx" ? "xlsx" : "csv";
+  const type = url.searchParams.get("type") === "summary" ? "summary" : "detail";
+  const range = monthRange(year, month);
+
+  const { data } = await db.reports.list(toZonedRange(range, timeZone));
+
+  const reports = data ?? [];
+  const period = `${year}-${month.padStart(2, "0")}`;
+  const headers = new Headers(response.headers);
+
+  if (exportFormat === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+
+    const detailSheet = workbook.addWorksheet(t.reportExport.detailSheet);
+    detailSheet.addRows([t.reportExport.detailHeader, ...detailRows(reports, i18n)]);
+    detailSheet.getRow(1).font = { bold: true };
+    detailSheet.views = [{ state: "frozen", ySplit: 1 }];
+    markTextCells(detailSheet);
+
+    const summarySheet = workbook.addWorksheet(t.reportExport.summarySheet);
+    summarySheet.addRows([t.reportExport.summaryHeader, ...summaryRows(reports, i18n)]);
+    summarySheet.getRow(1).font = { bold: true };
+    markTextCells(summarySheet);
+
+    headers.set(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    headers.set(
+      "Content-Disposition",
+      contentDisposition(
+        `${t.reportExport.detailFileName(period)}.xlsx`,
+        `timesheet-${period}.xlsx`
+      )
+    );
+
+    return new Response(await workbook.xlsx.writeBuffer(), { headers });
+  }
+
+  const rows =
+    type === "summary"
+      ? [t.reportExport.summaryHeader, ...summaryRows(reports, i18n)]
+      : [t.reportExport.detailHeader, ...detailRows(reports, i18n)];
+  const name =
+    type === "summary"
+      ? t.reportExport.summaryFileName(period)
+      : t.reportExport.detailFileName(period);
+
+  headers.set("Content-Type", "text/csv; charset=utf-8");
+  headers.set(
+    "Content-Disposition",
+    contentDisposition(`${name}.csv`, `timesheet-${type}-${period}.csv`)
+  );
+
+  return new Response(toCsv(rows), { headers });
+};
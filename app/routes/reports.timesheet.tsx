@@ -0,0 +1,226 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { addDays, eachDayOfInterval, format, parseISO } from "date-fns";
+import { Printer } from "lucide-react";
+import { requirePermission } from "~/lib/auth.server";
+import { createServerContext } from "~/lib/context.server";
+import { createI18n, useI18n } from "~/lib/i18n";
+import { getI18n } from "~/lib/i18n.server";
+import { monthRange, readYearMonth } from "~/lib/month";
+import { groupReportsByUser } from "~/lib/reports";
+import { toDateKey, toZonedRange, toZonedTime } from "~/lib/timezone";
+import { resolveTimeZone } from "~/lib/timezone.server";
+import { sumBreakMinutes, sumWorkMinutes } from "~/lib/work-time";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) =>
+  data ? [{ title: data.title }] : [];
+
+/**
+ * 月次の勤務表（印刷用）。user を指定するとそのメンバーのみ、
+ * 省略すると予定か実績のあるメンバー全員分を1人1ページで出力する。
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const context = createServerContext(request);
+  const { db, response } = context;
+
+  const { profile } = await requirePermission(context, "reports:export");
+  // 月と日の区切りは出力するメンバーのタイムゾーンの暦で決める
+  const timeZone = resolveTimeZone(profile);
+  const { t } = await getI18n(request, timeZone);
+
+  const url = new URL(request.url);
+  const today = toZonedTime(new Date(), timeZone);
+  const { year, month } = readYearMonth(url.searchParams, today);
+  const userId = url.searchParams.get("user");
+  const range = monthRange(year, month);
+  const times = toZonedRange(range, timeZone);
+
+  const [{ data: schedules }, { data: reports }, { data: members }] =
+    await Promise.all([
+      db.schedules.list({ ...times, userId: userId ?? undefined }),
+      db.reports.list({ ...times, userId: userId ?? undefined }),
+      db.profiles.list(userId ? { ids: [userId] } : {}),
+    ]);
+
+  const activeUserIds = new Set([
+    ...(schedules ?? []).map((schedule) => schedule.user_id),
+    ...(reports ?? []).map((report) => report.schedules.user_id),
+  ]);
+
+  return json(
+    {
+      title: t.timesheet.title(t.yearMonth(year, month)),
+      year,
+      month,
+      range,
+      timeZone,
+      schedules: schedules ?? [],
+      reports: reports ?? [],
+      members: (members ?? []).filter(
+        (member) => userId || activeUserIds.has(member.id)
+      ),
+    },
+    {
+      headers: response.headers,
+    }
+  );
+};
+
+export default function Timesheet() {
+  const { year, month, range, timeZone, schedules, reports, members } =
+    useLoaderData<typeof loader>();
+  // 印刷用の画面は routes/_app の外にあるため、loader で決めたタイムゾーンを使う
+  const { t, formatDate, formatPlainDate, formatDuration } = createI18n(
+    useI18n().locale,
+    timeZone
+  );
+  const yearMonth = t.yearMonth(year, month);
+
+  const days = eachDayOfInterval({
+    start: parseISO(range.from),
+    end: addDays(parseISO(range.to), -1),
+  });
+  const reportsByUser = groupReportsByUser(reports);
+  const time = (value: string) => formatDate(value, "time");
+
+  return (
+    <div className="bg-white text-gray-900">
+      <div className="print:hidden container mx-auto px-4 py-4 flex justify-between items-center">
+        <div className="text-sm text-gray-600">
+          {t.timesheet.summary(yearMonth, members.length)}
+        </div>
+        <button
+          type="button"
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+          onClick={() => window.print()}
+        >
+          <Printer className="w-5 h-5" />
+          {t.timesheet.print}
+        </button>
+      </div>
+
+      {members.length === 0 && (
+        <div className="container mx-auto px-4 py-8 text-gray-600">
+          {t.timesheet.empty}
+        </div>
+      )}
+
+      {members.map((member) => {
+        const memberSchedules = schedules.filter(
+          (schedule) => schedule.user_id === member.id
+        );
+        const memberReports = reportsByUser[member.id]?.reports ?? [];
+        const totalWorkMinutes = reportsByUser[member.id]?.totalWorkMinutes ?? 0;
+
+        return (
+          <section
+            key={member.id}
+            className="container mx-auto px-4 py-6 break-after-page print:px-0 print:py-0 text-sm"
+          >
+            <div className="flex justify-between items-end mb-4">
+              <h1 className="text-2xl font-bold">{t.timesheet.title(yearMonth)}</h1>
+              <div className="text-lg">{t.timesheet.name(member.full_name)}</div>
+            </div>
+
+            <table className="w-full border-collapse border border-gray-400">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border border-gray-400 px-2 py-1">{t.timesheet.date}</th>
+                  <th className="border border-gray-400 px-2 py-1">
+                    {t.timesheet.schedule}
+                  </th>
+                  <th className="border border-gray-400 px-2 py-1">{t.timesheet.actual}</th>
+                  <th className="border border-gray-400 px-2 py-1">{t.timesheet.break}</th>
+                  <th className="border border-gray-400 px-2 py-1">{t.timesheet.work}</th>
+                  <th className="border border-gray-400 px-2 py-1">
+                    {t.timesheet.location}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {days.map((day) => {
+                  const key = format(day, "yyyy-MM-dd");
+                  const daySchedules = memberSchedules.filter(
+                    (schedule) => toDateKey(schedule.start_time, timeZone) === key
+                  );
+                  const dayReports = memberReports.filter(
+                    (report) => toDateKey(report.actual_start_time, timeZone) === key
+                  );
+                  const dayMinutes = sumWorkMinutes(dayReports);
+                  const weekend = day.getDay() === 0 || day.getDay() === 6;
+
+                  return (
+                    <tr key={key} className={weekend ? "bg-gray-50" : undefined}>
+                      <td className="border border-gray-400 px-2 py-0.5 whitespace-nowrap">
+                        {formatPlainDate(day, "dayWeekday")}
+                      </td>
+                      <td className="border border-gray-400 px-2 py-0.5">
+                        {daySchedules.map((schedule) => (
+                          <div key={schedule.id}>
+                            {time(schedule.start_time)}-{time(schedule.end_time)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="border border-gray-400 px-2 py-0.5">
+                        {dayReports.map((report) => (
+                          <div key={report.id}>
+                            {time(report.actual_start_time)}-
+                            {time(report.actual_end_time)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="border border-gray-400 px-2 py-0.5 text-right">
+                        {dayReports.length > 0 && t.minutes(sumBreakMinutes(dayReports))}
+                      </td>
+                      <td className="border border-gray-400 px-2 py-0.5 text-right">
+                        {dayReports.length > 0 && formatDuration(dayMinutes)}
+                      </td>
+                      <td className="border border-gray-400 px-2 py-0.5">
+                        {[
+                          ...new Set(
+                            [
+                              ...daySchedules.map((schedule) => schedule.location),
+                              ...dayReports.map(
+                                (report) => report.actual_location ?? report.schedules.location
+                              ),
+                            ]
+                          ),
+                        ].join(t.common.listSeparator)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="font-bold">
+                  <td className="border border-gray-400 px-2 py-1" colSpan={4}>
+                    {t.timesheet.total(
+                      new Set(
+                        memberReports.map((report) =>
+                          toDateKey(report.actual_start_time, timeZone)
+                        )
+                      ).size
+                    )}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1 text-right">
+                    {formatDuration(totalWorkMinutes)}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1" />
+                </tr>
+              </tfoot>
+            </table>
+
+            <div className="mt-6 flex justify-end gap-4">
+              {t.timesheet.stamps.map((label) => (
+                <div key={label} className="w-28 border border-gray-400 text-center">
+                  <div className="border-b border-gray-400 py-1">{label}</div>
+                  <div className="h-20" />
+                </div>
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+-- 週次の繰り返し予定 (シリーズ)。個々の予定は schedules に展開して保存する。
+create table public.schedule_series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- 0 = 日曜 ... 6 = 土曜
+  weekdays smallint[] not null check (cardinality(weekdays) > 0),
+  start_time time not null,
+  end_time time not null,
+  location text not null,
+  description text not null,
+  starts_on date not null,
+  until date not null check (until >= starts_on),
+  -- スキップ・個別編集された日付。シリーズ再展開時に除外する
+  excluded_dates date[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+alter table public.schedules
+  add column series_id uuid references public.schedule_series (id) on delete set null;
+
+create index schedules_series_id_idx on public.schedules (series_id);
+
+alter table public.schedule_series enable row level security;
+
+create policy "Users can manage their own schedule series"
+  on public.schedule_series
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- 実績の開始・終了はこれまで時刻 (HH:mm) のまま保存されていたため、
+-- 親の予定の日付と組み合わせた日時に変換する。
+-- 終了時刻が開始時刻以前のものは日付を跨いだ勤務として翌日扱いにする。
+alter table public.reports
+  add column actual_start_at timestamptz,
+  add column actual_end_at timestamptz;
+
+update public.reports as r
+set
+  actual_start_at = s.start_time::date + r.actual_start_time::time,
+  actual_end_at = s.start_time::date + r.actual_end_time::time
+    + case
+        when r.actual_end_time::time <= r.actual_start_time::time
+          then interval '1 day'
+        else interval '0'
+      end
+from public.schedules as s
+where s.id = r.schedule_id;
+
+alter table public.reports
+  drop column actual_start_time,
+  drop column actual_end_time;
+
+alter table public.reports rename column actual_start_at to actual_start_time;
+alter table public.reports rename column actual_end_at to actual_end_time;
+
+alter table public.reports
+  alter column actual_start_time set not null,
+  alter column actual_end_time set not null;
+
+create index reports_actual_start_time_idx on public.reports (actual_start_time);
@@ -0,0 +1,45 @@
+-- 実績の取り下げ・再提出のための状態と、修正履歴を追加する。
+alter table public.reports
+  add column status text not null default 'submitted'
+    check (status in ('submitted', 'withdrawn')),
+  add column updated_at timestamptz not null default now();
+
+create table public.report_revisions (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.reports (id) on delete cascade,
+  revised_by uuid references public.profiles (id) on delete set null,
+  action text not null
+    check (action in ('submit', 'update', 'withdraw', 'resubmit')),
+  -- 変更前・変更後の実績の値 (提出時の before と取り下げ時の after は null)
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index report_revisions_report_id_idx on public.report_revisions (report_id);
+
+alter table public.report_revisions enable row level security;
+
+create policy "Members can read revisions of their own reports"
+  on public.report_revisions
+  for select
+  using (
+    exists (
+      select 1
+      from public.reports r
+      join public.schedules s on s.id = r.schedule_id
+      where r.id = report_id and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins can read all report revisions"
+  on public.report_revisions
+  for select
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin)
+  );
+
+create policy "Users can record their own revisions"
+  on public.report_revisions
+  for insert
+  with check (revised_by = auth.uid());
@@ -0,0 +1,15 @@
+-- 管理者による実績の承認・差し戻し。
+alter table public.reports
+  drop constraint reports_status_check,
+  add constraint reports_status_check
+    check (status in ('submitted', 'approved', 'rejected', 'withdrawn')),
+  add column review_comment text,
+  add column reviewed_by uuid references public.profiles (id) on delete set null,
+  add column reviewed_at timestamptz;
+
+alter table public.report_revisions
+  drop constraint report_revisions_action_check,
+  add constraint report_revisions_action_check
+    check (action in ('submit', 'update', 'withdraw', 'resubmit', 'approve', 'reject')),
+  -- 差し戻し理由などのコメント
+  add column comment text;
@@ -0,0 +1,4 @@
+-- 予定と異なる場所で勤務した場合に記録する実際の場所。
+-- 既存の実績は null のままとし、予定の場所で勤務したものとして扱う。
+alter table public.reports
+  add column actual_location text;
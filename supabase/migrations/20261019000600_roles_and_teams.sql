@@ -0,0 +1,110 @@
+-- ロール（一般・チームリーダー・給与担当・管理者）とチームを追加する。
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.teams enable row level security;
+
+create policy "Authenticated users can read teams"
+  on public.teams
+  for select
+  to authenticated
+  using (true);
+
+alter table public.profiles
+  add column role text not null default 'member'
+    check (role in ('member', 'team_lead', 'payroll', 'admin')),
+  add column team_id uuid references public.teams (id) on delete set null;
+
+update public.profiles set role = 'admin' where is_admin;
+
+-- 既存の RLS ポリシーが is_admin を参照しているため、role と同期させておく
+create function public.sync_profile_is_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.is_admin := new.role = 'admin';
+  return new;
+end;
+$$;
+
+create trigger profiles_sync_is_admin
+  before insert or update of role on public.profiles
+  for each row execute function public.sync_profile_is_admin();
+
+-- ポリシー内で profiles を参照すると再帰するため、security definer の関数で取得する
+create function public.current_role_name()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+create function public.current_team_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select team_id from public.profiles where id = auth.uid();
+$$;
+
+create policy "Team leads and payroll can read schedules"
+  on public.schedules
+  for select
+  using (
+    public.current_role_name() = 'payroll'
+    or (
+      public.current_role_name() = 'team_lead'
+      and exists (
+        select 1 from public.profiles p
+        where p.id = user_id and p.team_id = public.current_team_id()
+      )
+    )
+  );
+
+create policy "Team leads and payroll can read reports"
+  on public.reports
+  for select
+  using (
+    public.current_role_name() = 'payroll'
+    or (
+      public.current_role_name() = 'team_lead'
+      and exists (
+        select 1
+        from public.schedules s
+        join public.profiles p on p.id = s.user_id
+        where s.id = schedule_id and p.team_id = public.current_team_id()
+      )
+    )
+  );
+
+create policy "Team leads can review their team's reports"
+  on public.reports
+  for update
+  using (
+    public.current_role_name() = 'team_lead'
+    and exists (
+      select 1
+      from public.schedules s
+      join public.profiles p on p.id = s.user_id
+      where s.id = schedule_id and p.team_id = public.current_team_id()
+    )
+  );
+
+create policy "Team leads and payroll can read report revisions"
+  on public.report_revisions
+  for select
+  using (
+    exists (
+      select 1 from public.reports r where r.id = report_id
+    )
+    and public.current_role_name() in ('team_lead', 'payroll')
+  );
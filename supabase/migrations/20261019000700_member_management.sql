@@ -0,0 +1,31 @@
+-- メンバーの雇用形態と、削除の代わりに使う無効化日時を追加する。
+alter table public.profiles
+  add column employment_type text not null default 'full_time'
+    check (employment_type in ('full_time', 'part_time', 'contract', 'intern')),
+  add column deactivated_at timestamptz;
+
+-- profiles のポリシー内で profiles を参照すると再帰するため、current_role_name() で判定する
+create policy "Admins can update profiles"
+  on public.profiles
+  for update
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+
+-- 管理画面でメールアドレスを変更したら、ログインに使うメールアドレスも変更する
+create function public.sync_auth_user_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update auth.users set email = new.email where id = new.id;
+  return new;
+end;
+$$;
+
+create trigger profiles_sync_auth_email
+  after update of email on public.profiles
+  for each row
+  when (old.email is distinct from new.email)
+  execute function public.sync_auth_user_email();
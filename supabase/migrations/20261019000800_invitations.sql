@@ -0,0 +1,64 @@
+-- 招待の状態（招待中・期限切れ・参加済み・取り消し）を管理する。
+create table public.invitations (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  full_name text not null,
+  invited_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- 再送するたびに更新する
+  last_sent_at timestamptz not null default now(),
+  send_count integer not null default 1,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- 未完了の招待はメールアドレスごとに1件まで
+create unique index invitations_open_email_idx
+  on public.invitations (lower(email))
+  where accepted_at is null and revoked_at is null;
+
+alter table public.invitations enable row level security;
+
+create policy "Admins can manage invitations"
+  on public.invitations
+  for all
+  using (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin)
+  )
+  with check (
+    exists (select 1 from public.profiles where id = auth.uid() and is_admin)
+  );
+
+-- 招待されたユーザーが初めてログインしてプロフィールが作られたら参加済みにする。
+-- 有効な招待が無く、取り消し・期限切れの招待しか無い場合は無効化した状態で作る。
+create function public.accept_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  accepted integer;
+begin
+  update public.invitations
+    set accepted_at = now()
+    where lower(email) = lower(new.email)
+      and accepted_at is null
+      and revoked_at is null
+      and expires_at > now();
+  get diagnostics accepted = row_count;
+
+  if accepted = 0 and exists (
+    select 1 from public.invitations where lower(email) = lower(new.email)
+  ) then
+    new.deactivated_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger profiles_accept_invitation
+  before insert on public.profiles
+  for each row execute function public.accept_invitation();
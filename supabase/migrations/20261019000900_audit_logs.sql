@@ -0,0 +1,28 @@
+-- 予定・実績・メンバーの変更を記録する監査ログ。
+-- 追記のみとし、更新・削除のポリシーは作らない。
+create table public.audit_logs (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references public.profiles (id) on delete set null,
+  action text not null,
+  entity_type text not null
+    check (entity_type in ('schedule', 'schedule_series', 'report', 'member', 'invitation')),
+  entity_id uuid,
+  -- 変更前・変更後の値 (作成時の before と削除時の after は null)
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_logs_created_at_idx on public.audit_logs (created_at desc);
+create index audit_logs_actor_id_idx on public.audit_logs (actor_id);
+
+alter table public.audit_logs enable row level security;
+
+create policy "Admins can read audit logs"
+  on public.audit_logs
+  for select
+  using (public.current_role_name() = 'admin');
+
+-- 利用者が任意の内容を記録できないよう、追加はアプリのサーバーから service role で行う。
+-- insert のポリシーは作らず、anon / authenticated からの追加・更新・削除はすべて禁止する。
+revoke insert, update, delete, truncate on public.audit_logs from anon, authenticated;
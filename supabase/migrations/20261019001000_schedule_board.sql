@@ -0,0 +1,52 @@
+-- 出勤ボード用に、有効なメンバー全員の名前と予定の日付・場所だけを返す。
+-- 業務内容などは含めないため、一般のメンバーにも公開できる。
+create function public.board_members()
+returns table (id uuid, full_name text, team_id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.full_name, p.team_id
+  from public.profiles p
+  where auth.uid() is not null
+    and p.deactivated_at is null
+  order by p.full_name;
+$$;
+
+-- 予定は time_zone (閲覧するメンバーのタイムゾーン) での日付と場所だけを返す。
+-- 日時は他のメンバーの予定を閲覧できる管理者 (schedules:view_all) にだけ返し、それ以外には null を返す。
+-- 範囲も日付で受け取り、細かい範囲の指定を繰り返して時刻を調べられないようにする。
+create function public.board_schedules(range_start date, range_end date, time_zone text)
+returns table (
+  id uuid,
+  user_id uuid,
+  date date,
+  location text,
+  start_time timestamptz,
+  end_time timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.id,
+    s.user_id,
+    (s.start_time at time zone time_zone)::date,
+    s.location,
+    case when public.current_role_name() = 'admin' then s.start_time end,
+    case when public.current_role_name() = 'admin' then s.end_time end
+  from public.schedules s
+  join public.profiles p on p.id = s.user_id
+  where auth.uid() is not null
+    and p.deactivated_at is null
+    and exists (select 1 from pg_timezone_names z where z.name = time_zone)
+    and s.start_time >= range_start::timestamp at time zone time_zone
+    and s.start_time < range_end::timestamp at time zone time_zone
+  order by s.start_time;
+$$;
+
+revoke execute on function public.board_members() from anon;
+revoke execute on function public.board_schedules(date, date, text) from anon;
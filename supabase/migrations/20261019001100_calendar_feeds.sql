@@ -0,0 +1,78 @@
+-- カレンダーアプリ（Google / Outlook など）から予定を購読するための iCalendar フィードを提供する。
+
+-- 購読側に変更を伝えるため、予定の内容が変わるたびに sequence を増やす。
+alter table public.schedules
+  add column sequence integer not null default 0,
+  add column updated_at timestamptz not null default now();
+
+create function public.bump_schedule_sequence()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.start_time, new.end_time, new.location, new.description)
+    is distinct from (old.start_time, old.end_time, old.location, old.description)
+  then
+    new.sequence := old.sequence + 1;
+    new.updated_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger schedules_bump_sequence
+  before update on public.schedules
+  for each row execute function public.bump_schedule_sequence();
+
+-- 購読 URL に含めるトークン。メンバーごとに1件で、再発行すると以前の URL は使えなくなる。
+create table public.calendar_feeds (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "Users can manage their own calendar feed"
+  on public.calendar_feeds
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- カレンダーアプリはログインせずに取得するため、トークンが一致する場合だけ返す。
+-- 無効化されたメンバーのフィードは返さない。
+create function public.calendar_feed_owner(feed_token text)
+returns table (id uuid, full_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.full_name
+  from public.calendar_feeds f
+  join public.profiles p on p.id = f.user_id
+  where f.token = feed_token
+    and p.deactivated_at is null;
+$$;
+
+create function public.calendar_feed_schedules(feed_token text, range_start timestamptz)
+returns setof public.schedules
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.*
+  from public.schedules s
+  join public.calendar_feeds f on f.user_id = s.user_id
+  join public.profiles p on p.id = s.user_id
+  where f.token = feed_token
+    and p.deactivated_at is null
+    and s.start_time >= range_start
+  order by s.start_time;
+$$;
+
+grant execute on function public.calendar_feed_owner(text) to anon, authenticated;
+grant execute on function public.calendar_feed_schedules(text, timestamptz)
+  to anon, authenticated;
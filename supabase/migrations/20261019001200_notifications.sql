@@ -0,0 +1,43 @@
+-- アプリ内の通知（受信箱）。メール・Slack への送信もここに記録した通知を元に行う。
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null
+    check (kind in ('report_missing', 'report_overdue', 'report_rejected')),
+  -- 文面は保存せず、種類と文面に埋め込む値 (予定の日時・メンバー名など) から表示言語で組み立てる
+  params jsonb not null default '{}'::jsonb,
+  link text,
+  -- 同じ内容を繰り返し通知しないためのキー（例: report_missing:<予定ID>）
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index notifications_user_dedupe_key_idx
+  on public.notifications (user_id, dedupe_key);
+
+create index notifications_user_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.notifications
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own notifications as read"
+  on public.notifications
+  for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- 差し戻しの通知は承認した人のセッションで作成する。
+-- 未提出の督促は定期実行のジョブが service_role で作成するため、ポリシーは不要。
+create policy "Reviewers can notify members"
+  on public.notifications
+  for insert
+  with check (
+    kind = 'report_rejected'
+    and public.current_role_name() in ('team_lead', 'admin')
+  );
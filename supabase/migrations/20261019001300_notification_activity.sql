@@ -0,0 +1,86 @@
+-- 受信箱に、実績の承認・管理者による実績や予定の変更・メンバーの参加の通知を追加する。
+alter table public.notifications drop constraint notifications_kind_check;
+
+alter table public.notifications
+  add constraint notifications_kind_check
+    check (kind in (
+      'report_missing',
+      'report_overdue',
+      'report_approved',
+      'report_rejected',
+      'report_edited',
+      'schedule_edited',
+      'schedule_deleted',
+      'member_joined'
+    ));
+
+drop policy "Reviewers can notify members" on public.notifications;
+
+create policy "Reviewers can notify members"
+  on public.notifications
+  for insert
+  with check (
+    (
+      kind in ('report_approved', 'report_rejected')
+      and public.current_role_name() in ('team_lead', 'admin')
+    )
+    or (
+      kind in ('report_edited', 'schedule_edited', 'schedule_deleted')
+      and public.current_role_name() = 'admin'
+    )
+  );
+
+-- 管理者は他のメンバーの予定を1回ずつ変更・削除できる（schedules:edit_all）。
+-- 繰り返しの1回を変更・削除した場合は、その日をシリーズの展開対象から外すためシリーズも更新する。
+create policy "Admins can update all schedules"
+  on public.schedules
+  for update
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+
+create policy "Admins can delete all schedules"
+  on public.schedules
+  for delete
+  using (public.current_role_name() = 'admin');
+
+create policy "Admins can read all schedule series"
+  on public.schedule_series
+  for select
+  using (public.current_role_name() = 'admin');
+
+create policy "Admins can update all schedule series"
+  on public.schedule_series
+  for update
+  using (public.current_role_name() = 'admin')
+  with check (public.current_role_name() = 'admin');
+
+-- メンバーが初めてログインしてプロフィールが作られたら管理者に知らせる（受信箱のみ）。
+-- 無効化された状態で作られた場合（招待が取り消し・期限切れ）は知らせない。
+create function public.notify_member_joined()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deactivated_at is null then
+    insert into public.notifications (user_id, kind, params, link, dedupe_key)
+    select
+      p.id,
+      'member_joined',
+      jsonb_build_object('member_name', new.full_name, 'email', new.email),
+      '/members',
+      'member_joined:' || new.id
+    from public.profiles p
+    where p.role = 'admin'
+      and p.deactivated_at is null
+      and p.id <> new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger profiles_notify_member_joined
+  after insert on public.profiles
+  for each row execute function public.notify_member_joined();
@@ -0,0 +1,9 @@
+-- メンバーごとのタイムゾーン (IANA 名、例: America/New_York)。
+-- null の場合は組織のタイムゾーン (ORGANIZATION_TIME_ZONE、既定: Asia/Tokyo) で表示・入力する。
+alter table public.profiles
+  add column time_zone text;
+
+-- 繰り返し予定の時刻 (start_time / end_time) をどのタイムゾーンの時刻として展開するか。
+-- これまでのシリーズは日本時間で登録されていたものとして扱う。
+alter table public.schedule_series
+  add column time_zone text not null default 'Asia/Tokyo';
@@ -0,0 +1,13 @@
+-- これまで予定と実績の日時はタイムゾーンを付けずに保存していたため、
+-- 日本時間の 10:00 が UTC の 10:00 として記録されている。
+-- 記録されている時刻を日本時間 (Asia/Tokyo) の時刻として読み直し、正しい時点に直す。
+-- タイムゾーンを付けて保存するアプリと同時に適用すること（適用後に保存した日時は変換しない）。
+update public.schedules
+set
+  start_time = (start_time at time zone 'UTC') at time zone 'Asia/Tokyo',
+  end_time = (end_time at time zone 'UTC') at time zone 'Asia/Tokyo';
+
+update public.reports
+set
+  actual_start_time = (actual_start_time at time zone 'UTC') at time zone 'Asia/Tokyo',
+  actual_end_time = (actual_end_time at time zone 'UTC') at time zone 'Asia/Tokyo';
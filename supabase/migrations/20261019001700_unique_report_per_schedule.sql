@@ -0,0 +1,10 @@
+-- 実績は予定ごとに1件とする。
+-- 二重送信で同じ予定に複数の実績がある場合は、最初に提出したものを残す。
+delete from public.reports as duplicate
+using public.reports as first
+where duplicate.schedule_id = first.schedule_id
+  and (duplicate.created_at, duplicate.id) > (first.created_at, first.id);
+
+-- 一意制約にすると PostgREST が schedules からの reports(*) を配列でなく1件で返すため、
+-- 一意インデックスで重複を防ぐ
+create unique index reports_schedule_id_key on public.reports (schedule_id);
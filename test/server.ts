@@ -0,0 +1,59 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { createMemoryRepository } from "~/lib/memory-repository.server";
+import { action as loginAction } from "~/routes/_auth.login";
+
+type RouteHandler = (args: LoaderFunctionArgs) => Promise<unknown>;
+
+const BASE_URL = "http://localhost";
+
+/** DATA_BACKEND=memory で loader / action が使っているデータ */
+export const memoryStore = () => globalThis.__memoryStore!;
+
+/** loader / action と同じデータを直接操作する */
+export const memoryDb = () => createMemoryRepository(memoryStore());
+
+/** loader / action を呼び出す。throw された Response (401・403 など) もそのまま返す */
+async function call(handler: RouteHandler, request: Request) {
+  try {
+    return (await handler({ request, params: {}, context: {} })) as Response;
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+export const get = (loader: RouteHandler, path: string, cookie = "") =>
+  call(loader, new Request(`${BASE_URL}${path}`, { headers: { Cookie: cookie } }));
+
+export const post = (
+  action: RouteHandler,
+  path: string,
+  form: Record<string, string>,
+  cookie = ""
+) =>
+  call(
+    action,
+    new Request(`${BASE_URL}${path}`, {
+      method: "POST",
+      headers: { Cookie: cookie },
+      body: new URLSearchParams(form),
+    })
+  );
+
+/** シードデータのメンバーでログインし、セッションの Cookie を返す */
+export async function signIn(email: string) {
+  const response = await post(loginAction, "/login", {
+    intent: "password",
+    email,
+    password: process.env.LOCAL_AUTH_PASSWORD ?? "password",
+  });
+  const cookie = response.headers.get("Set-Cookie");
+
+  if (!cookie) {
+    throw new Error(`${email} でログインできませんでした`);
+  }
+
+  return cookie.split(";")[0];
+}
@@ -0,0 +1,12 @@
+import { afterEach, beforeEach, vi } from "vitest";
+import { createSeedStore } from "~/lib/seed.server";
+
+// テストごとにシードデータから始める (DATA_BACKEND=memory のデータは globalThis に保持される)
+beforeEach(() => {
+  globalThis.__memoryStore = createSeedStore();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
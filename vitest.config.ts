@@ -0,0 +1,16 @@
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Remix の Vite プラグインはテストでは使わないため、vite.config.ts とは分ける
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    setupFiles: ["./test/setup.ts"],
+    env: {
+      DATA_BACKEND: "memory",
+      MEMBER_DIRECTORY: "local",
+      LOCAL_DIRECTORY_EMAILS: "new.member@example.com,member@example.com",
+    },
+  },
+});